@@ -0,0 +1,168 @@
+/**
+ * Admin Games Page
+ * Review queue for games submitted from GOG, Epic or as manual entries
+ */
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Image from "next/image";
+import { format } from "date-fns";
+import { Check, Loader2, X } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { GAME_SOURCES } from "@/lib/constants/config-presets";
+
+/**
+ * A game waiting for review, as returned by /api/admin/games
+ */
+interface PendingGame {
+  id: string;
+  source: string;
+  externalId: string;
+  name: string;
+  imageUrl: string;
+  createdAt: string;
+  submittedBy: { id: string; username: string } | null;
+}
+
+/**
+ * Admin games page component
+ *
+ * @returns React component
+ */
+export default function AdminGamesPage(): JSX.Element {
+  const [games, setGames] = useState<PendingGame[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  const fetchGames = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch("/api/admin/games?limit=50");
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to fetch pending games");
+      }
+      setGames(data.games);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to fetch pending games");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchGames();
+  }, [fetchGames]);
+
+  /**
+   * Approves or rejects a game and removes it from the queue
+   */
+  const handleReview = async (game: PendingGame, status: "APPROVED" | "REJECTED") => {
+    setReviewingId(game.id);
+    try {
+      const response = await fetch(`/api/admin/games/${game.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ status }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to review game");
+      }
+
+      setGames((prev) => prev.filter((item) => item.id !== game.id));
+      toast.success(`${game.name} ${status === "APPROVED" ? "approved" : "rejected"}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to review game");
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Submitted Games</CardTitle>
+        <CardDescription>
+          Games added by users wait here until they are approved. Configs can only be posted for approved games.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : games.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-10">No games waiting for review.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Game</TableHead>
+                <TableHead>Store</TableHead>
+                <TableHead>Submitted by</TableHead>
+                <TableHead>Submitted</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {games.map((game) => (
+                <TableRow key={game.id}>
+                  <TableCell>
+                    <div className="flex items-center gap-3">
+                      <div className="relative h-10 w-20 overflow-hidden rounded">
+                        <Image src={game.imageUrl} alt={game.name} fill className="object-cover" sizes="80px" />
+                      </div>
+                      <span className="font-medium">{game.name}</span>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {GAME_SOURCES[game.source]?.label ?? game.source}
+                    {GAME_SOURCES[game.source]?.idLabel && (
+                      <span className="block text-xs text-muted-foreground">{game.externalId}</span>
+                    )}
+                  </TableCell>
+                  <TableCell>{game.submittedBy ? `@${game.submittedBy.username}` : "—"}</TableCell>
+                  <TableCell>{format(new Date(game.createdAt), "PP")}</TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button
+                      size="sm"
+                      onClick={() => handleReview(game, "APPROVED")}
+                      disabled={reviewingId === game.id}
+                    >
+                      <Check className="h-4 w-4 mr-1" />
+                      Approve
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleReview(game, "REJECTED")}
+                      disabled={reviewingId === game.id}
+                    >
+                      <X className="h-4 w-4 mr-1" />
+                      Reject
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -14,6 +14,7 @@ import {
   Settings, 
   ThumbsUp, 
   Flag, 
+  Gamepad2,
   AlertTriangle, 
   ChevronRight,
   LogOut
@@ -70,6 +71,12 @@ const navItems: NavItem[] = [
     icon: <Flag className="h-5 w-5" />,
     roles: ["ADMIN", "MODERATOR"],
   },
+  {
+    title: "Games",
+    href: "/admin/games",
+    icon: <Gamepad2 className="h-5 w-5" />,
+    roles: ["ADMIN", "MODERATOR"],
+  },
   {
     title: "System Settings",
     href: "/admin/settings",
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { hasPermission } from "@/lib/permissions";
+import { reviewGame } from "@/lib/services/game-service";
+import { gameReviewSchema } from "@/lib/validations/config";
+
+/**
+ * PATCH /api/admin/games/[id]
+ * Approves or rejects a submitted game, approved games can receive configs.
+ * Accessible only by users with the game:update permission.
+ * @param {NextRequest} req - The incoming request object with the new status.
+ * @returns {NextResponse} A response containing the updated game.
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: req.headers,
+    });
+    if (!session?.user) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+    if (!hasPermission(session.user.role, { game: ["update"] })) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const validationResult = gameReviewSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Status must be APPROVED or REJECTED" },
+        { status: 400 }
+      );
+    }
+
+    const game = await reviewGame(params.id, validationResult.data.status);
+
+    return NextResponse.json(game);
+  } catch (error: any) {
+    console.error("[ADMIN_GAMES_PATCH]", error);
+
+    if (error.message === "Game not found") {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error.message === "Game has already been reviewed") {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to review game" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { hasPermission } from "@/lib/permissions";
+import { getPendingGames } from "@/lib/services/game-service";
+import { parsePaginationParams } from "@/lib/pagination";
+
+/**
+ * GET /api/admin/games
+ * Retrieves the paginated queue of submitted games waiting for review, oldest first.
+ * Accessible only by users with the game:update permission.
+ * @param {NextRequest} req - The incoming request object.
+ * @returns {NextResponse} A response containing the pending games and pagination metadata.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: req.headers,
+    });
+    if (!session?.user) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+    if (!hasPermission(session.user.role, { game: ["update"] })) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const pagination = parsePaginationParams(searchParams);
+    if (!pagination.success) {
+      return NextResponse.json(
+        { error: "Invalid pagination parameters", details: pagination.error.format() },
+        { status: 400 }
+      );
+    }
+    const { page, limit } = pagination.data;
+
+    const result = await getPendingGames(page, limit);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("[ADMIN_GAMES_GET]", error);
+    return NextResponse.json(
+      { error: "Failed to fetch pending games" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { hasPermission } from "@/lib/permissions";
+import { updateReportStatus } from "@/lib/services/report-service";
+import { reportStatusSchema } from "@/lib/validations/config";
+
+/**
+ * PATCH /api/admin/reports/[id]
+ * Moves an open report to REVIEWED or DISMISSED.
+ * Accessible only by users with the moderation:manage_reports permission.
+ * @param {NextRequest} req - The incoming request object with the new status.
+ * @returns {NextResponse} A response containing the updated report.
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: req.headers,
+    });
+    if (!session?.user) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+    if (!hasPermission(session.user.role, { moderation: ["manage_reports"] })) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const validationResult = reportStatusSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Status must be REVIEWED or DISMISSED" },
+        { status: 400 }
+      );
+    }
+
+    const report = await updateReportStatus(params.id, validationResult.data.status);
+
+    return NextResponse.json(report);
+  } catch (error: any) {
+    console.error("[ADMIN_REPORTS_PATCH]", error);
+
+    if (error.message === "Report not found") {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error.message === "Report has already been processed") {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update report" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { ReportStatus } from "@prisma/client";
+import { hasPermission } from "@/lib/permissions";
+import { getReports } from "@/lib/services/report-service";
+import { parsePaginationParams } from "@/lib/pagination";
+
+/**
+ * GET /api/admin/reports
+ * Retrieves the paginated moderation queue, optionally filtered by status.
+ * Accessible only by users with the moderation:manage_reports permission.
+ * @param {NextRequest} req - The incoming request object.
+ * @returns {NextResponse} A response containing the list of reports and pagination metadata.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: req.headers,
+    });
+    if (!session?.user) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+    if (!hasPermission(session.user.role, { moderation: ["manage_reports"] })) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const pagination = parsePaginationParams(searchParams);
+    if (!pagination.success) {
+      return NextResponse.json(
+        { error: "Invalid pagination parameters", details: pagination.error.format() },
+        { status: 400 }
+      );
+    }
+    const { page, limit } = pagination.data;
+    const statusParam = searchParams.get("status");
+
+    // Validate the status filter against the enum
+    if (statusParam && !Object.values(ReportStatus).includes(statusParam as ReportStatus)) {
+      return NextResponse.json(
+        { error: `Invalid status. Must be one of: ${Object.values(ReportStatus).join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const status = statusParam ? (statusParam as ReportStatus) : undefined;
+    const result = await getReports(status, page, limit);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("[ADMIN_REPORTS_GET]", error);
+    return NextResponse.json(
+      { error: "Failed to fetch reports" },
+      { status: 500 }
+    );
+  }
+}
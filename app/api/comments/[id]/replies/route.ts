@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { commentSchema } from "@/lib/validations/config";
+import { commentInclude, createComment, loadCommentThreads } from "@/lib/services/comment-service";
+import { notifyCommentCreated } from "@/lib/services/notification-service";
+
+/**
+ * GET handler for retrieving the replies to a comment
+ * Returns the nested replies below the comment, oldest first
+ * 
+ * @param request - The incoming request object
+ * @param params - Route parameters including the comment id
+ * @returns NextResponse with replies data or error
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const comment = await prisma.comment.findUnique({
+      where: { id: params.id },
+      include: commentInclude,
+    });
+
+    if (!comment) {
+      return NextResponse.json(
+        { error: "Comment not found" },
+        { status: 404 }
+      );
+    }
+
+    const { threads, commentIds } = await loadCommentThreads([comment]);
+
+    // Get the vote status for each reply if user is authenticated
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+    let commentVotes: Record<string, number> = {};
+
+    if (session?.user) {
+      const votes = await prisma.commentVote.findMany({
+        where: {
+          userId: session.user.id,
+          commentId: { in: commentIds },
+        },
+        select: {
+          commentId: true,
+          value: true,
+        },
+      });
+
+      commentVotes = Object.fromEntries(votes.map((vote) => [vote.commentId, vote.value]));
+    }
+
+    return NextResponse.json({
+      replies: threads[0].replies,
+      userVotes: commentVotes,
+    });
+  } catch (error) {
+    console.error("Error fetching replies:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch replies" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST handler for replying to a comment
+ * Requires authentication and validates input
+ * 
+ * @param request - The incoming request object with reply content
+ * @param params - Route parameters including the comment id
+ * @returns NextResponse with the created reply or error
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    // Check if user is authenticated
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    // Check if user is suspended
+    if (session.user.suspendedUntil && new Date(session.user.suspendedUntil) > new Date()) {
+      return NextResponse.json(
+        { error: "Your account is currently suspended" },
+        { status: 403 }
+      );
+    }
+
+    // Unverified accounts can browse but not post
+    if (!session.user.emailVerified) {
+      return NextResponse.json(
+        { error: "Please verify your email address before posting" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+
+    // Validate input using the shared schema, the parent comes from the URL
+    const validationResult = commentSchema.safeParse({ ...body, parentId: params.id });
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Invalid comment data", issues: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const parent = await prisma.comment.findUnique({
+      where: { id: params.id },
+      select: { configId: true },
+    });
+
+    if (!parent) {
+      return NextResponse.json(
+        { error: "Comment not found" },
+        { status: 404 }
+      );
+    }
+
+    let reply;
+    try {
+      reply = await createComment(session.user.id, parent.configId, validationResult.data.content, params.id);
+    } catch (error) {
+      if (error instanceof Error && error.message === "Parent comment not found") {
+        return NextResponse.json(
+          { error: "Comment not found" },
+          { status: 404 }
+        );
+      }
+      throw error;
+    }
+
+    await notifyCommentCreated(reply);
+
+    return NextResponse.json(reply, { status: 201 });
+  } catch (error) {
+    console.error("Error creating reply:", error);
+    return NextResponse.json(
+      { error: "Failed to create reply" },
+      { status: 500 }
+    );
+  }
+}
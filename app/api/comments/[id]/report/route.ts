@@ -0,0 +1,91 @@
+/**
+ * API Route for reporting a comment
+ * POST /api/comments/[id]/report
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { createReport } from "@/lib/services/report-service";
+import { reportSchema } from "@/lib/validations/config";
+
+/**
+ * POST handler to report a comment to moderators
+ * 
+ * @param request - The incoming request with the report reason
+ * @param params - Route parameters containing comment ID
+ * @returns API response with the created report
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    // Check if user is authenticated
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    // Check if user is suspended
+    if (session.user.suspendedUntil && new Date(session.user.suspendedUntil) > new Date()) {
+      return NextResponse.json(
+        { error: "Your account is currently suspended" },
+        { status: 403 }
+      );
+    }
+
+    const { id: commentId } = params;
+    const body = await request.json();
+
+    // Validate input using the shared schema
+    const validationResult = reportSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Invalid report data", issues: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    // Check if the comment exists
+    const comment = await prisma.comment.findUnique({
+      where: { id: commentId },
+      select: { id: true },
+    });
+
+    if (!comment) {
+      return NextResponse.json(
+        { error: "Comment not found" },
+        { status: 404 }
+      );
+    }
+
+    const report = await createReport(
+      session.user.id,
+      { commentId },
+      validationResult.data.reason
+    );
+
+    return NextResponse.json(report, { status: 201 });
+  } catch (error: any) {
+    console.error("Error reporting comment:", error);
+
+    if (error.message === "You have already reported this content") {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to report comment" },
+      { status: 500 }
+    );
+  }
+}
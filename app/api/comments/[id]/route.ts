@@ -1,9 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { auth } from "@/lib/auth";
+import { commentInclude, deleteComment, toPublicComment } from "@/lib/services/comment-service";
 
 /**
  * GET handler for retrieving a specific comment by ID
+ * Deleted comments are returned without their content and author
  * 
  * @param request - The incoming request object
  * @param params - Route parameters including the comment id
@@ -18,21 +20,7 @@ export async function GET(
 
     const comment = await prisma.comment.findUnique({
       where: { id: commentId },
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            image: true,
-            username: true,
-          },
-        },
-        _count: {
-          select: {
-            votes: true,
-          },
-        },
-      },
+      include: commentInclude,
     });
 
     if (!comment) {
@@ -65,7 +53,7 @@ export async function GET(
     }
 
     return NextResponse.json({
-      ...comment,
+      ...toPublicComment(comment),
       userVote,
     });
   } catch (error) {
@@ -131,10 +119,11 @@ export async function PATCH(
     // Check if comment exists and belongs to the user
     const existingComment = await prisma.comment.findUnique({
       where: { id: commentId },
-      select: { userId: true },
+      select: { userId: true, isDeleted: true },
     });
 
-    if (!existingComment) {
+    // Deleted comments stay in their thread but can no longer be edited
+    if (!existingComment || existingComment.isDeleted) {
       return NextResponse.json(
         { error: "Comment not found" },
         { status: 404 }
@@ -160,16 +149,7 @@ export async function PATCH(
         content: content.trim(),
         updatedAt: new Date(),
       },
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            image: true,
-            username: true,
-          },
-        },
-      },
+      include: commentInclude,
     });
 
     return NextResponse.json(updatedComment);
@@ -185,6 +165,7 @@ export async function PATCH(
 /**
  * DELETE handler for removing a comment
  * Only allows the comment author or admins/moderators to delete a comment
+ * Comments with replies are soft-deleted so the replies stay in place
  * 
  * @param request - The incoming request object
  * @param params - Route parameters including the comment id
@@ -212,10 +193,10 @@ export async function DELETE(
     // Check if comment exists
     const existingComment = await prisma.comment.findUnique({
       where: { id: commentId },
-      select: { userId: true },
+      select: { userId: true, isDeleted: true },
     });
 
-    if (!existingComment) {
+    if (!existingComment || existingComment.isDeleted) {
       return NextResponse.json(
         { error: "Comment not found" },
         { status: 404 }
@@ -234,13 +215,11 @@ export async function DELETE(
       );
     }
 
-    // Delete the comment (will cascade delete associated votes due to Prisma schema)
-    await prisma.comment.delete({
-      where: { id: commentId },
-    });
+    // Hard deletes cascade to associated votes due to Prisma schema
+    const { mode } = await deleteComment(commentId);
 
     return NextResponse.json(
-      { message: "Comment deleted successfully" },
+      { message: "Comment deleted successfully", mode },
       { status: 200 }
     );
   } catch (error) {
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { auth } from "@/lib/auth";
 import { commentVoteSchema } from "@/lib/validations/config";
+import { notifyUpvote } from "@/lib/services/notification-service";
 
 /**
  * POST handler for voting on a comment
@@ -54,10 +55,10 @@ export async function POST(
     // Check if comment exists
     const comment = await prisma.comment.findUnique({
       where: { id: commentId },
-      select: { id: true, userId: true },
+      select: { id: true, userId: true, isDeleted: true },
     });
 
-    if (!comment) {
+    if (!comment || comment.isDeleted) {
       return NextResponse.json(
         { error: "Comment not found" },
         { status: 404 }
@@ -200,6 +201,11 @@ export async function POST(
       },
     });
 
+    // Let the author know about new upvotes
+    if (value === 1 && existingVote?.value !== 1) {
+      await notifyUpvote({ commentId }, session.user.id);
+    }
+
     return NextResponse.json({
       ...result,
       upvotes: updatedComment?.upvotes || 0,
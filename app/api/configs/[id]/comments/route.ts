@@ -1,11 +1,29 @@
 import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
 import { auth } from "@/lib/auth";
 import { commentSchema } from "@/lib/validations/config";
+import { commentInclude, createComment, loadCommentThreads } from "@/lib/services/comment-service";
+import { notifyCommentCreated } from "@/lib/services/notification-service";
+import {
+  type CursorField,
+  parsePaginationParams,
+  decodeCursor,
+  cursorOrderBy,
+  cursorWhere,
+  toCursorPage,
+} from "@/lib/pagination";
+
+// Newest threads first, `id` breaks ties between comments created at the same time
+const COMMENT_SORT_FIELDS: CursorField[] = [
+  { field: "createdAt", direction: "desc", type: "date" },
+  { field: "id", direction: "desc" },
+];
 
 /**
  * GET handler for retrieving comments for a specific config
- * Returns all comments for the config with pagination support
+ * Returns top-level comments with their nested replies, paginated by top-level comment
+ * Pass ?cursor= (empty for the first page) to use cursor pagination instead of page/limit
  * 
  * @param request - The incoming request object
  * @param params - Route parameters including the config id
@@ -18,10 +36,28 @@ export async function GET(
   try {
     const configId = params.id;
     const { searchParams } = new URL(request.url);
-    const page = parseInt(searchParams.get("page") || "1");
-    const limit = parseInt(searchParams.get("limit") || "10");
+    const pagination = parsePaginationParams(searchParams, 10);
+    if (!pagination.success) {
+      return NextResponse.json(
+        { error: "Invalid pagination parameters", details: pagination.error.format() },
+        { status: 400 }
+      );
+    }
+    const { page, limit, cursor } = pagination.data;
     const skip = (page - 1) * limit;
 
+    let cursorValues: unknown[] | null = null;
+    if (cursor) {
+      try {
+        cursorValues = decodeCursor(cursor, "newest", COMMENT_SORT_FIELDS);
+      } catch {
+        return NextResponse.json(
+          { error: "Invalid cursor" },
+          { status: 400 }
+        );
+      }
+    }
+
     // Validate that the config exists
     const config = await prisma.config.findUnique({
       where: { id: configId },
@@ -34,33 +70,46 @@ export async function GET(
       );
     }
 
-    // Get comments with pagination
-    const [comments, total] = await Promise.all([
-      prisma.comment.findMany({
-        where: { configId },
-        include: {
-          user: {
-            select: {
-              id: true,
-              name: true,
-              image: true,
-              username: true,
-            },
-          },
-          _count: {
-            select: {
-              votes: true,
-            },
-          },
+    // Get top-level comments with either cursor or page pagination
+    const where: Prisma.CommentWhereInput = { configId, parentId: null };
+    let roots;
+    let paginationInfo;
+
+    if (cursor !== undefined) {
+      const rows = await prisma.comment.findMany({
+        where: cursorValues
+          ? { AND: [where, cursorWhere(COMMENT_SORT_FIELDS, cursorValues) as Prisma.CommentWhereInput] }
+          : where,
+        include: commentInclude,
+        orderBy: cursorOrderBy(COMMENT_SORT_FIELDS) as Prisma.CommentOrderByWithRelationInput[],
+        take: limit + 1,
+      });
+      const { items, pageInfo } = toCursorPage(rows, limit, "newest", COMMENT_SORT_FIELDS);
+      roots = items;
+      paginationInfo = { pageInfo };
+    } else {
+      const [pageComments, total] = await Promise.all([
+        prisma.comment.findMany({
+          where,
+          include: commentInclude,
+          orderBy: cursorOrderBy(COMMENT_SORT_FIELDS) as Prisma.CommentOrderByWithRelationInput[],
+          skip,
+          take: limit,
+        }),
+        prisma.comment.count({ where }),
+      ]);
+      roots = pageComments;
+      paginationInfo = {
+        pagination: {
+          total,
+          pages: Math.ceil(total / limit),
+          page,
+          limit,
         },
-        orderBy: { createdAt: "desc" },
-        skip,
-        take: limit,
-      }),
-      prisma.comment.count({
-        where: { configId },
-      }),
-    ]);
+      };
+    }
+
+    const { threads: comments, commentIds } = await loadCommentThreads(roots);
 
     // Get the vote status for each comment if user is authenticated
     const session = await auth.api.getSession({
@@ -73,7 +122,7 @@ export async function GET(
         where: {
           userId: session.user.id,
           commentId: {
-            in: comments.map((comment) => comment.id),
+            in: commentIds,
           },
         },
         select: {
@@ -93,12 +142,7 @@ export async function GET(
 
     return NextResponse.json({
       comments,
-      pagination: {
-        total,
-        pages: Math.ceil(total / limit),
-        page,
-        limit,
-      },
+      ...paginationInfo,
       userVotes: commentVotes,
     });
   } catch (error) {
@@ -113,6 +157,7 @@ export async function GET(
 /**
  * POST handler for creating a new comment on a config
  * Requires authentication and validates input
+ * Pass parentId to reply to an existing comment on the same config
  * 
  * @param request - The incoming request object with comment content
  * @param params - Route parameters including the config id
@@ -143,6 +188,14 @@ export async function POST(
       );
     }
 
+    // Unverified accounts can browse but not post
+    if (!session.user.emailVerified) {
+      return NextResponse.json(
+        { error: "Please verify your email address before posting" },
+        { status: 403 }
+      );
+    }
+
     const configId = params.id;
     const body = await request.json();
     
@@ -155,7 +208,7 @@ export async function POST(
       );
     }
     
-    const { content } = validationResult.data;
+    const { content, parentId } = validationResult.data;
 
     // Validate that the config exists
     const config = await prisma.config.findUnique({
@@ -169,24 +222,21 @@ export async function POST(
       );
     }
 
-    // Create the comment
-    const comment = await prisma.comment.create({
-      data: {
-        content: content.trim(),
-        userId: session.user.id,
-        configId,
-      },
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            image: true,
-            username: true,
-          },
-        },
-      },
-    });
+    // Create the comment or reply
+    let comment;
+    try {
+      comment = await createComment(session.user.id, configId, content, parentId);
+    } catch (error) {
+      if (error instanceof Error && error.message === "Parent comment not found") {
+        return NextResponse.json(
+          { error: "Parent comment not found" },
+          { status: 404 }
+        );
+      }
+      throw error;
+    }
+
+    await notifyCommentCreated(comment);
 
     return NextResponse.json(comment, { status: 201 });
   } catch (error) {
@@ -0,0 +1,83 @@
+/**
+ * API Route for exporting a configuration as a GameHub settings file
+ * GET /api/configs/[id]/export?format=json|ini
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { Role } from "@prisma/client";
+import { canReadConfig } from "@/lib/permissions";
+import { getConfig } from "@/lib/services/config-service";
+import { slugify } from "@/lib/utils";
+import {
+  EXPORT_FORMATS,
+  buildSettingsDocument,
+  serializeSettingsIni,
+  type ExportFormat,
+} from "@/lib/config-export";
+
+/**
+ * GET handler returning the config as a downloadable settings document
+ * Public access allowed for non-hidden configs
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const format = (searchParams.get("format") || "json") as ExportFormat;
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `Invalid format. Must be one of: ${EXPORT_FORMATS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const config = await getConfig(params.id);
+
+    if (!config) {
+      return NextResponse.json(
+        { error: "Configuration not found" },
+        { status: 404 }
+      );
+    }
+
+    // Hidden configs follow the same visibility rules as the config itself
+    if (config.isHidden) {
+      const session = await auth.api.getSession({
+        headers: request.headers,
+      });
+      const userRole = session?.user?.role as Role | null;
+
+      if (!canReadConfig(userRole, config.isHidden, config.userId, session?.user?.id)) {
+        return NextResponse.json(
+          { error: "Configuration not found" },
+          { status: 404 }
+        );
+      }
+    }
+
+    const document = buildSettingsDocument(config);
+    const fileName = `${slugify(config.game.name)}-gamehub-settings.${format}`;
+
+    const body = format === "ini"
+      ? serializeSettingsIni(document)
+      : JSON.stringify(document, null, 2);
+
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        "Content-Type": format === "ini" ? "text/plain; charset=utf-8" : "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting config:", error);
+    return NextResponse.json(
+      { error: "Failed to export configuration" },
+      { status: 500 }
+    );
+  }
+}
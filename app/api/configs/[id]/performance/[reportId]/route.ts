@@ -0,0 +1,65 @@
+/**
+ * API Route for a single performance report
+ * DELETE /api/configs/[id]/performance/[reportId]
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { deletePerformanceReport } from "@/lib/services/performance-report-service";
+
+interface RouteParams {
+  params: {
+    id: string;
+    reportId: string;
+  };
+}
+
+/**
+ * DELETE handler for a performance report
+ * Only the report author or admins/moderators can delete it
+ *
+ * @param request - The incoming request object
+ * @param params - Route parameters including the config and report ids
+ * @returns NextResponse with success message or error
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const canModerate = session.user.role === "ADMIN" || session.user.role === "MODERATOR";
+    await deletePerformanceReport(params.id, params.reportId, session.user.id, canModerate);
+
+    return NextResponse.json(
+      { message: "Performance report deleted successfully" },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    if (error.message === "Performance report not found") {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error.message === "Unauthorized") {
+      return NextResponse.json(
+        { error: "You are not authorized to delete this performance report" },
+        { status: 403 }
+      );
+    }
+
+    console.error("Error deleting performance report:", error);
+    return NextResponse.json(
+      { error: "Failed to delete performance report" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * API Route for a config's performance reports
+ * GET /api/configs/[id]/performance
+ * POST /api/configs/[id]/performance
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { parsePaginationParams } from "@/lib/pagination";
+import { performanceReportSchema } from "@/lib/validations/config";
+import {
+  getPerformanceReports,
+  getPerformanceSummary,
+  savePerformanceReport,
+} from "@/lib/services/performance-report-service";
+
+/**
+ * GET handler for a config's performance reports
+ * Returns a page of reports, newest first, and the summary over all reports
+ *
+ * @param request - The incoming request object
+ * @param params - Route parameters including the config id
+ * @returns NextResponse with the reports and summary or error
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const pagination = parsePaginationParams(searchParams, 10);
+    if (!pagination.success) {
+      return NextResponse.json(
+        { error: "Invalid pagination parameters", details: pagination.error.format() },
+        { status: 400 }
+      );
+    }
+    const { page, limit } = pagination.data;
+
+    const config = await prisma.config.findUnique({
+      where: { id: params.id },
+      select: { isHidden: true },
+    });
+
+    if (!config || config.isHidden) {
+      return NextResponse.json(
+        { error: "Configuration not found" },
+        { status: 404 }
+      );
+    }
+
+    const [reports, summary] = await Promise.all([
+      getPerformanceReports(params.id, page, limit),
+      getPerformanceSummary(params.id),
+    ]);
+
+    return NextResponse.json({
+      reports: reports.items,
+      pagination: reports.pagination,
+      summary,
+    });
+  } catch (error) {
+    console.error("Error fetching performance reports:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch performance reports" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST handler for reporting how a config performs
+ * Reporting the same config version again replaces the user's earlier report
+ *
+ * @param request - The incoming request object with the report
+ * @param params - Route parameters including the config id
+ * @returns NextResponse with the saved report or error
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    // Check if user is authenticated
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    // Check if user is suspended
+    if (session.user.suspendedUntil && new Date(session.user.suspendedUntil) > new Date()) {
+      return NextResponse.json(
+        { error: "Your account is currently suspended" },
+        { status: 403 }
+      );
+    }
+
+    // Unverified accounts can browse but not post
+    if (!session.user.emailVerified) {
+      return NextResponse.json(
+        { error: "Please verify your email address before posting" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validationResult = performanceReportSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Invalid performance report", issues: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const report = await savePerformanceReport(params.id, session.user.id, validationResult.data);
+
+    return NextResponse.json(report, { status: 201 });
+  } catch (error: any) {
+    if (error.message === "Configuration not found") {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error.message === "Version not found") {
+      return NextResponse.json(
+        { error: "This configuration has no such version" },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error saving performance report:", error);
+    return NextResponse.json(
+      { error: "Failed to save performance report" },
+      { status: 500 }
+    );
+  }
+}
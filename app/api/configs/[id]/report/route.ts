@@ -0,0 +1,91 @@
+/**
+ * API Route for reporting a configuration
+ * POST /api/configs/[id]/report
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { createReport } from "@/lib/services/report-service";
+import { reportSchema } from "@/lib/validations/config";
+
+/**
+ * POST handler to report a configuration to moderators
+ * 
+ * @param request - The incoming request with the report reason
+ * @param params - Route parameters containing config ID
+ * @returns API response with the created report
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    // Check if user is authenticated
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    // Check if user is suspended
+    if (session.user.suspendedUntil && new Date(session.user.suspendedUntil) > new Date()) {
+      return NextResponse.json(
+        { error: "Your account is currently suspended" },
+        { status: 403 }
+      );
+    }
+
+    const { id: configId } = params;
+    const body = await request.json();
+
+    // Validate input using the shared schema
+    const validationResult = reportSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Invalid report data", issues: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    // Check if the config exists
+    const config = await prisma.config.findUnique({
+      where: { id: configId },
+      select: { id: true },
+    });
+
+    if (!config) {
+      return NextResponse.json(
+        { error: "Configuration not found" },
+        { status: 404 }
+      );
+    }
+
+    const report = await createReport(
+      session.user.id,
+      { configId },
+      validationResult.data.reason
+    );
+
+    return NextResponse.json(report, { status: 201 });
+  } catch (error: any) {
+    console.error("Error reporting config:", error);
+
+    if (error.message === "You have already reported this content") {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to report configuration" },
+      { status: 500 }
+    );
+  }
+}
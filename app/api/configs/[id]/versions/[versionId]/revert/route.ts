@@ -8,6 +8,7 @@ import { auth } from "@/lib/auth";
 import { Role } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
 import { revertConfigToVersion } from "@/lib/services/config-service";
+import { notifyConfigReverted } from "@/lib/services/notification-service";
 
 /**
  * POST handler to revert a configuration to a previous version
@@ -82,6 +83,9 @@ export async function POST(
       );
     }
 
+    // Let the author know when a moderator reverted their config
+    await notifyConfigReverted(id, session.user.id);
+
     return NextResponse.json({
       message: "Configuration reverted successfully",
       config: revertedConfig,
@@ -0,0 +1,79 @@
+/**
+ * API Route for comparing two versions of a configuration
+ * GET /api/configs/[id]/versions/diff?from=<versionId>&to=<versionId>
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { Role } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { canReadConfig } from "@/lib/permissions";
+import { getConfigVersionDiff } from "@/lib/services/config-service";
+
+/**
+ * GET handler returning a field-by-field diff between two config versions
+ * Public access allowed for non-hidden configs
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get("from");
+    const to = searchParams.get("to");
+
+    if (!from || !to) {
+      return NextResponse.json(
+        { error: "Both 'from' and 'to' version IDs are required" },
+        { status: 400 }
+      );
+    }
+
+    const config = await prisma.config.findUnique({
+      where: { id },
+      select: { id: true, userId: true, isHidden: true },
+    });
+
+    if (!config) {
+      return NextResponse.json(
+        { error: "Configuration not found" },
+        { status: 404 }
+      );
+    }
+
+    // Hidden configs follow the same visibility rules as the config itself
+    if (config.isHidden) {
+      const session = await auth.api.getSession({
+        headers: request.headers,
+      });
+      const userRole = session?.user?.role as Role | null;
+
+      if (!canReadConfig(userRole, config.isHidden, config.userId, session?.user?.id)) {
+        return NextResponse.json(
+          { error: "Configuration not found" },
+          { status: 404 }
+        );
+      }
+    }
+
+    const diff = await getConfigVersionDiff(id, from, to);
+
+    return NextResponse.json(diff);
+  } catch (error: any) {
+    console.error("Error comparing config versions:", error);
+
+    if (error.message === "Version not found") {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to compare configuration versions" },
+      { status: 500 }
+    );
+  }
+}
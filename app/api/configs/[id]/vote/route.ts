@@ -7,6 +7,8 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { voteSchema } from "@/lib/validations/config";
+import { updateConfigScores } from "@/lib/services/config-service";
+import { notifyUpvote } from "@/lib/services/notification-service";
 
 /**
  * POST handler to cast or update a vote on a configuration
@@ -202,9 +204,19 @@ export async function POST(
         };
       }
 
+      // Keep the stored ranking scores in sync with the new counts
+      if (updatedConfig.upvotes !== config.upvotes || updatedConfig.downvotes !== config.downvotes) {
+        await updateConfigScores(tx, configId);
+      }
+
       return updatedConfig;
     });
 
+    // Let the author know about new upvotes
+    if (value === 1 && existingVote?.value !== 1) {
+      await notifyUpvote({ configId }, userId);
+    }
+
     return NextResponse.json({
       message: "Vote processed successfully",
       config: transactionResult,
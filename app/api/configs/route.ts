@@ -5,30 +5,72 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
-import { getConfigs } from "@/lib/services/config-service";
+import { DirectXHubType, AudioDriverType, GraphicsApi, GpuFamily } from "@prisma/client";
+import { getConfigs, type ConfigFacetFilters } from "@/lib/services/config-service";
 import { createConfig, getConfigsByGame, getConfigsByUser } from "@/lib/services/config-service";
 import { createConfigSchema } from "@/lib/validations/config";
+import { CONFIG_FACETS } from "@/lib/constants/config-presets";
+import { parsePaginationParams } from "@/lib/pagination";
+
+// Allowed values for enum facets, other facets accept any value
+const ENUM_FACET_VALUES: Partial<Record<string, string[]>> = {
+  directxHub: Object.values(DirectXHubType),
+  audioDriver: Object.values(AudioDriverType),
+  graphicsApi: Object.values(GraphicsApi),
+  gpuFamily: Object.values(GpuFamily),
+};
 
 /**
  * GET /api/configs
  * Get configurations with optional filters
+ * Facet filters are comma separated values per field, e.g. ?dxvkVersion=dxvk-2.6.1-async&gamehubVersion=5.x
+ * Pass ?cursor= (empty for the first page) to use cursor pagination instead of page/limit
  * Public access allowed for game-specific configs
  */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const page = parseInt(searchParams.get("page") || "1");
-    const limit = parseInt(searchParams.get("limit") || "20");
-    const sort = searchParams.get("sort") || 'popular';
+    const pagination = parsePaginationParams(searchParams);
+    if (!pagination.success) {
+      return NextResponse.json(
+        { error: "Invalid pagination parameters", details: pagination.error.format() },
+        { status: 400 }
+      );
+    }
+    const { page, limit, cursor } = pagination.data;
+    const sort = searchParams.get("sort") || 'best';
     const tagsQuery = searchParams.get("tags");
     const tags = tagsQuery ? tagsQuery.split(',') : [];
     const query = searchParams.get("q") || undefined;
 
-    const result = await getConfigs(page, limit, sort, tags, query);
+    const filters: ConfigFacetFilters = {};
+    for (const { field, label } of CONFIG_FACETS) {
+      const values = searchParams.get(field)?.split(",").map((value) => value.trim()).filter(Boolean);
+      if (!values || values.length === 0) continue;
+
+      const allowed = ENUM_FACET_VALUES[field];
+      if (allowed && values.some((value) => !allowed.includes(value))) {
+        return NextResponse.json(
+          { error: `Invalid ${label}. Must be one of: ${allowed.join(", ")}` },
+          { status: 400 }
+        );
+      }
+
+      filters[field] = values;
+    }
+
+    const result = await getConfigs(page, limit, sort, tags, query, filters, cursor);
 
     return NextResponse.json(result);
 
-  } catch (error) {
+  } catch (error: any) {
+    if (error.message === "Invalid cursor" || error.message === "Cursor pagination is not available for relevance sorting") {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
     console.error("Error fetching configs:", error);
     return NextResponse.json(
       { error: "Failed to fetch configurations" },
@@ -63,6 +105,14 @@ export async function POST(request: NextRequest) {
         { status: 403 }
       );
     }
+
+    // Unverified accounts can browse but not post
+    if (!session.user.emailVerified) {
+      return NextResponse.json(
+        { error: "Please verify your email address before posting" },
+        { status: 403 }
+      );
+    }
     
     // Parse and validate request body
     const body = await request.json();
@@ -95,6 +145,13 @@ export async function POST(request: NextRequest) {
       );
     }
     
+    if (error.message === "Game is awaiting moderator approval" || error.message === "Game was rejected by a moderator") {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
     if (error.message === "Game or user not found") {
       return NextResponse.json(
         { error: error.message },
@@ -0,0 +1,51 @@
+/**
+ * API Route for unsubscribing from activity digests
+ * GET /api/email/unsubscribe?token=...
+ * POST /api/email/unsubscribe?token=...
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { unsubscribeByToken } from "@/lib/services/email-digest-service";
+
+/**
+ * GET handler for the unsubscribe link in digest emails
+ * Only redirects to a page asking for confirmation: link scanners and prefetchers follow
+ * GET links, so they must not change anything
+ *
+ * @param request - The incoming request object with the token
+ * @returns Redirect to /unsubscribe
+ */
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get("token");
+  const url = new URL("/unsubscribe", request.url);
+  if (token) url.searchParams.set("token", token);
+  return NextResponse.redirect(url);
+}
+
+/**
+ * POST handler for one-click unsubscribe from mail clients (RFC 8058)
+ * and the confirmation page
+ *
+ * @param request - The incoming request object with the token
+ * @returns NextResponse with success message or error
+ */
+export async function POST(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get("token");
+
+  try {
+    if (!token || !(await unsubscribeByToken(token))) {
+      return NextResponse.json(
+        { error: "Invalid unsubscribe token" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message: "Unsubscribed from digests" });
+  } catch (error) {
+    console.error("Error unsubscribing:", error);
+    return NextResponse.json(
+      { error: "Failed to unsubscribe" },
+      { status: 500 }
+    );
+  }
+}
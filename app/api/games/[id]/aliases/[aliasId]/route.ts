@@ -0,0 +1,63 @@
+/**
+ * API route for a single game alias
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { hasPermission } from "@/lib/permissions";
+import { removeGameAlias } from "@/lib/services/game-service";
+
+interface RouteParams {
+  params: {
+    id: string;
+    aliasId: string;
+  };
+}
+
+/**
+ * DELETE /api/games/[id]/aliases/[aliasId]
+ * Remove an alias from a game
+ * Requires admin or moderator permissions
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    // Verify authentication and permissions
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    if (!hasPermission(session.user.role, { game: ["update"] })) {
+      return NextResponse.json(
+        { error: "Forbidden: Insufficient permissions" },
+        { status: 403 }
+      );
+    }
+
+    await removeGameAlias(params.id, params.aliasId, session.user.id);
+
+    return NextResponse.json(
+      { message: "Alias removed successfully" },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error("Error removing game alias:", error);
+
+    if (error.message === "Alias not found") {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to remove game alias" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * API route for a game's aliases
+ * Aliases are other names and store IDs that resolve to the game
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { hasPermission } from "@/lib/permissions";
+import { addGameAlias, getGameAliases } from "@/lib/services/game-service";
+import { gameAliasSchema } from "@/lib/validations/config";
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+/**
+ * GET /api/games/[id]/aliases
+ * List a game's aliases
+ * Public access allowed - no authentication required
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const aliases = await getGameAliases(params.id);
+    return NextResponse.json(aliases);
+  } catch (error) {
+    console.error("Error fetching game aliases:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch game aliases" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/games/[id]/aliases
+ * Add an alias to a game
+ * Requires admin or moderator permissions
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    // Verify authentication and permissions
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    if (!hasPermission(session.user.role, { game: ["update"] })) {
+      return NextResponse.json(
+        { error: "Forbidden: Insufficient permissions" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validationResult = gameAliasSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Invalid alias", details: validationResult.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const alias = await addGameAlias(params.id, validationResult.data, session.user.id);
+
+    return NextResponse.json(alias, { status: 201 });
+  } catch (error: any) {
+    console.error("Error adding game alias:", error);
+
+    if (error.message === "Game not found") {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error.message === "Store ID is already in use") {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to add game alias" },
+      { status: 500 }
+    );
+  }
+}
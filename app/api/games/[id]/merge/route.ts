@@ -0,0 +1,91 @@
+/**
+ * API route for merging duplicate games
+ * Moves a game's configs and aliases into another game and deletes it
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { hasPermission } from "@/lib/permissions";
+import { findMergeConflicts, mergeGames } from "@/lib/services/game-service";
+import { gameMergeSchema } from "@/lib/validations/config";
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+/**
+ * POST /api/games/[id]/merge
+ * Merge this game into the game given as `targetId`
+ * Requires admin permissions, since conflicting configs may be deleted
+ * Responds 409 with the conflicting configs when users have a config for both games,
+ * unless `keepBestOnConflict` is set
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  let targetId: string | undefined;
+
+  try {
+    // Verify authentication and permissions
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // Merging deletes the source game, so it needs the same permission as deleting one
+    if (!hasPermission(session.user.role, { game: ["delete"] })) {
+      return NextResponse.json(
+        { error: "Forbidden: Admin permissions required" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validationResult = gameMergeSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Invalid merge request", details: validationResult.error.errors },
+        { status: 400 }
+      );
+    }
+
+    targetId = validationResult.data.targetId;
+    const result = await mergeGames(params.id, targetId, session.user.id, validationResult.data.keepBestOnConflict);
+
+    return NextResponse.json(result);
+  } catch (error: any) {
+    console.error("Error merging games:", error);
+
+    if (error.message === "Game not found") {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (
+      error.message === "Cannot merge a game into itself" ||
+      error.message === "Games can only be merged into an approved game"
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    if (error.message === "Games have conflicting configs" && targetId) {
+      const conflicts = await findMergeConflicts(params.id, targetId).catch(() => []);
+      return NextResponse.json(
+        { error: "Some users have configs for both games", conflicts },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to merge games" },
+      { status: 500 }
+    );
+  }
+}
@@ -6,7 +6,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { auth } from "@/lib/auth";
-import { Role } from "@prisma/client";
+import { GameStatus, Role } from "@prisma/client";
+import { hasPermission } from "@/lib/permissions";
+import { getGameCompatibilitySummary } from "@/lib/services/game-summary-service";
+import { parseHardwareFilter } from "@/lib/services/device-service";
 
 interface RouteParams {
   params: {
@@ -16,8 +19,10 @@ interface RouteParams {
 
 /**
  * GET /api/games/[id]
- * Get a specific game by ID
+ * Get a specific game by ID with the compatibility summary of its configs
+ * ?soc= and ?gpuFamily= limit the summary to configs tested on matching hardware
  * Public access allowed - no authentication required
+ * Games awaiting review (or rejected) are only shown to their submitter and moderators
  */
 export async function GET(
   request: NextRequest,
@@ -26,7 +31,7 @@ export async function GET(
   try {
     const { id } = params;
     
-    const game = await prisma.game.findUnique({
+    let game = await prisma.game.findUnique({
       where: { id },
       include: {
         _count: {
@@ -37,6 +42,19 @@ export async function GET(
       }
     });
     
+    if (game && game.status !== GameStatus.APPROVED) {
+      const session = await auth.api.getSession({
+        headers: request.headers,
+      });
+      const canSee = session?.user && (
+        session.user.id === game.submittedById ||
+        hasPermission(session.user.role, { game: ["update"] })
+      );
+      if (!canSee) {
+        game = null;
+      }
+    }
+
     if (!game) {
       return NextResponse.json(
         { error: "Game not found" },
@@ -44,9 +62,15 @@ export async function GET(
       );
     }
     
+    const summary = await getGameCompatibilitySummary(
+      game.id,
+      parseHardwareFilter(request.nextUrl.searchParams)
+    );
+
     return NextResponse.json({
       ...game,
-      configCount: game._count.configs
+      configCount: game._count.configs,
+      summary
     });
   } catch (error) {
     console.error("Error fetching game:", error);
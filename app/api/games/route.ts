@@ -4,31 +4,60 @@
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { getOrCreateGame, getAllGames, searchGames } from "@/lib/services/game-service";
+import { getOrCreateGame, getAllGames, searchGames, submitGame } from "@/lib/services/game-service";
 import { auth } from "@/lib/auth";
-import { Role } from "@prisma/client";
+import { GraphicsApi, Role } from "@prisma/client";
+import { parsePaginationParams } from "@/lib/pagination";
+import { GAME_LOOKUP_UNAVAILABLE } from "@/lib/game-metadata";
+import { hasPermission } from "@/lib/permissions";
+import { isImageError } from "@/lib/image-processing";
+import { gameSubmissionSchema } from "@/lib/validations/config";
 
 /**
  * GET /api/games
  * Get all games or search games by name
+ * Pass ?cursor= (empty for the first page) to page through all games with a cursor
+ * Pass ?graphicsApi=DIRECTX_12,VULKAN to only list games requiring any of those APIs
  */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const page = parseInt(searchParams.get("page") || "1");
-    const limit = parseInt(searchParams.get("limit") || "20");
+    const pagination = parsePaginationParams(searchParams);
+    if (!pagination.success) {
+      return NextResponse.json(
+        { error: "Invalid pagination parameters", details: pagination.error.format() },
+        { status: 400 }
+      );
+    }
+    const { page, limit, cursor } = pagination.data;
     const query = searchParams.get("query");
+
+    const graphicsApis = searchParams.get("graphicsApi")?.split(",").filter(Boolean) ?? [];
+    const validApis = Object.values(GraphicsApi) as string[];
+    if (graphicsApis.some((api) => !validApis.includes(api))) {
+      return NextResponse.json(
+        { error: `Invalid graphicsApi, use one of ${validApis.join(", ")}` },
+        { status: 400 }
+      );
+    }
     
     // If query is provided, search games by name
     if (query) {
-      const result = await searchGames(query, page, limit);
+      const result = await searchGames(query, page, limit, graphicsApis as GraphicsApi[]);
       return NextResponse.json(result);
     }
     
     // Otherwise, get all games
-    const result = await getAllGames(page, limit);
+    const result = await getAllGames(page, limit, cursor, graphicsApis as GraphicsApi[]);
     return NextResponse.json(result);
-  } catch (error) {
+  } catch (error: any) {
+    if (error.message === "Invalid cursor") {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
     console.error("Error fetching games:", error);
     return NextResponse.json(
       { error: "Failed to fetch games" },
@@ -39,8 +68,10 @@ export async function GET(request: NextRequest) {
 
 /**
  * POST /api/games
- * Create a new game by Steam App ID
- * Requires authentication and appropriate permissions
+ * Create a new game by Steam App ID ({ steamId }), or submit a game that is not on Steam
+ * ({ source, externalId, name, coverImage })
+ * Steam games can only be created directly by admins and moderators. Any verified user can
+ * submit other games, which wait for a moderator unless a moderator submitted them
  */
 export async function POST(request: NextRequest) {
   try {
@@ -55,6 +86,45 @@ export async function POST(request: NextRequest) {
       );
     }
     
+    // Parse request body
+    const body = await request.json();
+
+    // Games that are not on Steam are submitted for review
+    if (!body.steamId) {
+      // Check if user is suspended
+      if (session.user.suspendedUntil && new Date(session.user.suspendedUntil) > new Date()) {
+        return NextResponse.json(
+          { error: "Your account is currently suspended" },
+          { status: 403 }
+        );
+      }
+
+      // Unverified accounts can browse but not post
+      if (!session.user.emailVerified) {
+        return NextResponse.json(
+          { error: "Please verify your email address before posting" },
+          { status: 403 }
+        );
+      }
+
+      const validationResult = gameSubmissionSchema.safeParse(body);
+      if (!validationResult.success) {
+        return NextResponse.json(
+          { error: "Invalid game data", details: validationResult.error.format() },
+          { status: 400 }
+        );
+      }
+
+      // Moderators' own submissions skip the review queue
+      const game = await submitGame(
+        validationResult.data,
+        session.user.id,
+        hasPermission(session.user.role, { game: ["update"] })
+      );
+
+      return NextResponse.json(game, { status: 201 });
+    }
+    
     // Check if user has permission to create games
     // Only admins and moderators can create games directly
     if (session.user.role !== Role.ADMIN && session.user.role !== Role.MODERATOR) {
@@ -64,18 +134,8 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    // Parse request body
-    const { steamId } = await request.json();
-    
-    if (!steamId) {
-      return NextResponse.json(
-        { error: "Steam App ID is required" },
-        { status: 400 }
-      );
-    }
-    
     // Get or create game
-    const game = await getOrCreateGame(steamId);
+    const game = await getOrCreateGame(String(body.steamId));
     
     if (!game) {
       return NextResponse.json(
@@ -85,7 +145,28 @@ export async function POST(request: NextRequest) {
     }
     
     return NextResponse.json(game);
-  } catch (error) {
+  } catch (error: any) {
+    if (error.message === GAME_LOOKUP_UNAVAILABLE) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 503, headers: { "Retry-After": "60" } }
+      );
+    }
+
+    if (error.message === "Game already exists") {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    if (isImageError(error)) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
     console.error("Error creating game:", error);
     return NextResponse.json(
       { error: "Failed to create game" },
@@ -4,7 +4,7 @@
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { getGameInfo } from "@/lib/steam";
+import { GAME_LOOKUP_UNAVAILABLE, lookupGameInfo } from "@/lib/game-metadata";
 import { getOrCreateGame } from "@/lib/services/game-service";
 import { auth } from "@/lib/auth";
 
@@ -52,11 +52,12 @@ export async function GET(
         );
       }
       
-      return NextResponse.json(game);
+      // steamId is kept so clients written before non-Steam games keep working
+      return NextResponse.json({ ...game, steamId: game.externalId });
     }
     
     // Otherwise just fetch from Steam without caching
-    const gameInfo = await getGameInfo(appId);
+    const gameInfo = await lookupGameInfo(appId);
     
     if (!gameInfo) {
       return NextResponse.json(
@@ -66,7 +67,14 @@ export async function GET(
     }
     
     return NextResponse.json(gameInfo);
-  } catch (error) {
+  } catch (error: any) {
+    if (error.message === GAME_LOOKUP_UNAVAILABLE) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 503, headers: { "Retry-After": "60" } }
+      );
+    }
+
     console.error("Error fetching Steam game data:", error);
     return NextResponse.json(
       { error: "Failed to fetch game data from Steam" },
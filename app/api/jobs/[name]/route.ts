@@ -0,0 +1,75 @@
+/**
+ * API Route for triggering a background job
+ * POST /api/jobs/[name]
+ *
+ * Authorized with `Authorization: Bearer <JOBS_SECRET>` or an admin session
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { timingSafeEqual } from "crypto";
+import { Role } from "@prisma/client";
+import { auth } from "@/lib/auth";
+import { isJobName, runJob } from "@/lib/jobs";
+
+/**
+ * Whether the request carries the configured jobs secret
+ */
+function hasJobsSecret(request: NextRequest): boolean {
+  const secret = process.env.JOBS_SECRET;
+  const header = request.headers.get("authorization");
+  if (!secret || !header?.startsWith("Bearer ")) return false;
+
+  const given = Buffer.from(header.slice("Bearer ".length));
+  const expected = Buffer.from(secret);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * POST handler to run a job immediately
+ *
+ * @param request - The incoming request object
+ * @param params - Route parameters including the job name
+ * @returns NextResponse with the job result or error
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { name: string } }
+) {
+  try {
+    if (!hasJobsSecret(request)) {
+      const session = await auth.api.getSession({
+        headers: request.headers,
+      });
+
+      if (!session?.user || session.user.role !== Role.ADMIN) {
+        return NextResponse.json(
+          { error: "Unauthorized" },
+          { status: 401 }
+        );
+      }
+    }
+
+    if (!isJobName(params.name)) {
+      return NextResponse.json(
+        { error: "Job not found" },
+        { status: 404 }
+      );
+    }
+
+    const result = await runJob(params.name);
+    if (result === null) {
+      return NextResponse.json(
+        { error: "Job is already running" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ job: params.name, result: result ?? null });
+  } catch (error) {
+    console.error("Error running job:", error);
+    return NextResponse.json(
+      { error: "Failed to run job" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * API Route for the signed-in user's notifications
+ * GET /api/notifications
+ * PATCH /api/notifications
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { parsePaginationParams } from "@/lib/pagination";
+import { notificationReadSchema } from "@/lib/validations/config";
+import { getNotifications, markNotificationsRead } from "@/lib/services/notification-service";
+
+/**
+ * GET handler for listing notifications, newest first
+ * Always cursor paginated, pass ?unread=true to only list unread notifications
+ *
+ * @param request - The incoming request object
+ * @returns NextResponse with notifications, page info and the unread count
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const pagination = parsePaginationParams(searchParams, 20);
+    if (!pagination.success) {
+      return NextResponse.json(
+        { error: "Invalid pagination parameters", details: pagination.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { limit, cursor } = pagination.data;
+    const unreadOnly = searchParams.get("unread") === "true";
+
+    const result = await getNotifications(session.user.id, limit, cursor, unreadOnly);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof Error && error.message === "Invalid cursor") {
+      return NextResponse.json(
+        { error: "Invalid cursor" },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error fetching notifications:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch notifications" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH handler for marking notifications as read
+ * Body is either { ids: string[] } or { all: true }
+ *
+ * @param request - The incoming request object
+ * @returns NextResponse with the number of updated notifications
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validationResult = notificationReadSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const data = validationResult.data;
+    const updated = await markNotificationsRead(session.user.id, "ids" in data ? data.ids : "all");
+
+    return NextResponse.json({ updated });
+  } catch (error) {
+    console.error("Error updating notifications:", error);
+    return NextResponse.json(
+      { error: "Failed to update notifications" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * API Route for serving files from local storage
+ * GET /api/storage/[...key]
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { contentTypeForKey, getStorageProvider } from "@/lib/storage";
+import { LocalStorageProvider } from "@/lib/storage-providers/local";
+
+/**
+ * GET handler for a stored file
+ * Only used with the local provider, other providers serve files from their own URLs
+ *
+ * @param request - The incoming request object
+ * @param params - Route parameters with the key segments
+ * @returns The file contents or a 404 error
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { key: string[] } }
+) {
+  try {
+    const storage = getStorageProvider();
+    const key = params.key.join("/");
+
+    const data = storage instanceof LocalStorageProvider ? await storage.read(key) : null;
+    if (!data) {
+      return NextResponse.json(
+        { error: "File not found" },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(data, {
+      headers: {
+        "Content-Type": contentTypeForKey(key),
+        "Content-Length": String(data.length),
+        // Changed content is always stored under a new key, see StorageProvider.put
+        "Cache-Control": "public, max-age=31536000, immutable",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (error) {
+    console.error("Error serving stored file:", error);
+    return NextResponse.json(
+      { error: "Failed to read file" },
+      { status: 500 }
+    );
+  }
+}
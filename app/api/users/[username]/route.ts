@@ -86,7 +86,7 @@ export async function GET(
     
     // Fetch user's recent comments
     const comments = await prisma.comment.findMany({
-      where: { userId: user.id },
+      where: { userId: user.id, isDeleted: false },
       select: {
         id: true,
         content: true,
@@ -0,0 +1,95 @@
+/**
+ * API Route for one of the signed-in user's saved devices
+ * PATCH /api/users/devices/[id]
+ * DELETE /api/users/devices/[id]
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { savedDeviceSchema } from "@/lib/validations/config";
+import { deleteDevice, updateDevice } from "@/lib/services/device-service";
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+/**
+ * PATCH handler for updating a device
+ *
+ * @param request - The incoming request object with the device
+ * @returns NextResponse with the updated device or error
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validationResult = savedDeviceSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Invalid device", issues: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const device = await updateDevice(session.user.id, params.id, validationResult.data);
+
+    return NextResponse.json(device);
+  } catch (error: any) {
+    if (error.message === "Device not found") {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    console.error("Error updating device:", error);
+    return NextResponse.json(
+      { error: "Failed to update device" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE handler for removing a device
+ *
+ * @param request - The incoming request object
+ * @returns NextResponse confirming the deletion or error
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    await deleteDevice(session.user.id, params.id);
+
+    return NextResponse.json({ message: "Device removed successfully" });
+  } catch (error: any) {
+    if (error.message === "Device not found") {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    console.error("Error deleting device:", error);
+    return NextResponse.json(
+      { error: "Failed to delete device" },
+      { status: 500 }
+    );
+  }
+}
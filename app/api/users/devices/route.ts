@@ -0,0 +1,88 @@
+/**
+ * API Route for the signed-in user's saved devices
+ * GET /api/users/devices
+ * POST /api/users/devices
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { savedDeviceSchema } from "@/lib/validations/config";
+import { createDevice, getUserDevices, MAX_DEVICES_PER_USER } from "@/lib/services/device-service";
+
+/**
+ * GET handler for the user's devices
+ *
+ * @param request - The incoming request object
+ * @returns NextResponse with the devices or error
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const devices = await getUserDevices(session.user.id);
+
+    return NextResponse.json(devices);
+  } catch (error) {
+    console.error("Error fetching devices:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch devices" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST handler for saving a device
+ *
+ * @param request - The incoming request object with the device
+ * @returns NextResponse with the saved device or error
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validationResult = savedDeviceSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Invalid device", issues: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const device = await createDevice(session.user.id, validationResult.data);
+
+    return NextResponse.json(device, { status: 201 });
+  } catch (error: any) {
+    if (error.message === "Device limit reached") {
+      return NextResponse.json(
+        { error: `You can save up to ${MAX_DEVICES_PER_USER} devices` },
+        { status: 409 }
+      );
+    }
+
+    console.error("Error saving device:", error);
+    return NextResponse.json(
+      { error: "Failed to save device" },
+      { status: 500 }
+    );
+  }
+}
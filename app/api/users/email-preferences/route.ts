@@ -0,0 +1,81 @@
+/**
+ * API Route for the signed-in user's email preferences
+ * GET /api/users/email-preferences
+ * PATCH /api/users/email-preferences
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { emailPreferenceSchema } from "@/lib/validations/config";
+import { getEmailPreference, updateDigestFrequency } from "@/lib/services/email-digest-service";
+
+/**
+ * GET handler for the current digest frequency
+ *
+ * @param request - The incoming request object
+ * @returns NextResponse with the preference or error
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const preference = await getEmailPreference(session.user.id);
+
+    return NextResponse.json({ ...preference, hasEmail: Boolean(session.user.email) });
+  } catch (error) {
+    console.error("Error fetching email preferences:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch email preferences" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH handler for changing the digest frequency
+ *
+ * @param request - The incoming request object with the new frequency
+ * @returns NextResponse with the updated preference or error
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validationResult = emailPreferenceSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Invalid email preference", issues: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const preference = await updateDigestFrequency(session.user.id, validationResult.data.digestFrequency);
+
+    return NextResponse.json(preference);
+  } catch (error) {
+    console.error("Error updating email preferences:", error);
+    return NextResponse.json(
+      { error: "Failed to update email preferences" },
+      { status: 500 }
+    );
+  }
+}
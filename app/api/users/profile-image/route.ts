@@ -4,7 +4,8 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
-import { uploadProfileImageToGitHub } from "@/lib/profile-upload";
+import { uploadProfileImage } from "@/lib/profile-upload";
+import { isImageError } from "@/lib/image-processing";
 
 /**
  * POST handler for uploading a profile image
@@ -37,40 +38,32 @@ export async function POST(req: NextRequest): Promise<NextResponse> {
     
     // Parse the request body
     const body = await req.json();
-    const { imageData, fileExtension } = body;
+    const { imageData } = body;
     
-    // Validate the request data
-    if (!imageData) {
+    // Validate the request data, the image type is detected from its contents
+    if (!imageData || typeof imageData !== 'string') {
       return NextResponse.json(
         { error: "Image data is required" },
         { status: 400 }
       );
     }
     
-    if (!fileExtension || !['png', 'jpg', 'jpeg', 'gif', 'webp'].includes(fileExtension.toLowerCase())) {
-      return NextResponse.json(
-        { error: "Valid file extension is required (png, jpg, jpeg, gif, webp)" },
-        { status: 400 }
-      );
-    }
-    
-    // Upload the image to GitHub
-    const imageUrl = await uploadProfileImageToGitHub({
+    // Resize, convert and store the image
+    const imageUrl = await uploadProfileImage({
       imageData,
       userId: session.user.id,
-      fileExtension,
     });
     
-    if (!imageUrl) {
+    // Return the image URL
+    return NextResponse.json({ imageUrl });
+  } catch (error) {
+    if (isImageError(error)) {
       return NextResponse.json(
-        { error: "Failed to upload image" },
-        { status: 500 }
+        { error: error.message },
+        { status: 400 }
       );
     }
     
-    // Return the image URL
-    return NextResponse.json({ imageUrl });
-  } catch (error) {
     console.error("Error uploading profile image:", error);
     return NextResponse.json(
       { error: "An unexpected error occurred" },
@@ -0,0 +1,76 @@
+/**
+ * API Route for resending the email verification link
+ * POST /api/users/verification-email
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { checkRateLimit } from "@/lib/rate-limit";
+
+/**
+ * One email per minute and five per hour for each user
+ */
+const VERIFICATION_EMAIL_LIMITS = [
+  { limit: 1, windowMs: 60 * 1000 },
+  { limit: 5, windowMs: 60 * 60 * 1000 },
+];
+
+/**
+ * POST handler for sending a new verification link to the signed-in user
+ *
+ * @param request - The incoming request object
+ * @returns NextResponse confirming the email was sent or error
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    if (session.user.emailVerified) {
+      return NextResponse.json(
+        { error: "Your email address is already verified" },
+        { status: 400 }
+      );
+    }
+
+    if (!session.user.email) {
+      return NextResponse.json(
+        { error: "Add an email address to your account first" },
+        { status: 400 }
+      );
+    }
+
+    const rateLimit = checkRateLimit(`verification-email:${session.user.id}`, VERIFICATION_EMAIL_LIMITS);
+    if (!rateLimit.allowed) {
+      const retryAfter = Math.ceil(rateLimit.retryAfterMs / 1000);
+      return NextResponse.json(
+        { error: "Please wait before requesting another verification email", retryAfter },
+        { status: 429, headers: { "Retry-After": String(retryAfter) } }
+      );
+    }
+
+    await auth.api.sendVerificationEmail({
+      body: {
+        email: session.user.email,
+        callbackURL: "/email-verified",
+      },
+      headers: request.headers,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error sending verification email:", error);
+    return NextResponse.json(
+      { error: "Failed to send verification email" },
+      { status: 500 }
+    );
+  }
+}
@@ -6,7 +6,7 @@
 
 import Image from "next/image";
 import Link from "next/link";
-import { Loader2, Edit, Tag, History, MessageSquare, PlaySquare } from "lucide-react";
+import { Loader2, Edit, Tag, History, MessageSquare, PlaySquare, Download, Gauge } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import { Metadata, ResolvingMetadata } from "next";
 import { headers } from "next/headers";
@@ -17,11 +17,22 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Markdown } from "@/components/ui/markdown";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { VoteButtonsServer } from "@/components/configs/VoteButtonsServer";
 import { CommentListServer } from "@/components/comments/comment-list-server";
+import { PerformanceReportsServer } from "@/components/performance/performance-reports-server";
 import { ConfigVersionControls } from "@/components/configs/config-version-controls";
+import { ConfigVersionDiff } from "@/components/configs/config-version-diff";
+import { GameMetadata } from "@/components/games/game-metadata";
+import { GAME_SOURCES, GPU_FAMILIES } from "@/lib/constants/config-presets";
 
 // Types for our data
 type ConfigData = any; // Replace with proper type from your schema
@@ -229,9 +240,19 @@ export default async function ConfigDetailsPage({ params }: ConfigDetailsPagePro
           <div className="w-full md:w-[55%] lg:w-[60%] flex flex-col justify-start">
             <div className="flex flex-col">
               <div>
-                <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">{gameData.name}</h1>
-                <p className="text-sm sm:text-base text-muted-foreground">Steam ID: {gameData.steamId}</p>
+                <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">
+                  <Link href={`/games/${gameData.id}`} className="hover:underline">
+                    {gameData.name}
+                  </Link>
+                </h1>
+                <p className="text-sm sm:text-base text-muted-foreground">
+                  {GAME_SOURCES[gameData.source]?.idLabel
+                    ? `${GAME_SOURCES[gameData.source].idLabel}: ${gameData.externalId}`
+                    : GAME_SOURCES[gameData.source]?.label}
+                </p>
               </div>
+
+              <GameMetadata game={gameData} className="mt-3 sm:mt-4" />
               
               <div className="mt-3 sm:mt-4 flex flex-wrap gap-2">
                 {configData.tags && configData.tags.map((tag: string) => (
@@ -264,6 +285,28 @@ export default async function ConfigDetailsPage({ params }: ConfigDetailsPagePro
                   userId={session?.user?.id}
                 />
                 
+                {/* Export Settings Button */}
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" size="sm">
+                      <Download className="h-4 w-4 mr-2" />
+                      Download
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="start">
+                    <DropdownMenuItem asChild>
+                      <a href={`/api/configs/${id}/export?format=json`} download>
+                        Settings file (JSON)
+                      </a>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <a href={`/api/configs/${id}/export?format=ini`} download>
+                        Settings file (INI)
+                      </a>
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+                
                 {/* Edit Button (only for author) */}
                 {isAuthor && (
                   <Button
@@ -295,7 +338,7 @@ export default async function ConfigDetailsPage({ params }: ConfigDetailsPagePro
         {/* Config Content Tabs */}
         <Tabs defaultValue="details" className="mt-6 sm:mt-8">
           <div className="overflow-x-auto pb-2">
-            <TabsList className="grid min-w-[600px] sm:min-w-full grid-cols-6">
+            <TabsList className={`grid min-w-[700px] sm:min-w-full ${configData.videoUrl ? "grid-cols-7" : "grid-cols-6"}`}>
               <TabsTrigger value="details">Details</TabsTrigger>
               <TabsTrigger value="compatibility">Compatibility</TabsTrigger>
               <TabsTrigger value="components">Components</TabsTrigger>
@@ -303,6 +346,10 @@ export default async function ConfigDetailsPage({ params }: ConfigDetailsPagePro
                 <History className="h-3 w-3 sm:h-4 sm:w-4" />
                 <span className="whitespace-nowrap">Versions</span>
               </TabsTrigger>
+              <TabsTrigger value="performance" className="flex items-center gap-1 sm:gap-2">
+                <Gauge className="h-3 w-3 sm:h-4 sm:w-4" />
+                <span className="whitespace-nowrap">Performance</span>
+              </TabsTrigger>
               <TabsTrigger value="comments" className="flex items-center gap-1 sm:gap-2">
                 <MessageSquare className="h-3 w-3 sm:h-4 sm:w-4" />
                 <span className="whitespace-nowrap">Comments</span>
@@ -344,6 +391,21 @@ export default async function ConfigDetailsPage({ params }: ConfigDetailsPagePro
                     <p>{configData.details?.language || "Not specified"}</p>
                   </div>
                 </div>
+
+                {(configData.details?.deviceModel || configData.details?.soc) && (
+                  <div className="mt-3 sm:mt-4">
+                    <h4 className="text-sm font-medium text-muted-foreground mb-1">Tested On</h4>
+                    <p>
+                      {[
+                        configData.details.deviceModel,
+                        configData.details.soc,
+                        configData.details.gpuFamily && GPU_FAMILIES[configData.details.gpuFamily],
+                        configData.details.ramGb && `${configData.details.ramGb} GB RAM`,
+                        configData.details.androidVersion && `Android ${configData.details.androidVersion}`,
+                      ].filter(Boolean).join(" • ")}
+                    </p>
+                  </div>
+                )}
                 
                 {configData.details?.envVars && (
                   <div className="mt-3 sm:mt-4">
@@ -366,9 +428,10 @@ export default async function ConfigDetailsPage({ params }: ConfigDetailsPagePro
                 {configData.details?.notes && (
                   <div className="mt-3 sm:mt-4">
                     <h4 className="text-sm font-medium text-muted-foreground mb-1">Additional Notes</h4>
-                    <div className="bg-muted p-2 sm:p-3 rounded-md text-xs sm:text-sm overflow-x-auto whitespace-pre-wrap">
-                      {configData.details.notes}
-                    </div>
+                    <Markdown
+                      content={configData.details.notes}
+                      className="bg-muted/50 p-2 sm:p-3 rounded-md text-xs sm:text-sm overflow-x-auto"
+                    />
                   </div>
                 )}
               </CardContent>
@@ -500,6 +563,13 @@ export default async function ConfigDetailsPage({ params }: ConfigDetailsPagePro
                           </div>
                           
                           <div className="flex items-center gap-2 mt-2 sm:mt-0">
+                            {index !== 0 && (
+                              <ConfigVersionDiff
+                                configId={id}
+                                fromVersionId={version.id}
+                                toVersionId={configData.versions[0].id}
+                              />
+                            )}
                             {index !== 0 && canRevertVersions && (
                               <ConfigVersionControls
                                 versionId={version.id}
@@ -540,6 +610,25 @@ export default async function ConfigDetailsPage({ params }: ConfigDetailsPagePro
             </TabsContent>
           )}
           
+          {/* Performance Tab */}
+          <TabsContent value="performance" className="mt-6">
+            <Card>
+              <CardHeader>
+                <h3 className="text-lg font-semibold">Performance Reports</h3>
+                <p className="text-sm text-muted-foreground">
+                  How this configuration runs on real devices
+                </p>
+              </CardHeader>
+              <CardContent>
+                <PerformanceReportsServer
+                  configId={id}
+                  versionNumbers={configData.versions.map((version: any) => version.versionNumber)}
+                  defaultResolution={configData.details?.gameResolution}
+                />
+              </CardContent>
+            </Card>
+          </TabsContent>
+          
           {/* Comments Tab */}
           <TabsContent value="comments" className="mt-6">
             <Card>
@@ -33,7 +33,7 @@ export default function EditConfigPage({ params }: EditConfigPageProps): JSX.Ele
   const [configData, setConfigData] = useState<any>(null);
   const [gameData, setGameData] = useState<{
     id: string;
-    steamId: string;
+    externalId: string;
     name: string;
     imageUrl: string;
   } | null>(null);
@@ -17,7 +17,8 @@ import { ConfigForm } from "@/components/configs/form/ConfigForm";
 
 /**
  * NewConfigPage component for creating a new game configuration
- * Fetches game data based on the steamId query parameter
+ * Fetches game data based on the steamId query parameter, or the gameId
+ * query parameter for games that are not on Steam
  * 
  * @returns React component
  */
@@ -26,22 +27,23 @@ export default function NewConfigPage(): JSX.Element {
   const [error, setError] = useState<string | null>(null);
   const [gameData, setGameData] = useState<{
     id: string;
-    steamId: string;
     name: string;
     imageUrl: string;
+    status?: string;
   } | null>(null);
 
   const searchParams = useSearchParams();
   const router = useRouter();
   const steamId = searchParams.get("steamId");
+  const gameId = searchParams.get("gameId");
 
   // Fetch game data when the component mounts
   useEffect(() => {
     const fetchGameData = async (): Promise<void> => {
-      if (!steamId) {
-        setError("No Steam ID provided");
-        toast.error("Missing Steam ID", {
-          description: "No Steam ID was provided. Please select a game first."
+      if (!steamId && !gameId) {
+        setError("No game selected");
+        toast.error("Missing game", {
+          description: "No game was provided. Please select a game first."
         });
         setIsLoading(false);
         return;
@@ -52,13 +54,18 @@ export default function NewConfigPage(): JSX.Element {
          * First try to get the game from our database
          * If not found, fetch from Steam API and save to database(if cache is true) if not fetch from steam api
          */
-        const response = await fetch(`/api/games/steam/${steamId}?cache=true`);
+        const response = await fetch(
+          gameId ? `/api/games/${gameId}` : `/api/games/steam/${steamId}?cache=true`
+        );
         
         if (!response.ok) {
           throw new Error("Failed to fetch game data");
         }
 
         const data = await response.json();
+        if (data.status && data.status !== "APPROVED") {
+          throw new Error("This game is waiting for a moderator to approve it");
+        }
         setGameData(data);
         
         // Show success toast when game data is loaded
@@ -71,7 +78,7 @@ export default function NewConfigPage(): JSX.Element {
         
         // Show error toast
         toast.error("Game data error", {
-          description: err.message || "Failed to load game data for this Steam ID"
+          description: err.message || "Failed to load game data for this game"
         });
       } finally {
         setIsLoading(false);
@@ -79,17 +86,17 @@ export default function NewConfigPage(): JSX.Element {
     };
 
     fetchGameData();
-  }, [steamId]);
+  }, [steamId, gameId]);
 
-  // If no steamId is provided, show an error
-  if (!steamId && !isLoading) {
+  // If no game is provided, show an error
+  if (!steamId && !gameId && !isLoading) {
     return (
       <Container>
         <div className="py-10">
           <Alert variant="destructive">
             <AlertTitle>Error</AlertTitle>
             <AlertDescription>
-              No Steam ID provided. Please select a game first.
+              No game selected. Please select a game first.
             </AlertDescription>
           </Alert>
         </div>
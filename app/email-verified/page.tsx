@@ -0,0 +1,60 @@
+import { Metadata } from "next";
+import Link from "next/link";
+import { headers } from "next/headers";
+import { auth } from "@/lib/auth";
+import { Button } from "@/components/ui/button";
+import { VerifyEmailNotice } from "@/components/sign/verify-email-notice";
+
+/**
+ * Page the email verification link redirects to
+ * better-auth appends ?error=... when the token is invalid or expired
+ */
+export const metadata: Metadata = {
+  title: "Email Verification - GameHub Configuration Directory",
+  description: "Confirm your GameHub Config email address",
+};
+
+const ERROR_MESSAGES: Record<string, string> = {
+  token_expired: "This verification link has expired.",
+  invalid_token: "This verification link is invalid.",
+  user_not_found: "We couldn't find an account for this verification link.",
+};
+
+export default async function EmailVerifiedPage({
+  searchParams,
+}: {
+  searchParams: { error?: string };
+}) {
+  const session = await auth.api.getSession({
+    headers: headers(),
+  });
+  const error = searchParams.error
+    ? ERROR_MESSAGES[searchParams.error] || "We couldn't verify your email address."
+    : null;
+  const canResend = Boolean(error && session?.user && !session.user.emailVerified);
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-[calc(100vh-64px)] p-4">
+      <div className="w-full max-w-md p-6 bg-white rounded-lg shadow-md dark:bg-gray-800">
+        <h1 className="text-2xl font-bold text-center mb-6">
+          {error ? "Verification failed" : "Email verified"}
+        </h1>
+        <p className="text-gray-700 dark:text-gray-300 text-center mb-6">
+          {error
+            ? `${error} ${canResend ? "Request a new link below." : "Sign in to request a new link."}`
+            : "Thanks for confirming your email address. You can now share configurations and comment."}
+        </p>
+        {canResend && <VerifyEmailNotice className="mb-6" />}
+        <div className="flex justify-center">
+          <Button asChild>
+            {error && !session?.user ? (
+              <Link href="/signin">Sign In</Link>
+            ) : (
+              <Link href="/search/configs">Browse Configurations</Link>
+            )}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
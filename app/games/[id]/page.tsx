@@ -0,0 +1,256 @@
+/**
+ * Game Details Page
+ * Shows a game, the consensus of its configurations and its top configurations
+ * This is a server component that fetches data server-side for better SEO
+ */
+
+import Image from "next/image";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { headers } from "next/headers";
+import { Metadata } from "next";
+import { formatDistanceToNow } from "date-fns";
+import { GameStatus } from "@prisma/client";
+import { ThumbsUp, ThumbsDown, ChevronRight, Plus } from "lucide-react";
+
+import { Container } from "@/components/ui/container";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { hasPermission } from "@/lib/permissions";
+import { getConfigsByGame } from "@/lib/services/config-service";
+import { getGameCompatibilitySummary } from "@/lib/services/game-summary-service";
+import { parseHardwareFilter } from "@/lib/services/device-service";
+import { GameMetadata } from "@/components/games/game-metadata";
+import { GameCompatibilitySummaryView } from "@/components/games/game-compatibility-summary";
+import { GameHardwareFilter } from "@/components/games/game-hardware-filter";
+import { GAME_SOURCES } from "@/lib/constants/config-presets";
+
+// Number of top configurations listed below the summary
+const TOP_CONFIG_LIMIT = 10;
+
+interface GameDetailsPageProps {
+  params: {
+    id: string;
+  };
+  searchParams: {
+    soc?: string;
+    gpuFamily?: string;
+  };
+}
+
+/**
+ * Generate metadata for the page based on the game data
+ */
+export async function generateMetadata({ params }: GameDetailsPageProps): Promise<Metadata> {
+  try {
+    const game = await prisma.game.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!game || game.status !== GameStatus.APPROVED) {
+      return {
+        title: "Game Not Found",
+        description: "The requested game could not be found.",
+      };
+    }
+
+    return {
+      title: `${game.name} GameHub Configs | GameHub Config Directory`,
+      description: `Community GameHub configurations and recommended settings for ${game.name}.`,
+      openGraph: {
+        title: `${game.name} GameHub Configs | GameHub Config Directory`,
+        description: `Community GameHub configurations and recommended settings for ${game.name}.`,
+        images: game.imageUrl ? [game.imageUrl] : [],
+      },
+    };
+  } catch (error) {
+    console.error("Error generating metadata:", error);
+    return {
+      title: "GameHub Configs | GameHub Config Directory",
+      description: "View optimized game configurations for GameHub emulator",
+    };
+  }
+}
+
+/**
+ * GameDetailsPage component
+ * Games awaiting review (or rejected) are only shown to their submitter and moderators
+ * ?soc= and ?gpuFamily= limit the summary and configs to ones tested on matching hardware
+ *
+ * @param props - Component props containing route and search parameters
+ * @returns React component
+ */
+export default async function GameDetailsPage({ params, searchParams }: GameDetailsPageProps): Promise<JSX.Element> {
+  const game = await prisma.game.findUnique({
+    where: { id: params.id },
+    include: {
+      aliases: {
+        select: { id: true, name: true },
+        orderBy: { createdAt: "asc" },
+      },
+    },
+  });
+
+  if (!game) {
+    notFound();
+  }
+
+  if (game.status !== GameStatus.APPROVED) {
+    const session = await auth.api.getSession({
+      headers: headers()
+    });
+    const canSee = session?.user && (
+      session.user.id === game.submittedById ||
+      hasPermission(session.user.role, { game: ["update"] })
+    );
+    if (!canSee) {
+      notFound();
+    }
+  }
+
+  let summary: Awaited<ReturnType<typeof getGameCompatibilitySummary>> | null = null;
+  let configs: Awaited<ReturnType<typeof getConfigsByGame>>["configs"] = [];
+  let error: string | null = null;
+
+  const hardware = parseHardwareFilter(new URLSearchParams(
+    Object.entries(searchParams).filter((entry): entry is [string, string] => typeof entry[1] === "string")
+  ));
+
+  try {
+    [summary, { configs }] = await Promise.all([
+      getGameCompatibilitySummary(game.id, hardware),
+      getConfigsByGame(game.id, 1, TOP_CONFIG_LIMIT, undefined, hardware),
+    ]);
+  } catch (err: any) {
+    console.error("Error fetching data:", err);
+    error = "Failed to load configurations for this game";
+  }
+
+  // Alias names that differ from the game's own name, e.g. titles of merged duplicates
+  const otherNames = Array.from(new Set(game.aliases.map((alias) => alias.name)))
+    .filter((name) => name !== game.name);
+  const sourceInfo = GAME_SOURCES[game.source];
+
+  return (
+    <Container>
+      <div className="py-10">
+        {/* Game Header */}
+        <div className="flex flex-col md:flex-row gap-4 mb-8">
+          <div className="w-full md:w-[45%] lg:w-[40%] flex items-start">
+            <div className="relative w-full aspect-[16/9] md:aspect-[4/3] overflow-hidden">
+              {game.imageUrl ? (
+                <Image
+                  src={game.imageUrl}
+                  alt={game.name}
+                  fill
+                  className="object-cover"
+                  priority
+                  sizes="(max-width: 640px) 100vw, (max-width: 768px) 45vw, 40vw"
+                />
+              ) : (
+                <div className="flex items-center justify-center h-full">
+                  <p className="text-muted-foreground">No image</p>
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="w-full md:w-[55%] lg:w-[60%] flex flex-col justify-start">
+            <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">{game.name}</h1>
+            <p className="text-sm sm:text-base text-muted-foreground">
+              {sourceInfo?.idLabel ? `${sourceInfo.idLabel}: ${game.externalId}` : sourceInfo?.label}
+            </p>
+            {otherNames.length > 0 && (
+              <p className="mt-1 text-xs sm:text-sm text-muted-foreground">
+                Also known as {otherNames.join(", ")}
+              </p>
+            )}
+
+            {game.status !== GameStatus.APPROVED && (
+              <div className="mt-3">
+                <Badge variant={game.status === GameStatus.REJECTED ? "destructive" : "secondary"}>
+                  {game.status === GameStatus.REJECTED ? "Rejected" : "Awaiting review"}
+                </Badge>
+              </div>
+            )}
+
+            <GameMetadata game={game} className="mt-3 sm:mt-4" />
+
+            {game.status === GameStatus.APPROVED && (
+              <div className="mt-4">
+                <Button asChild>
+                  <Link href={`/configs/new?gameId=${game.id}`}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Create Config
+                  </Link>
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {error || !summary ? (
+          <Alert variant="destructive">
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{error || "Failed to load configurations for this game"}</AlertDescription>
+          </Alert>
+        ) : (
+          <div className="space-y-8">
+            <GameHardwareFilter />
+            <GameCompatibilitySummaryView
+              summary={summary}
+              isHardwareFiltered={Boolean(hardware.soc || hardware.gpuFamily)}
+            />
+
+            {configs.length > 0 && (
+              <div className="space-y-4">
+                <h2 className="text-2xl font-bold">Top Configurations</h2>
+                <div className="grid grid-cols-1 gap-4 max-w-3xl">
+                  {configs.map((config) => (
+                    <Card key={config.id} className="overflow-hidden">
+                      <CardContent className="p-4 flex flex-col md:flex-row justify-between gap-4">
+                        <div className="space-y-1">
+                          <Link
+                            href={`/configs/${config.id}`}
+                            className="text-lg font-semibold hover:text-primary transition-colors"
+                          >
+                            Config by @{config.createdBy.username}
+                          </Link>
+                          <p className="text-sm text-muted-foreground">
+                            GameHub v{config.gamehubVersion} • updated{" "}
+                            {formatDistanceToNow(config.updatedAt, { addSuffix: true })}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-4 flex-shrink-0">
+                          <div className="flex items-center gap-1">
+                            <ThumbsUp className="h-4 w-4 text-green-500" />
+                            <span>{config.upvotes}</span>
+                          </div>
+                          <div className="flex items-center gap-1">
+                            <ThumbsDown className="h-4 w-4 text-red-500" />
+                            <span>{config.downvotes}</span>
+                          </div>
+                          <Link
+                            href={`/configs/${config.id}`}
+                            className="text-xs font-medium text-primary flex items-center hover:underline"
+                          >
+                            View Details
+                            <ChevronRight className="h-3 w-3 ml-1" />
+                          </Link>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </Container>
+  );
+}
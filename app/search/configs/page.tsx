@@ -20,9 +20,11 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";import { Separator } from "@/components/ui/separator";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
-import { COMMON_TAGS, SORT_OPTIONS } from "@/lib/constants/config-presets";
+import { COMMON_TAGS, SORT_OPTIONS, CONFIG_FACETS, type ConfigFacetField } from "@/lib/constants/config-presets";
 
 import { UserConfigList } from "@/components/configs/list/UserConfigList";
+import { ConfigFacetFilters, type FacetCounts } from "@/components/configs/config-facet-filters";
+import { HardwareMatchSelect, type HardwareMatch } from "@/components/devices/hardware-match-select";
 
 /**
  * ConfigSearchPage component for searching and filtering configurations
@@ -35,7 +37,7 @@ export default function ConfigSearchPage(): JSX.Element {
   
   // Get search parameters from URL
   const initialQuery = searchParams.get("q") || "";
-  const initialSort = searchParams.get("sort") || "popular";
+  const initialSort = searchParams.get("sort") || "best";
   const initialTags = searchParams.get("tags")?.split(",") || [];
   
   // State for search parameters
@@ -46,6 +48,15 @@ export default function ConfigSearchPage(): JSX.Element {
   const [error, setError] = useState<string | null>(null);
   const [configs, setConfigs] = useState<any[]>([]);
   const [pagination, setPagination] = useState<any>(null);
+  const [facets, setFacets] = useState<FacetCounts | null>(null);
+
+  // Selected facet values come straight from the URL
+  const selectedFacets: Partial<Record<ConfigFacetField, string[]>> = Object.fromEntries(
+    CONFIG_FACETS.map(({ field }) => [field, searchParams.get(field)?.split(",").filter(Boolean) || []])
+  );
+  const selectedFacetEntries = CONFIG_FACETS.flatMap(({ field }) =>
+    (selectedFacets[field] || []).map((value) => ({ field, value }))
+  );
 
   // Effect to fetch configurations based on search parameters from URL
   const fetchConfigs = useCallback(async (): Promise<void> => {
@@ -63,6 +74,7 @@ export default function ConfigSearchPage(): JSX.Element {
       const data = await response.json();
       setConfigs(data.configs);
       setPagination(data.pagination);
+      setFacets(data.facets || null);
     } catch (err: any) {
       console.error("Error fetching configurations:", err);
       setError(err.message || "Failed to load configurations");
@@ -121,10 +133,33 @@ export default function ConfigSearchPage(): JSX.Element {
     updateURL({ tags: newTags.join(','), page: 1 });
   };
 
+  const toggleFacet = (field: ConfigFacetField, value: string): void => {
+    const current = selectedFacets[field] || [];
+    const next = current.includes(value)
+      ? current.filter((v) => v !== value)
+      : [...current, value];
+    updateURL({ [field]: next.join(','), page: 1 });
+  };
+
+  // The hardware select picks a single SoC or GPU family facet value
+  const hardwareMatch: HardwareMatch = {
+    soc: selectedFacets.soc?.[0],
+    gpuFamily: selectedFacets.soc?.length ? undefined : selectedFacets.gpuFamily?.[0],
+  };
+
+  const handleHardwareChange = (value: HardwareMatch): void => {
+    updateURL({ soc: value.soc, gpuFamily: value.gpuFamily, page: 1 });
+  };
+
   const clearFilters = (): void => {
     setSelectedTags([]);
-    setSortBy("popular");
-    updateURL({ tags: null, sort: null, page: 1 });
+    setSortBy("best");
+    updateURL({
+      tags: null,
+      sort: null,
+      page: 1,
+      ...Object.fromEntries(CONFIG_FACETS.map(({ field }) => [field, null])),
+    });
   };
 
   const handlePageChange = (newPage: number): void => {
@@ -139,7 +174,7 @@ export default function ConfigSearchPage(): JSX.Element {
             <div className="flex-1 relative">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
               <Input
-                placeholder="Search by game name"
+                placeholder="Search games, notes, tags or authors"
                 value={searchQuery}
                 onChange={handleSearchChange}
                 className="pl-10"
@@ -152,7 +187,7 @@ export default function ConfigSearchPage(): JSX.Element {
                     <Filter className="h-4 w-4 mr-2" /> Filters
                   </Button>
                 </SheetTrigger>
-                <SheetContent>
+                <SheetContent className="overflow-y-auto">
                   <SheetHeader><SheetTitle>Filters</SheetTitle></SheetHeader>
                   <div className="py-4">
                     <h4 className="text-sm font-medium mb-3">Tags</h4>
@@ -164,7 +199,15 @@ export default function ConfigSearchPage(): JSX.Element {
                         </div>
                       ))}
                     </div>
-                    <h4 className="text-sm font-medium mb-3">Sort by</h4>
+                    <h4 className="text-sm font-medium mb-3 mt-4">Tested on</h4>
+                    <HardwareMatchSelect value={hardwareMatch} onChange={handleHardwareChange} className="w-full" />
+                    <ConfigFacetFilters
+                      facets={facets}
+                      selected={selectedFacets}
+                      onToggle={toggleFacet}
+                      idPrefix="mobile-facet"
+                    />
+                    <h4 className="text-sm font-medium mb-3 mt-4">Sort by</h4>
                     <Select value={sortBy} onValueChange={handleSortChange}>
                       <SelectTrigger className="w-full">
                         <SelectValue placeholder="Sort by" />
@@ -186,7 +229,7 @@ export default function ConfigSearchPage(): JSX.Element {
           </div>
         </div>
 
-        {selectedTags.length > 0 && (
+        {(selectedTags.length > 0 || selectedFacetEntries.length > 0) && (
           <div className="mb-6 flex flex-wrap gap-2 items-center">
             {selectedTags.map((tag) => (
               <Badge key={tag} variant="secondary">
@@ -194,6 +237,12 @@ export default function ConfigSearchPage(): JSX.Element {
                 <X className="h-3 w-3 ml-1 cursor-pointer" onClick={() => toggleTag(tag)} />
               </Badge>
             ))}
+            {selectedFacetEntries.map(({ field, value }) => (
+              <Badge key={`${field}-${value}`} variant="secondary">
+                {value}
+                <X className="h-3 w-3 ml-1 cursor-pointer" onClick={() => toggleFacet(field, value)} />
+              </Badge>
+            ))}
             <Button variant="ghost" size="sm" onClick={clearFilters} className="text-xs">Clear All</Button>
           </div>
         )}
@@ -216,6 +265,15 @@ export default function ConfigSearchPage(): JSX.Element {
                     </div>
                   </div>
                   <Separator />
+                  <div>
+                    <h4 className="text-sm font-medium mb-3">Tested on</h4>
+                    <HardwareMatchSelect value={hardwareMatch} onChange={handleHardwareChange} className="w-full" />
+                  </div>
+                  <ConfigFacetFilters
+                    facets={facets}
+                    selected={selectedFacets}
+                    onToggle={toggleFacet}
+                  />
                   <div>
                     <h4 className="text-sm font-medium mb-3">Sort by</h4>
                     <Select value={sortBy} onValueChange={handleSortChange}>
@@ -9,6 +9,9 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/com
 import { Container } from "@/components/ui/container";
 import { Loader2 } from "lucide-react";
 import { toast } from "sonner";
+import { useSession } from "@/lib/auth-client";
+import { VerifyEmailNotice } from "@/components/sign/verify-email-notice";
+import { GameSubmissionForm } from "@/components/games/game-submission-form";
 
 interface GameData {
   name: string;
@@ -22,6 +25,8 @@ export default function SubmitPage() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const router = useRouter();
+  const { data: session } = useSession();
+  const isUnverified = Boolean(session?.user && !session.user.emailVerified);
 
   const handleFetchGameData = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -86,7 +91,10 @@ export default function SubmitPage() {
 
   return (
     <Container>
-      <div className="py-10 flex justify-center">
+      <div className="py-10 flex flex-col items-center gap-6">
+        {isUnverified && (
+          <VerifyEmailNotice action="submit configurations" className="max-w-lg" />
+        )}
         <Card className="w-full max-w-lg">
           <CardHeader>
             <CardTitle>Submit a New Configuration</CardTitle>
@@ -129,6 +137,18 @@ export default function SubmitPage() {
             )}
           </CardContent>
         </Card>
+        <Card className="w-full max-w-lg">
+          <CardHeader>
+            <CardTitle>Game Not on Steam?</CardTitle>
+            <CardDescription>
+              Add a GOG, Epic Games Store or standalone game. A moderator reviews new games
+              before configurations can be posted for them.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <GameSubmissionForm />
+          </CardContent>
+        </Card>
       </div>
     </Container>
   );
@@ -0,0 +1,41 @@
+import { Metadata } from "next";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { UnsubscribeConfirm } from "@/components/email/unsubscribe-confirm";
+
+/**
+ * Page the unsubscribe link in digest emails leads to, asks before unsubscribing
+ */
+export const metadata: Metadata = {
+  title: "Unsubscribe - GameHub Configuration Directory",
+  description: "Manage your GameHub Config email digests",
+};
+
+export default function UnsubscribePage({
+  searchParams,
+}: {
+  searchParams: { token?: string };
+}) {
+  const token = searchParams.token;
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-[calc(100vh-64px)] p-4">
+      <div className="w-full max-w-md p-6 bg-white rounded-lg shadow-md dark:bg-gray-800">
+        <h1 className="text-2xl font-bold text-center mb-6">
+          {token ? "Unsubscribe from digests?" : "Link not recognized"}
+        </h1>
+        <p className="text-gray-700 dark:text-gray-300 text-center mb-6">
+          {token
+            ? "You will no longer receive activity digests. You can turn them back on from your profile page at any time."
+            : "This unsubscribe link is invalid. You can change your email digests from your profile page."}
+        </p>
+        <div className="flex justify-center gap-2">
+          {token && <UnsubscribeConfirm token={token} />}
+          <Button variant="outline" asChild>
+            <Link href="/">Go to Home</Link>
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { Metadata } from "next";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+
+/**
+ * Page shown after confirming the unsubscribe link in a digest email
+ */
+export const metadata: Metadata = {
+  title: "Unsubscribed - GameHub Configuration Directory",
+  description: "Manage your GameHub Config email digests",
+};
+
+export default function UnsubscribedPage({
+  searchParams,
+}: {
+  searchParams: { invalid?: string };
+}) {
+  const invalid = searchParams.invalid === "1";
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-[calc(100vh-64px)] p-4">
+      <div className="w-full max-w-md p-6 bg-white rounded-lg shadow-md dark:bg-gray-800">
+        <h1 className="text-2xl font-bold text-center mb-6">
+          {invalid ? "Link not recognized" : "You're unsubscribed"}
+        </h1>
+        <p className="text-gray-700 dark:text-gray-300 text-center mb-6">
+          {invalid
+            ? "This unsubscribe link is invalid. You can change your email digests from your profile page."
+            : "You will no longer receive activity digests. You can turn them back on from your profile page at any time."}
+        </p>
+        <div className="flex justify-center">
+          <Button asChild>
+            <Link href="/">Go to Home</Link>
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
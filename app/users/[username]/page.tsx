@@ -15,7 +15,10 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Separator } from "@/components/ui/separator";
+import { Markdown } from "@/components/ui/markdown";
 import { useToast } from "@/hooks/use-toast";
+import { EmailDigestSettings } from "@/components/profile/email-digest-settings";
+import { DeviceSettings } from "@/components/profile/device-settings";
 import { ProfileImageUploader } from "@/components/profile/profile-image-uploader";
 
 interface ProfilePageProps {
@@ -209,6 +212,9 @@ export default function ProfilePage({ params }: ProfilePageProps) {
                 Member since {formatDistanceToNow(user.createdAt, { addSuffix: true })}
               </p>
             </div>
+
+            {isOwnProfile && <DeviceSettings />}
+            {isOwnProfile && <EmailDigestSettings />}
           </div>
           
           {/* Profile Content */}
@@ -326,7 +332,7 @@ export default function ProfilePage({ params }: ProfilePageProps) {
                                   {comment.config.game.name}: {comment.config.title}
                                 </Link>
                               </p>
-                              <p className="mt-1 text-sm">{comment.content}</p>
+                              <Markdown content={comment.content} className="mt-1 text-sm" />
                               <div className="flex items-center gap-3 mt-2">
                                 <span className="flex items-center text-xs text-muted-foreground">
                                   <ThumbsUp className="h-3 w-3 mr-1" />
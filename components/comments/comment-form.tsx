@@ -1,6 +1,6 @@
 /**
  * Client-side comment form component
- * Handles adding new comments to a config
+ * Handles adding new comments and replies to a config
  */
 
 "use client";
@@ -10,21 +10,23 @@ import { useRouter } from "next/navigation";
 import { Loader2 } from "lucide-react";
 import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
-import { Textarea } from "@/components/ui/textarea";
+import { MarkdownEditor } from "@/components/ui/markdown-editor";
 import { type CommentInput } from "@/lib/validations/config";
 import { type CommentType } from "./comment-item";
 
 interface CommentFormProps {
   configId: string;
   userId?: string;
+  parentId?: string;
   onCommentAdded?: (newComment: CommentType) => void;
+  onCancel?: () => void;
 }
 
 /**
  * Client component for adding new comments
  * Handles form submission and optimistic UI updates
  */
-export function CommentForm({ configId, userId, onCommentAdded }: CommentFormProps) {
+export function CommentForm({ configId, userId, parentId, onCommentAdded, onCancel }: CommentFormProps) {
   const [content, setContent] = useState<string>("");
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
   const router = useRouter();
@@ -43,7 +45,7 @@ export function CommentForm({ configId, userId, onCommentAdded }: CommentFormPro
     setIsSubmitting(true);
     
     try {
-      const commentData: CommentInput = { content };
+      const commentData: CommentInput = { content, parentId };
       
       const response = await fetch(`/api/configs/${configId}/comments`, {
         method: "POST",
@@ -63,7 +65,7 @@ export function CommentForm({ configId, userId, onCommentAdded }: CommentFormPro
       
       // Clear form and refresh data
       setContent("");
-      toast.success("Comment added successfully");
+      toast.success(parentId ? "Reply added successfully" : "Comment added successfully");
       
       // Call the onCommentAdded callback if provided
       if (onCommentAdded) {
@@ -81,20 +83,27 @@ export function CommentForm({ configId, userId, onCommentAdded }: CommentFormPro
 
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
-      <Textarea
-        placeholder="Add a comment..."
+      <MarkdownEditor
+        placeholder={parentId ? "Write a reply..." : "Add a comment..."}
         value={content}
         onChange={(e) => setContent(e.target.value)}
-        className="min-h-[100px]"
+        className={parentId ? "min-h-[80px]" : "min-h-[100px]"}
         disabled={isSubmitting}
       />
-      <div className="flex justify-end">
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button type="button" variant="ghost" onClick={onCancel} disabled={isSubmitting}>
+            Cancel
+          </Button>
+        )}
         <Button type="submit" disabled={isSubmitting || !content.trim()}>
           {isSubmitting ? (
             <>
               <Loader2 className="h-4 w-4 mr-2 animate-spin" />
               Posting...
             </>
+          ) : parentId ? (
+            "Post Reply"
           ) : (
             "Post Comment"
           )}
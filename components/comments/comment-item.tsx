@@ -1,13 +1,14 @@
 "use client";
 
 import { useState } from "react";
+import { useRouter } from "next/navigation";
 import { useSession } from "@/lib/auth-client";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardFooter } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { formatDistanceToNow } from "date-fns";
-import { ThumbsUp, ThumbsDown, Trash2, MoreVertical } from "lucide-react";
+import { ThumbsUp, ThumbsDown, Trash2, MoreVertical, Reply, ChevronDown, ChevronRight } from "lucide-react";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -15,23 +16,32 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { type CommentVoteInput } from "@/lib/validations/config";
+import { Markdown } from "@/components/ui/markdown";
+import { avatarUrl } from "@/lib/utils";
+import { CommentForm } from "./comment-form";
 
 /**
  * Type definition for a comment
+ * Deleted comments have empty content and no user
  */
 export interface CommentType {
   id: string;
+  configId: string;
   content: string;
   createdAt: string;
   updatedAt: string;
   upvotes: number;
   downvotes: number;
+  parentId: string | null;
+  depth: number;
+  isDeleted: boolean;
+  replies?: CommentType[];
   user: {
     id: string;
     name: string;
     image: string | null;
-    username?: string;
-  };
+    username?: string | null;
+  } | null;
 }
 
 /**
@@ -40,22 +50,33 @@ export interface CommentType {
 interface CommentItemProps {
   comment: CommentType;
   userVote?: number | null;
+  userVotes?: Record<string, number | null>;
   onDelete?: (commentId: string) => void;
   onVote?: (commentId: string, value: number, previousValue?: number | null) => void;
+  onReplyAdded?: (reply: CommentType) => void;
 }
 
 /**
- * CommentItem component for displaying an individual comment with voting functionality
+ * CommentItem component for displaying a comment and its nested replies with voting functionality
+ * Replies to a comment at the depth limit are attached to its parent by the API,
+ * so they are handed up through onReplyAdded
  */
 export function CommentItem({ 
   comment, 
   userVote = null, 
+  userVotes = {},
   onDelete,
-  onVote 
+  onVote,
+  onReplyAdded,
 }: CommentItemProps) {
   const { data: session } = useSession();
   const { toast } = useToast();
+  const router = useRouter();
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isDeleted, setIsDeleted] = useState(comment.isDeleted);
+  const [replies, setReplies] = useState<CommentType[]>(comment.replies || []);
+  const [isReplying, setIsReplying] = useState(false);
+  const [isCollapsed, setIsCollapsed] = useState(false);
   const [currentVote, setCurrentVote] = useState<number | null>(userVote);
   const [voteCount, setVoteCount] = useState({
     upvotes: comment.upvotes,
@@ -99,7 +120,7 @@ export function CommentItem({
     }
     
     // Prevent voting on own comment
-    if (session.user.id === comment.user.id) {
+    if (session.user.id === comment.user?.id) {
       toast({
         title: "Cannot vote on own comment",
         description: "You cannot vote on your own comments.",
@@ -176,7 +197,7 @@ export function CommentItem({
   const handleDelete = async () => {
     if (!session?.user) return;
     
-    const isAuthor = session.user.id === comment.user.id;
+    const isAuthor = session.user.id === comment.user?.id;
     const isAdminOrMod = session.user.role === "ADMIN" || session.user.role === "MODERATOR";
     
     if (!isAuthor && !isAdminOrMod) {
@@ -206,8 +227,14 @@ export function CommentItem({
         description: "The comment has been successfully deleted.",
       });
       
-      if (onDelete) {
+      // Comments with replies stay in the thread as a placeholder
+      if (data.mode === "soft") {
+        setIsDeleted(true);
+        setIsDeleting(false);
+      } else if (onDelete) {
         onDelete(comment.id);
+      } else {
+        router.refresh();
       }
     } catch (error) {
       console.error("Error deleting comment:", error);
@@ -220,84 +247,168 @@ export function CommentItem({
     }
   };
   
-  const isOwnComment = session?.user?.id === comment.user.id;
+  /**
+   * Adds a reply below this comment, or hands it to the parent when the API attached it there
+   */
+  const handleReplyAdded = (reply: CommentType) => {
+    setIsReplying(false);
+    if (reply.parentId === comment.id) {
+      setReplies((prev) => [...prev, { ...reply, replies: [] }]);
+      setIsCollapsed(false);
+    } else if (onReplyAdded) {
+      onReplyAdded(reply);
+    }
+  };
+  
+  /**
+   * Removes a deleted reply, and this comment too once a deleted placeholder has no replies left
+   */
+  const handleReplyDeleted = (replyId: string) => {
+    const remaining = replies.filter((reply) => reply.id !== replyId);
+    setReplies(remaining);
+    if (isDeleted && remaining.length === 0) {
+      if (onDelete) {
+        onDelete(comment.id);
+      } else {
+        router.refresh();
+      }
+    }
+  };
+  
+  const author = isDeleted ? null : comment.user;
+  const isOwnComment = !!author && session?.user?.id === author.id;
   const isAdminOrMod = session?.user?.role === "ADMIN" || session?.user?.role === "MODERATOR";
-  const canDelete = isOwnComment || isAdminOrMod;
+  const canDelete = !isDeleted && (isOwnComment || isAdminOrMod);
   
   return (
-    <Card className="mb-4">
-      <CardContent className="pt-6">
-        <div className="flex items-start gap-4">
-          <Avatar className="h-10 w-10">
-            <AvatarImage src={comment.user.image || ''} alt={comment.user.name} />
-            <AvatarFallback>{getUserInitials(comment.user.name)}</AvatarFallback>
-          </Avatar>
-          <div className="flex-1 space-y-1">
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="font-medium text-sm">
-                  {comment.user.username || comment.user.name}
-                </p>
-                <p className="text-xs text-muted-foreground">
-                  {formatCommentDate(comment.createdAt)}
-                  {comment.updatedAt !== comment.createdAt && " (edited)"}
-                </p>
+    <div>
+      <Card id={`comment-${comment.id}`} className="mb-4 scroll-mt-20">
+        <CardContent className="pt-6">
+          <div className="flex items-start gap-4">
+            <Avatar className="h-10 w-10">
+              <AvatarImage src={avatarUrl(author?.image, 'small')} alt={author?.name || "Deleted"} />
+              <AvatarFallback>{author ? getUserInitials(author.name) : "?"}</AvatarFallback>
+            </Avatar>
+            <div className="flex-1 space-y-1">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="font-medium text-sm">
+                    {author ? author.username || author.name : "[deleted]"}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatCommentDate(comment.createdAt)}
+                    {comment.updatedAt !== comment.createdAt && " (edited)"}
+                  </p>
+                </div>
+                {canDelete && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="icon" className="h-8 w-8">
+                        <MoreVertical className="h-4 w-4" />
+                        <span className="sr-only">More options</span>
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem 
+                        onClick={handleDelete}
+                        className="text-destructive focus:text-destructive"
+                        disabled={isDeleting}
+                      >
+                        <Trash2 className="mr-2 h-4 w-4" />
+                        {isDeleting ? "Deleting..." : "Delete"}
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
               </div>
-              {canDelete && (
-                <DropdownMenu>
-                  <DropdownMenuTrigger asChild>
-                    <Button variant="ghost" size="icon" className="h-8 w-8">
-                      <MoreVertical className="h-4 w-4" />
-                      <span className="sr-only">More options</span>
-                    </Button>
-                  </DropdownMenuTrigger>
-                  <DropdownMenuContent align="end">
-                    <DropdownMenuItem 
-                      onClick={handleDelete}
-                      className="text-destructive focus:text-destructive"
-                      disabled={isDeleting}
-                    >
-                      <Trash2 className="mr-2 h-4 w-4" />
-                      {isDeleting ? "Deleting..." : "Delete"}
-                    </DropdownMenuItem>
-                  </DropdownMenuContent>
-                </DropdownMenu>
+              {isDeleted ? (
+                <p className="text-sm italic text-muted-foreground">This comment has been deleted.</p>
+              ) : (
+                <Markdown content={comment.content} className="text-sm" />
               )}
             </div>
-            <div className="text-sm">
-              {comment.content}
-            </div>
           </div>
+        </CardContent>
+        <CardFooter className="flex justify-between py-2">
+          <div className="flex items-center space-x-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              className={`flex items-center gap-1 h-8 px-2 ${
+                currentVote === 1 ? "text-primary" : ""
+              }`}
+              onClick={() => handleVote(1)}
+              disabled={isOwnComment || isDeleted}
+            >
+              <ThumbsUp className="h-4 w-4" />
+              <span>{voteCount.upvotes}</span>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className={`flex items-center gap-1 h-8 px-2 ${
+                currentVote === -1 ? "text-destructive" : ""
+              }`}
+              onClick={() => handleVote(-1)}
+              disabled={isOwnComment || isDeleted}
+            >
+              <ThumbsDown className="h-4 w-4" />
+              <span>{voteCount.downvotes}</span>
+            </Button>
+            {session?.user && !isDeleted && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="flex items-center gap-1 h-8 px-2"
+                onClick={() => setIsReplying((prev) => !prev)}
+              >
+                <Reply className="h-4 w-4" />
+                <span>Reply</span>
+              </Button>
+            )}
+          </div>
+          {replies.length > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="flex items-center gap-1 h-8 px-2 text-muted-foreground"
+              onClick={() => setIsCollapsed((prev) => !prev)}
+            >
+              {isCollapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+              {isCollapsed
+                ? `Show ${replies.length} ${replies.length === 1 ? "reply" : "replies"}`
+                : "Hide replies"}
+            </Button>
+          )}
+        </CardFooter>
+      </Card>
+
+      {isReplying && (
+        <div className="ml-4 pl-4 border-l mb-4">
+          <CommentForm
+            configId={comment.configId}
+            parentId={comment.id}
+            onCommentAdded={handleReplyAdded}
+            onCancel={() => setIsReplying(false)}
+          />
         </div>
-      </CardContent>
-      <CardFooter className="flex justify-between py-2">
-        <div className="flex items-center space-x-1">
-          <Button
-            variant="ghost"
-            size="sm"
-            className={`flex items-center gap-1 h-8 px-2 ${
-              currentVote === 1 ? "text-primary" : ""
-            }`}
-            onClick={() => handleVote(1)}
-            disabled={isOwnComment}
-          >
-            <ThumbsUp className="h-4 w-4" />
-            <span>{voteCount.upvotes}</span>
-          </Button>
-          <Button
-            variant="ghost"
-            size="sm"
-            className={`flex items-center gap-1 h-8 px-2 ${
-              currentVote === -1 ? "text-destructive" : ""
-            }`}
-            onClick={() => handleVote(-1)}
-            disabled={isOwnComment}
-          >
-            <ThumbsDown className="h-4 w-4" />
-            <span>{voteCount.downvotes}</span>
-          </Button>
+      )}
+
+      {replies.length > 0 && !isCollapsed && (
+        <div className="ml-4 pl-4 border-l">
+          {replies.map((reply) => (
+            <CommentItem
+              key={reply.id}
+              comment={reply}
+              userVote={userVotes[reply.id] ?? null}
+              userVotes={userVotes}
+              onDelete={handleReplyDeleted}
+              onVote={onVote}
+              onReplyAdded={handleReplyAdded}
+            />
+          ))}
         </div>
-      </CardFooter>
-    </Card>
+      )}
+    </div>
   );
 }
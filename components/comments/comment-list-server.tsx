@@ -6,10 +6,11 @@
 
 import { prisma } from "@/lib/prisma";
 import { auth } from "@/lib/auth";
-import { format } from "date-fns";
 import { MessageSquare } from "lucide-react";
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { commentInclude, loadCommentThreads } from "@/lib/services/comment-service";
 import { CommentForm } from "./comment-form";
+import { CommentItem, type CommentType } from "./comment-item";
+import { VerifyEmailNotice } from "@/components/sign/verify-email-notice";
 import { headers } from "next/headers";
 
 interface CommentListServerProps {
@@ -17,8 +18,8 @@ interface CommentListServerProps {
 }
 
 /**
- * Server component that renders comments with initial state
- * Uses a client wrapper for adding new comments
+ * Server component that renders comment threads with initial state
+ * Uses client components for adding comments, replying and voting
  */
 export async function CommentListServer({ configId }: CommentListServerProps) {
   // Get current session
@@ -26,24 +27,45 @@ export async function CommentListServer({ configId }: CommentListServerProps) {
     headers: headers()
   });
   
-  // Fetch comments from database
-  const comments = await prisma.comment.findMany({
+  // Fetch top-level comments and their replies from database
+  const roots = await prisma.comment.findMany({
     where: {
       configId,
+      parentId: null,
     },
-    include: {
-      user: true,
-    },
+    include: commentInclude,
     orderBy: {
       createdAt: "desc",
     },
   });
+  const { threads, commentIds } = await loadCommentThreads(roots);
+  // Client components expect dates as strings
+  const comments: CommentType[] = JSON.parse(JSON.stringify(threads));
+
+  let userVotes: Record<string, number | null> = {};
+  if (session?.user) {
+    const votes = await prisma.commentVote.findMany({
+      where: {
+        userId: session.user.id,
+        commentId: { in: commentIds },
+      },
+      select: {
+        commentId: true,
+        value: true,
+      },
+    });
+    userVotes = Object.fromEntries(votes.map((vote) => [vote.commentId, vote.value]));
+  }
   
   return (
     <div className="space-y-6">
-      {/* Comment form for logged in users */}
+      {/* Comment form for logged in users, unverified users get a prompt instead */}
       {session?.user && (
-        <CommentForm configId={configId} userId={session.user.id} />
+        session.user.emailVerified ? (
+          <CommentForm configId={configId} userId={session.user.id} />
+        ) : (
+          <VerifyEmailNotice action="comment" />
+        )
       )}
       
       {/* Display existing comments */}
@@ -62,28 +84,14 @@ export async function CommentListServer({ configId }: CommentListServerProps) {
           )}
         </div>
       ) : (
-        <div className="space-y-6">
+        <div>
           {comments.map((comment) => (
-            <div key={comment.id} className="flex gap-4">
-              <Avatar className="h-10 w-10">
-                <AvatarImage 
-                  src={comment.user.image || ""} 
-                  alt={comment.user.username || "User"} 
-                />
-                <AvatarFallback>
-                  {(comment.user.username || "U").charAt(0).toUpperCase()}
-                </AvatarFallback>
-              </Avatar>
-              <div className="flex-1">
-                <div className="flex items-center gap-2">
-                  <p className="font-medium">@{comment.user.username}</p>
-                  <span className="text-xs text-muted-foreground">
-                    {format(new Date(comment.createdAt), "PPp")}
-                  </span>
-                </div>
-                <p className="mt-1">{comment.content}</p>
-              </div>
-            </div>
+            <CommentItem
+              key={comment.id}
+              comment={comment}
+              userVote={userVotes[comment.id] ?? null}
+              userVotes={userVotes}
+            />
           ))}
         </div>
       )}
@@ -26,7 +26,7 @@ interface CommentListProps {
 }
 
 /**
- * CommentList component for displaying all comments for a config with pagination
+ * CommentList component for displaying all comment threads for a config with pagination
  * 
  * @param configId - The ID of the config to show comments for
  */
@@ -159,6 +159,7 @@ export function CommentList({ configId }: CommentListProps) {
                 key={comment.id}
                 comment={comment}
                 userVote={userVotes[comment.id] || null}
+                userVotes={userVotes}
                 onDelete={handleCommentDeleted}
                 onVote={handleVote}
               />
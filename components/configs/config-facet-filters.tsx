@@ -0,0 +1,83 @@
+/**
+ * Config facet filters component
+ * Lists the values of each search facet with their config counts
+ */
+
+"use client";
+
+import { Checkbox } from "@/components/ui/checkbox";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { CONFIG_FACETS, FACET_VALUE_LABELS, type ConfigFacetField } from "@/lib/constants/config-presets";
+
+export type FacetCounts = Partial<Record<ConfigFacetField, { value: string; count: number }[]>>;
+
+interface ConfigFacetFiltersProps {
+  facets: FacetCounts | null;
+  selected: Partial<Record<ConfigFacetField, string[]>>;
+  onToggle: (field: ConfigFacetField, value: string) => void;
+  idPrefix?: string;
+}
+
+/**
+ * Renders one collapsible checkbox list per facet
+ * Facets with selected values start expanded
+ */
+export function ConfigFacetFilters({
+  facets,
+  selected,
+  onToggle,
+  idPrefix = "facet",
+}: ConfigFacetFiltersProps) {
+  const openFacets = CONFIG_FACETS
+    .filter(({ field }) => (selected[field] || []).length > 0)
+    .map(({ field }) => field);
+
+  return (
+    <Accordion type="multiple" defaultValue={openFacets} className="w-full">
+      {CONFIG_FACETS.map(({ field, label }) => {
+        const selectedValues = selected[field] || [];
+        const counts = facets?.[field] || [];
+        // Keep selected values visible even when nothing matches them anymore
+        const values = [
+          ...counts,
+          ...selectedValues
+            .filter((value) => !counts.some((count) => count.value === value))
+            .map((value) => ({ value, count: 0 })),
+        ];
+
+        return (
+          <AccordionItem key={field} value={field}>
+            <AccordionTrigger className="text-sm py-3">
+              {label}
+              {selectedValues.length > 0 && ` (${selectedValues.length})`}
+            </AccordionTrigger>
+            <AccordionContent>
+              {values.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No values</p>
+              ) : (
+                <div className="space-y-3 max-h-60 overflow-y-auto">
+                  {values.map(({ value, count }) => {
+                    const id = `${idPrefix}-${field}-${value}`;
+                    return (
+                      <div key={value} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={id}
+                          checked={selectedValues.includes(value)}
+                          onCheckedChange={() => onToggle(field, value)}
+                        />
+                        <label htmlFor={id} className="text-sm flex-1 truncate">
+                          {FACET_VALUE_LABELS[field]?.[value] ?? value}
+                        </label>
+                        <span className="text-xs text-muted-foreground">{count}</span>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </AccordionContent>
+          </AccordionItem>
+        );
+      })}
+    </Accordion>
+  );
+}
@@ -0,0 +1,247 @@
+/**
+ * Client-side config version diff component
+ * Shows a side-by-side comparison between two versions of a configuration
+ */
+
+"use client";
+
+import { useState } from "react";
+import { GitCompare, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import { type FieldDiff, type LineChange } from "@/lib/config-diff";
+
+interface VersionSummary {
+  id: string;
+  versionNumber: number;
+  changeSummary: string;
+  createdAt: string;
+  updatedBy: { username: string } | null;
+}
+
+interface VersionDiffResponse {
+  from: VersionSummary;
+  to: VersionSummary;
+  changes: FieldDiff[];
+}
+
+interface ConfigVersionDiffProps {
+  configId: string;
+  fromVersionId: string;
+  toVersionId: string;
+}
+
+/**
+ * A row of a side-by-side line diff
+ * Either side is null when the line only exists on the other side
+ */
+interface SideBySideRow {
+  left: LineChange | null;
+  right: LineChange | null;
+}
+
+/**
+ * Pairs removed and added lines so they render next to each other
+ */
+function toSideBySideRows(lines: LineChange[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let removed: LineChange[] = [];
+  let added: LineChange[] = [];
+
+  const flush = () => {
+    const count = Math.max(removed.length, added.length);
+    for (let i = 0; i < count; i++) {
+      rows.push({ left: removed[i] || null, right: added[i] || null });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const line of lines) {
+    if (line.type === "removed") {
+      removed.push(line);
+    } else if (line.type === "added") {
+      added.push(line);
+    } else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  }
+  flush();
+
+  return rows;
+}
+
+/**
+ * Renders a single cell of a side-by-side diff
+ */
+function DiffCell({ line }: { line: LineChange | null }) {
+  return (
+    <div
+      className={cn(
+        "px-2 py-0.5 font-mono text-xs whitespace-pre-wrap break-all min-h-[1.5rem]",
+        line?.type === "removed" && "bg-red-500/10 text-red-600 dark:text-red-400",
+        line?.type === "added" && "bg-green-500/10 text-green-600 dark:text-green-400",
+        !line && "bg-muted/50"
+      )}
+    >
+      {line?.value}
+    </div>
+  );
+}
+
+/**
+ * Renders the diff for a single field
+ */
+function FieldDiffView({ diff }: { diff: FieldDiff }) {
+  if (diff.kind === "value") {
+    return (
+      <div className="grid grid-cols-2 gap-px rounded-md border overflow-hidden">
+        <DiffCell line={{ type: "removed", value: diff.from ?? "Not specified" }} />
+        <DiffCell line={{ type: "added", value: diff.to ?? "Not specified" }} />
+      </div>
+    );
+  }
+
+  if (diff.kind === "list") {
+    return (
+      <div className="grid grid-cols-2 gap-px rounded-md border overflow-hidden">
+        <div>
+          {diff.from.length === 0 && <DiffCell line={null} />}
+          {diff.from.map((item) => (
+            <DiffCell
+              key={item}
+              line={{ type: diff.removed.includes(item) ? "removed" : "unchanged", value: item }}
+            />
+          ))}
+        </div>
+        <div>
+          {diff.to.length === 0 && <DiffCell line={null} />}
+          {diff.to.map((item) => (
+            <DiffCell
+              key={item}
+              line={{ type: diff.added.includes(item) ? "added" : "unchanged", value: item }}
+            />
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-2 gap-px rounded-md border overflow-hidden">
+      {toSideBySideRows(diff.lines).map((row, index) => (
+        <div key={index} className="contents">
+          <DiffCell line={row.left} />
+          <DiffCell line={row.right} />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Client component that opens a dialog comparing two config versions
+ * The diff is fetched lazily the first time the dialog is opened
+ */
+export function ConfigVersionDiff({
+  configId,
+  fromVersionId,
+  toVersionId,
+}: ConfigVersionDiffProps) {
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [diff, setDiff] = useState<VersionDiffResponse | null>(null);
+
+  /**
+   * Fetch the diff between the two versions
+   */
+  const fetchDiff = async (): Promise<void> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ from: fromVersionId, to: toVersionId });
+      const response = await fetch(`/api/configs/${configId}/versions/diff?${params.toString()}`);
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to compare versions");
+      }
+
+      setDiff(await response.json());
+    } catch (err: any) {
+      console.error("Error comparing versions:", err);
+      setError(err.message || "Failed to compare versions");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const changedFields = diff?.changes.filter((change) => change.changed) || [];
+
+  return (
+    <Dialog
+      onOpenChange={(open) => {
+        if (open && !diff && !isLoading) {
+          fetchDiff();
+        }
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <GitCompare className="h-4 w-4 mr-2" />
+          Compare
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Compare versions</DialogTitle>
+          <DialogDescription>
+            {diff
+              ? `Changes from v${diff.from.versionNumber} to v${diff.to.versionNumber}`
+              : "Loading changes between versions"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : diff && changedFields.length === 0 ? (
+          <p className="text-sm text-muted-foreground">These versions are identical.</p>
+        ) : diff ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-2 text-xs text-muted-foreground">
+              <div className="flex items-center gap-2">
+                <Badge variant="outline">v{diff.from.versionNumber}</Badge>
+                <span className="truncate">{diff.from.changeSummary}</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge variant="outline">v{diff.to.versionNumber}</Badge>
+                <span className="truncate">{diff.to.changeSummary}</span>
+              </div>
+            </div>
+            {changedFields.map((change) => (
+              <div key={change.field} className="space-y-1">
+                <h4 className="text-sm font-medium text-muted-foreground">{change.label}</h4>
+                <FieldDiffView diff={change} />
+              </div>
+            ))}
+          </div>
+        ) : null}
+      </DialogContent>
+    </Dialog>
+  );
+}
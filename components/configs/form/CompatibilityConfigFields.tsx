@@ -11,6 +11,8 @@ import { FormField, FormItem, FormLabel, FormControl, FormDescription, FormMessa
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
+import { MarkdownEditor } from "@/components/ui/markdown-editor";
+import { EnvVarsEditor } from "./EnvVarsEditor";
 import { type ConfigFormValues } from "@/lib/validations/config";
 import { 
   COMPAT_LAYER_PRESETS,
@@ -53,6 +55,22 @@ export function CompatibilityConfigFields({ form }: CompatibilityConfigFieldsPro
     }
   }, [form]);
 
+  // Switch to custom inputs when a value outside the presets is loaded (editing or importing)
+  const dxvkVersionValue = form.watch("details.dxvkVersion");
+  const vkd3dVersionValue = form.watch("details.vkd3dVersion");
+
+  useEffect(() => {
+    if (dxvkVersionValue && !DXVK_TRANSLATOR_PRESETS.some(preset => preset.value === dxvkVersionValue)) {
+      setIsCustomDxvkVersion(true);
+    }
+  }, [dxvkVersionValue]);
+
+  useEffect(() => {
+    if (vkd3dVersionValue && !VKD3D_TRANSLATOR_PRESETS.some(preset => preset.value === vkd3dVersionValue)) {
+      setIsCustomVkd3dVersion(true);
+    }
+  }, [vkd3dVersionValue]);
+
   return (
     <div className="space-y-6">
       <FormField
@@ -405,6 +423,23 @@ export function CompatibilityConfigFields({ form }: CompatibilityConfigFieldsPro
         )}
       />
 
+      <FormField
+        control={form.control}
+        name="details.envVars"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Environment Variables</FormLabel>
+            <FormControl>
+              <EnvVarsEditor value={field.value} onChange={field.onChange} />
+            </FormControl>
+            <FormDescription>
+              Optional environment variables for the game, e.g. Box64, DXVK or Wine options
+            </FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
       <FormField
         control={form.control}
         name="details.notes"
@@ -412,15 +447,15 @@ export function CompatibilityConfigFields({ form }: CompatibilityConfigFieldsPro
           <FormItem>
             <FormLabel>Additional Notes</FormLabel>
             <FormControl>
-              <textarea
-                className="flex min-h-[120px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+              <MarkdownEditor
+                className="min-h-[120px]"
                 placeholder="Add any additional notes, tips, or context about this configuration... translation params, etc."
                 {...field}
                 value={field.value || ''}
               />
             </FormControl>
             <FormDescription>
-              Optional notes about specific settings, Translation Params, or other details that might help
+              Optional notes about specific settings, Translation Params, or other details that might help. Supports Markdown lists, code blocks and links
             </FormDescription>
             <FormMessage />
           </FormItem>
@@ -19,10 +19,13 @@ import { toast } from "sonner";
 
 import { GeneralConfigFields } from "./GeneralConfigFields";
 import { CompatibilityConfigFields } from "./CompatibilityConfigFields";
+import { DeviceConfigFields } from "./DeviceConfigFields";
 import { ComponentsConfigFields } from "./ComponentsConfigFields";
 import { TagsConfigFields } from "./TagsConfigFields";
 import { SubmitButton } from "./SubmitButton";
+import { ImportSettingsDialog } from "./ImportSettingsDialog";
 import { configFormSchema, type ConfigFormValues } from "@/lib/validations/config";
+import { type ImportResult } from "@/lib/config-import";
 
 interface ConfigFormProps {
   gameId: string;
@@ -51,6 +54,7 @@ export function ConfigForm({
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
   const [activeTab, setActiveTab] = useState<string>("general");
   const [submitError, setSubmitError] = useState<string | null>(null);
+  const [importReport, setImportReport] = useState<ImportResult | null>(null);
 
   // Initialize form with default values
   const form = useForm<ConfigFormValues>({
@@ -77,10 +81,38 @@ export function ConfigForm({
         vramLimit: "No Limit",
         components: [],
         notes: "",
+        deviceModel: null,
+        soc: null,
+        gpuFamily: null,
+        ramGb: null,
+        androidVersion: null,
       },
     },
   });
 
+  /**
+   * Pre-fill the form with imported settings, keeping current values for anything not imported
+   * 
+   * @param result - Parsed settings and the mapping report
+   */
+  const onImport = (result: ImportResult): void => {
+    const current = form.getValues();
+    form.reset({
+      ...current,
+      gamehubVersion: result.values.gamehubVersion ?? current.gamehubVersion,
+      tags: result.values.tags ?? current.tags,
+      details: { ...current.details, ...result.values.details },
+    });
+
+    setImportReport(result);
+    setActiveTab("general");
+    toast.success("Settings imported", {
+      description: result.unmapped.length > 0
+        ? `${result.unmapped.length} field(s) could not be imported`
+        : "Review the settings before saving",
+    });
+  };
+
   /**
    * Handle form submission
    * 
@@ -161,8 +193,46 @@ export function ConfigForm({
             {isEditing ? "Editing configuration" : "Creating new configuration"}
           </p>
         </div>
+        {!isEditing && (
+          <div className="ml-auto">
+            <ImportSettingsDialog onImport={onImport} />
+          </div>
+        )}
       </div>
 
+      {/* Import Report */}
+      {importReport && (importReport.mapped.length > 0 || importReport.unmapped.length > 0) && (
+        <Alert>
+          <AlertTitle>Imported settings</AlertTitle>
+          <AlertDescription className="space-y-2">
+            {importReport.mapped.length > 0 && (
+              <div>
+                <p>Some values were matched to the closest available option:</p>
+                <ul className="list-disc pl-5">
+                  {importReport.mapped.map((field) => (
+                    <li key={field.field}>
+                      <span className="font-medium">{field.field}</span>: {field.from} → {field.to}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {importReport.unmapped.length > 0 && (
+              <div>
+                <p>These fields could not be imported:</p>
+                <ul className="list-disc pl-5">
+                  {importReport.unmapped.map((field) => (
+                    <li key={field.field}>
+                      <span className="font-medium">{field.field}</span>: {field.value} ({field.reason})
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Error Alert */}
       {submitError && (
         <Alert variant="destructive">
@@ -175,9 +245,10 @@ export function ConfigForm({
       <Form {...form}>
         <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
           <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-            <TabsList className="grid w-full grid-cols-4">
+            <TabsList className="grid w-full grid-cols-5">
               <TabsTrigger value="general">General</TabsTrigger>
               <TabsTrigger value="compatibility">Compatibility</TabsTrigger>
+              <TabsTrigger value="device">Device</TabsTrigger>
               <TabsTrigger value="components">Components</TabsTrigger>
               <TabsTrigger value="tags">Tags</TabsTrigger>
             </TabsList>
@@ -190,6 +261,10 @@ export function ConfigForm({
               <CompatibilityConfigFields form={form} />
             </TabsContent>
             
+            <TabsContent value="device" className="space-y-4 mt-6">
+              <DeviceConfigFields form={form} />
+            </TabsContent>
+            
             <TabsContent value="components" className="space-y-4 mt-6">
               <ComponentsConfigFields form={form} />
             </TabsContent>
@@ -243,7 +318,7 @@ export function ConfigForm({
                   type="button"
                   variant="outline"
                   onClick={() => {
-                    const tabs = ["general", "compatibility", "components", "tags"];
+                    const tabs = ["general", "compatibility", "device", "components", "tags"];
                     const currentIndex = tabs.indexOf(activeTab);
                     if (currentIndex > 0) {
                       setActiveTab(tabs[currentIndex - 1]);
@@ -258,7 +333,7 @@ export function ConfigForm({
                 <Button
                   type="button"
                   onClick={() => {
-                    const tabs = ["general", "compatibility", "components", "tags"];
+                    const tabs = ["general", "compatibility", "device", "components", "tags"];
                     const currentIndex = tabs.indexOf(activeTab);
                     if (currentIndex < tabs.length - 1) {
                       setActiveTab(tabs[currentIndex + 1]);
@@ -0,0 +1,253 @@
+/**
+ * DeviceConfigFields Component
+ * Handles the device profile the configuration was tested on
+ */
+
+import { UseFormReturn } from "react-hook-form";
+import { GpuFamily } from "@prisma/client";
+import { useState } from "react";
+
+import { FormField, FormItem, FormLabel, FormControl, FormDescription, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { type ConfigFormValues } from "@/lib/validations/config";
+import { useSavedDevices } from "@/hooks/use-saved-devices";
+import { ANDROID_VERSIONS, GPU_FAMILIES, SOC_PRESETS } from "@/lib/constants/config-presets";
+
+interface DeviceConfigFieldsProps {
+  form: UseFormReturn<ConfigFormValues>;
+}
+
+// Select values can't be empty, so unset fields use this value
+const NOT_SPECIFIED = "none";
+const CUSTOM_SOC = "custom";
+
+/**
+ * DeviceConfigFields component for the device section of the config form
+ * Every field is optional, saved devices fill in all of them at once
+ *
+ * @param props - Component props
+ * @returns React component
+ */
+export function DeviceConfigFields({ form }: DeviceConfigFieldsProps): JSX.Element {
+  const { devices } = useSavedDevices();
+
+  const socValue = form.watch("details.soc");
+  const [isCustomSoc, setIsCustomSoc] = useState<boolean>(
+    Boolean(socValue) && !SOC_PRESETS.some((preset) => preset.value === socValue)
+  );
+
+  /**
+   * Copies a saved device into the form
+   *
+   * @param deviceId - ID of the saved device
+   */
+  const applyDevice = (deviceId: string): void => {
+    const device = devices.find((saved) => saved.id === deviceId);
+    if (!device) return;
+
+    form.setValue("details.deviceModel", device.deviceModel);
+    form.setValue("details.soc", device.soc);
+    form.setValue("details.gpuFamily", device.gpuFamily);
+    form.setValue("details.ramGb", device.ramGb);
+    form.setValue("details.androidVersion", device.androidVersion);
+    setIsCustomSoc(!SOC_PRESETS.some((preset) => preset.value === device.soc));
+  };
+
+  return (
+    <div className="space-y-6">
+      {devices.length > 0 && (
+        <FormItem>
+          <FormLabel>Fill from a saved device</FormLabel>
+          <Select onValueChange={applyDevice}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select one of your devices" />
+            </SelectTrigger>
+            <SelectContent>
+              {devices.map((device) => (
+                <SelectItem key={device.id} value={device.id}>
+                  {device.deviceModel} ({device.soc})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FormDescription>
+            Devices are saved on your profile
+          </FormDescription>
+        </FormItem>
+      )}
+
+      <FormField
+        control={form.control}
+        name="details.deviceModel"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Device Model</FormLabel>
+            <FormControl>
+              <Input
+                placeholder="e.g., RedMagic 9 Pro"
+                value={field.value || ""}
+                onChange={field.onChange}
+                onBlur={field.onBlur}
+                name={field.name}
+                ref={field.ref}
+                maxLength={100}
+              />
+            </FormControl>
+            <FormDescription>
+              The phone or handheld the configuration was tested on
+            </FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={form.control}
+        name="details.soc"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>SoC</FormLabel>
+            <Select
+              onValueChange={(value) => {
+                if (value === CUSTOM_SOC) {
+                  setIsCustomSoc(true);
+                  field.onChange("");
+                  return;
+                }
+                setIsCustomSoc(false);
+                if (value === NOT_SPECIFIED) {
+                  field.onChange(null);
+                  return;
+                }
+                field.onChange(value);
+                const preset = SOC_PRESETS.find((soc) => soc.value === value);
+                if (preset) {
+                  form.setValue("details.gpuFamily", preset.gpuFamily as GpuFamily);
+                }
+              }}
+              value={isCustomSoc ? CUSTOM_SOC : (field.value || NOT_SPECIFIED)}
+            >
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select SoC" />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                <SelectItem value={NOT_SPECIFIED}>Not specified</SelectItem>
+                {SOC_PRESETS.map((preset) => (
+                  <SelectItem key={preset.value} value={preset.value}>
+                    {preset.label}
+                  </SelectItem>
+                ))}
+                <SelectItem value={CUSTOM_SOC}>Other</SelectItem>
+              </SelectContent>
+            </Select>
+            {isCustomSoc && (
+              <FormControl>
+                <Input
+                  placeholder="Enter SoC name"
+                  value={field.value || ""}
+                  onChange={field.onChange}
+                  className="mt-2"
+                  maxLength={100}
+                />
+              </FormControl>
+            )}
+            <FormDescription>
+              The chipset, configs are matched against other users&apos; devices by SoC
+            </FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={form.control}
+        name="details.gpuFamily"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>GPU Family</FormLabel>
+            <Select
+              onValueChange={(value) => field.onChange(value === NOT_SPECIFIED ? null : value as GpuFamily)}
+              value={field.value || NOT_SPECIFIED}
+            >
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select GPU family" />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                <SelectItem value={NOT_SPECIFIED}>Not specified</SelectItem>
+                {Object.entries(GPU_FAMILIES).map(([family, label]) => (
+                  <SelectItem key={family} value={family}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormDescription>
+              Filled in for known SoCs
+            </FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <FormField
+          control={form.control}
+          name="details.ramGb"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>RAM (GB)</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  min={1}
+                  max={64}
+                  placeholder="e.g., 12"
+                  value={field.value ?? ""}
+                  onChange={(e) => field.onChange(e.target.value === "" ? null : Number(e.target.value))}
+                  onBlur={field.onBlur}
+                  name={field.name}
+                  ref={field.ref}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="details.androidVersion"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Android Version</FormLabel>
+              <Select
+                onValueChange={(value) => field.onChange(value === NOT_SPECIFIED ? null : Number(value))}
+                value={field.value ? String(field.value) : NOT_SPECIFIED}
+              >
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select Android version" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value={NOT_SPECIFIED}>Not specified</SelectItem>
+                  {ANDROID_VERSIONS.map((version) => (
+                    <SelectItem key={version} value={String(version)}>
+                      Android {version}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+/**
+ * EnvVarsEditor Component
+ * Key/value editor for environment variables with a raw text mode for pasting
+ */
+
+import { useState, useEffect, useRef } from "react";
+import { FileText, List, Plus, Trash2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import { KNOWN_ENV_VARS } from "@/lib/constants/env-vars";
+import {
+  parseEnvVars,
+  serializeEnvVars,
+  validateEnvVarEntries,
+  getKnownEnvVar,
+  type EnvVarEntry,
+} from "@/lib/env-vars";
+
+interface EnvVarsEditorProps {
+  value: string | null | undefined;
+  onChange: (value: string) => void;
+}
+
+/**
+ * Whether the text has syntax errors that the table view cannot represent
+ */
+function hasSyntaxErrors(text: string | null | undefined): boolean {
+  return parseEnvVars(text).issues.some((issue) => issue.severity === "error" && issue.index === undefined);
+}
+
+/**
+ * Placeholder describing the expected value of a known variable
+ */
+function valuePlaceholder(key: string): string {
+  const known = getKnownEnvVar(key);
+  if (!known) return "Value";
+  switch (known.type) {
+    case "boolean":
+      return "0 or 1";
+    case "integer":
+      return known.min !== undefined && known.max !== undefined ? `${known.min}-${known.max}` : "Number";
+    case "enum":
+      return known.values?.join(" | ") || "Value";
+    default:
+      return "Value";
+  }
+}
+
+/**
+ * EnvVarsEditor component for editing envVars as key/value rows
+ *
+ * @param props - Component props
+ * @returns React component
+ */
+export function EnvVarsEditor({ value, onChange }: EnvVarsEditorProps): JSX.Element {
+  const [rows, setRows] = useState<EnvVarEntry[]>(() => parseEnvVars(value).entries);
+  // Start in text mode when existing text would lose content in the table
+  const [mode, setMode] = useState<"table" | "text">(() => (hasSyntaxErrors(value) ? "text" : "table"));
+  const lastValue = useRef<string>(value || "");
+
+  // Reload rows when the value changes from outside (form reset, import)
+  useEffect(() => {
+    if ((value || "") !== lastValue.current) {
+      lastValue.current = value || "";
+      setRows(parseEnvVars(value).entries);
+      if (hasSyntaxErrors(value)) setMode("text");
+    }
+  }, [value]);
+
+  /**
+   * Update rows and write the serialized text back to the form
+   *
+   * @param nextRows - Updated rows
+   */
+  const updateRows = (nextRows: EnvVarEntry[]): void => {
+    setRows(nextRows);
+    const text = serializeEnvVars(nextRows.filter((row) => row.key || row.value));
+    lastValue.current = text;
+    onChange(text);
+  };
+
+  const updateRow = (index: number, changes: Partial<EnvVarEntry>): void => {
+    updateRows(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  // Blank rows are still being filled in, so don't flag them
+  const rowIssues = validateEnvVarEntries(rows).filter(
+    (issue) => rows[issue.index!].key || rows[issue.index!].value
+  );
+  const textIssues = mode === "text" ? parseEnvVars(value).issues : [];
+  const canSwitchToTable = !hasSyntaxErrors(value);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-end">
+        {mode === "table" ? (
+          <Button type="button" variant="ghost" size="sm" onClick={() => setMode("text")}>
+            <FileText className="h-4 w-4 mr-2" />
+            Edit as text
+          </Button>
+        ) : (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            disabled={!canSwitchToTable}
+            onClick={() => {
+              setRows(parseEnvVars(value).entries);
+              setMode("table");
+            }}
+          >
+            <List className="h-4 w-4 mr-2" />
+            Edit as table
+          </Button>
+        )}
+      </div>
+
+      {mode === "text" ? (
+        <>
+          <Textarea
+            placeholder={"e.g., WINEDEBUG=-all\nDXVK_ASYNC=1"}
+            className="resize-y font-mono text-sm"
+            value={value || ""}
+            onChange={(e) => {
+              lastValue.current = e.target.value;
+              onChange(e.target.value);
+            }}
+          />
+          {textIssues.length > 0 && (
+            <ul className="space-y-1 text-sm">
+              {textIssues.map((issue, index) => (
+                <li
+                  key={index}
+                  className={issue.severity === "error" ? "text-destructive" : "text-amber-600 dark:text-amber-400"}
+                >
+                  {issue.line ? `Line ${issue.line}: ` : ""}{issue.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      ) : (
+        <>
+          {rows.length === 0 && (
+            <p className="text-sm text-muted-foreground">No environment variables set.</p>
+          )}
+
+          {rows.map((row, index) => {
+            const issues = rowIssues.filter((issue) => issue.index === index);
+            const known = getKnownEnvVar(row.key);
+
+            return (
+              <div key={index} className="space-y-1">
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="NAME"
+                    value={row.key}
+                    list="known-env-vars"
+                    onChange={(e) => updateRow(index, { key: e.target.value.trim() })}
+                    className={cn(
+                      "font-mono text-sm",
+                      issues.some((issue) => issue.severity === "error") && "border-destructive"
+                    )}
+                  />
+                  <Input
+                    placeholder={valuePlaceholder(row.key)}
+                    value={row.value}
+                    onChange={(e) => updateRow(index, { value: e.target.value })}
+                    className="font-mono text-sm"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => updateRows(rows.filter((_, i) => i !== index))}
+                    aria-label={`Remove ${row.key || "variable"}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                {known && (
+                  <p className="text-xs text-muted-foreground">
+                    {known.category}: {known.description}
+                  </p>
+                )}
+                {issues.map((issue, issueIndex) => (
+                  <p
+                    key={issueIndex}
+                    className={cn(
+                      "text-xs",
+                      issue.severity === "error" ? "text-destructive" : "text-amber-600 dark:text-amber-400"
+                    )}
+                  >
+                    {issue.message}
+                  </p>
+                ))}
+              </div>
+            );
+          })}
+
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setRows([...rows, { key: "", value: "" }])}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add variable
+          </Button>
+
+          <datalist id="known-env-vars">
+            {KNOWN_ENV_VARS.map((envVar) => (
+              <option key={envVar.name} value={envVar.name}>
+                {envVar.description}
+              </option>
+            ))}
+          </datalist>
+        </>
+      )}
+    </div>
+  );
+}
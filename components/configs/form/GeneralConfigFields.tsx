@@ -188,28 +188,6 @@ export function GeneralConfigFields({ form }: GeneralConfigFieldsProps): JSX.Ele
         )}
       />
 
-      <FormField
-        control={form.control}
-        name="details.envVars"
-        render={({ field }) => (
-          <FormItem>
-            <FormLabel>Environment Variables</FormLabel>
-            <FormControl>
-              <Textarea
-                placeholder="e.g., WINEDEBUG=-all"
-                className="resize-y"
-                {...field}
-                value={field.value || ""}
-              />
-            </FormControl>
-            <FormDescription>
-              Optional environment variables for the game (one per line)
-            </FormDescription>
-            <FormMessage />
-          </FormItem>
-        )}
-      />
-
       <FormField
         control={form.control}
         name="details.commandLine"
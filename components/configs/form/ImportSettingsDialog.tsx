@@ -0,0 +1,135 @@
+/**
+ * ImportSettingsDialog Component
+ * Lets users import an exported GameHub settings file or pasted JSON/INI into the config form
+ */
+
+import { useState, useRef, ChangeEvent } from "react";
+import { FileUp, Upload } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { importSettingsDocument, type ImportResult } from "@/lib/config-import";
+
+// Settings files are small; anything larger is not an exported document
+const MAX_FILE_SIZE = 256 * 1024;
+
+interface ImportSettingsDialogProps {
+  onImport: (result: ImportResult) => void;
+}
+
+/**
+ * ImportSettingsDialog component for loading settings into the config form
+ *
+ * @param props - Component props
+ * @returns React component
+ */
+export function ImportSettingsDialog({ onImport }: ImportSettingsDialogProps): JSX.Element {
+  const [open, setOpen] = useState<boolean>(false);
+  const [text, setText] = useState<string>("");
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  /**
+   * Loads the selected file into the text area
+   *
+   * @param e - Change event from file input
+   */
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    if (file.size > MAX_FILE_SIZE) {
+      setError("The selected file is too large to be a settings file.");
+      return;
+    }
+
+    setText(await file.text());
+    setError(null);
+  };
+
+  /**
+   * Parses the settings and hands the result to the form
+   */
+  const handleImport = (): void => {
+    try {
+      const result = importSettingsDocument(text);
+      onImport(result);
+      setOpen(false);
+      setText("");
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || "Failed to import settings");
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        setOpen(isOpen);
+        if (!isOpen) setError(null);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" size="sm">
+          <FileUp className="h-4 w-4 mr-2" />
+          Import settings
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Import settings</DialogTitle>
+          <DialogDescription>
+            Load a GameHub settings file (JSON or INI) exported from another configuration,
+            or paste its contents below.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <Button
+            type="button"
+            variant="secondary"
+            className="w-full"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            Choose file
+          </Button>
+          <input
+            type="file"
+            ref={fileInputRef}
+            onChange={handleFileChange}
+            accept=".json,.ini,.txt,application/json,text/plain"
+            className="hidden"
+          />
+          <Textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={"{\n  \"schema\": \"gamehub-config-settings\",\n  ...\n}"}
+            className="min-h-[200px] font-mono text-xs"
+          />
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleImport} disabled={!text.trim()}>
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -103,7 +103,7 @@ export function ConfigList({ configs, gameId, gameName }: ConfigListProps): JSX.
             </SelectContent>
           </Select>
           
-          <Button onClick={() => router.push(`/configs/new?steamId=${gameId}`)}>
+          <Button onClick={() => router.push(`/configs/new?gameId=${gameId}`)}>
             Create Config
           </Button>
         </div>
@@ -122,7 +122,7 @@ export function ConfigList({ configs, gameId, gameName }: ConfigListProps): JSX.
           <p className="text-muted-foreground mb-4">
             No configurations found for this game.
           </p>
-          <Button onClick={() => router.push(`/configs/new?steamId=${gameId}`)}>
+          <Button onClick={() => router.push(`/configs/new?gameId=${gameId}`)}>
             Create First Config
           </Button>
         </div>
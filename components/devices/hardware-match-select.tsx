@@ -0,0 +1,90 @@
+/**
+ * Hardware match select component
+ * Picks the hardware configs should have been tested on: the SoC of one of the user's saved
+ * devices, or any SoC with a given GPU family
+ */
+
+"use client";
+
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useSavedDevices } from "@/hooks/use-saved-devices";
+import { GPU_FAMILIES } from "@/lib/constants/config-presets";
+
+export interface HardwareMatch {
+  soc?: string;
+  gpuFamily?: string;
+}
+
+interface HardwareMatchSelectProps {
+  value: HardwareMatch;
+  onChange: (value: HardwareMatch) => void;
+  className?: string;
+}
+
+const ANY = "any";
+
+/**
+ * Encodes a match as a single select value
+ */
+function encode(value: HardwareMatch): string {
+  if (value.soc) return `soc:${value.soc}`;
+  if (value.gpuFamily) return `gpu:${value.gpuFamily}`;
+  return ANY;
+}
+
+/**
+ * Renders the select, saved devices are listed first when the user has any
+ */
+export function HardwareMatchSelect({ value, onChange, className }: HardwareMatchSelectProps) {
+  const { devices } = useSavedDevices();
+  const selected = encode(value);
+
+  // One entry per SoC, devices sharing a SoC would match the same configs
+  const socDevices = devices.filter((device, index) =>
+    devices.findIndex((other) => other.soc === device.soc) === index
+  );
+  // Keep a SoC picked from the URL selectable even when it isn't one of the user's devices
+  const showSelectedSoc = value.soc && !socDevices.some((device) => device.soc === value.soc);
+
+  const handleChange = (next: string): void => {
+    if (next.startsWith("soc:")) {
+      onChange({ soc: next.slice(4) });
+    } else if (next.startsWith("gpu:")) {
+      onChange({ gpuFamily: next.slice(4) });
+    } else {
+      onChange({});
+    }
+  };
+
+  return (
+    <Select value={selected} onValueChange={handleChange}>
+      <SelectTrigger className={className}>
+        <SelectValue placeholder="Any hardware" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ANY}>Any hardware</SelectItem>
+        {(socDevices.length > 0 || showSelectedSoc) && (
+          <SelectGroup>
+            <SelectLabel>Same SoC</SelectLabel>
+            {socDevices.map((device) => (
+              <SelectItem key={device.id} value={`soc:${device.soc}`}>
+                {device.deviceModel} ({device.soc})
+              </SelectItem>
+            ))}
+            {showSelectedSoc && (
+              <SelectItem value={selected}>{value.soc}</SelectItem>
+            )}
+          </SelectGroup>
+        )}
+        <SelectGroup>
+          <SelectLabel>Same GPU family</SelectLabel>
+          {Object.entries(GPU_FAMILIES).map(([family, label]) => (
+            <SelectItem key={family} value={`gpu:${family}`}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectGroup>
+      </SelectContent>
+    </Select>
+  );
+}
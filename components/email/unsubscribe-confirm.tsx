@@ -0,0 +1,63 @@
+/**
+ * Client-side unsubscribe confirmation button
+ * Unsubscribing only happens on this explicit click, so link scanners opening the email link
+ * don't unsubscribe anyone
+ */
+
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+
+interface UnsubscribeConfirmProps {
+  token: string;
+}
+
+/**
+ * Unsubscribes the token's owner and shows the result page
+ */
+export function UnsubscribeConfirm({ token }: UnsubscribeConfirmProps) {
+  const router = useRouter();
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+
+  const handleUnsubscribe = async (): Promise<void> => {
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(`/api/email/unsubscribe?token=${encodeURIComponent(token)}`, {
+        method: "POST",
+      });
+
+      if (response.status === 404) {
+        router.push("/unsubscribed?invalid=1");
+        return;
+      }
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to unsubscribe");
+      }
+
+      router.push("/unsubscribed");
+    } catch (error: any) {
+      console.error("Error unsubscribing:", error);
+      toast.error(error.message || "Failed to unsubscribe");
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Button onClick={handleUnsubscribe} disabled={isSubmitting}>
+      {isSubmitting ? (
+        <>
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          Unsubscribing...
+        </>
+      ) : (
+        "Unsubscribe"
+      )}
+    </Button>
+  );
+}
@@ -0,0 +1,158 @@
+/**
+ * Game compatibility summary component
+ * Shows the consensus of a game's configs: common layers and versions, vote-weighted
+ * recommended settings and how each GameHub version fares
+ */
+
+import { ThumbsUp, ThumbsDown } from "lucide-react";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { SUMMARY_SETTINGS } from "@/lib/constants/config-presets";
+import type { GameCompatibilitySummary, SettingShare } from "@/lib/services/game-summary-service";
+
+interface GameCompatibilitySummaryProps {
+  summary: GameCompatibilitySummary;
+  /** Whether the summary only covers configs tested on matching hardware */
+  isHardwareFiltered?: boolean;
+}
+
+/**
+ * Formats a share as a whole percentage
+ */
+function percent(share: number): string {
+  return `${Math.round(share * 100)}%`;
+}
+
+/**
+ * A highlighted setting with the share of configs using it
+ */
+function SummaryStat({ label, setting }: { label: string; setting: SettingShare | null }) {
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-muted-foreground">{label}</h4>
+      {setting ? (
+        <>
+          <p className="font-semibold">{setting.value}</p>
+          <p className="text-xs text-muted-foreground">
+            {setting.count} {setting.count === 1 ? "config" : "configs"} · {percent(setting.share)}
+          </p>
+        </>
+      ) : (
+        <p className="text-muted-foreground">Not enough data</p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Renders the summary cards, or a notice when the game has no configs yet
+ */
+export function GameCompatibilitySummaryView({ summary, isHardwareFiltered = false }: GameCompatibilitySummaryProps) {
+  if (summary.configCount === 0) {
+    return (
+      <Card>
+        <CardContent className="py-6">
+          <p className="text-muted-foreground text-center">
+            {isHardwareFiltered
+              ? "No configurations were tested on matching hardware yet."
+              : "No configurations yet, so there is no community consensus for this game."}
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <h3 className="text-lg font-semibold">Community Consensus</h3>
+          <p className="text-sm text-muted-foreground">
+            Based on {summary.configCount} {summary.configCount === 1 ? "configuration" : "configurations"}
+          </p>
+        </CardHeader>
+        <CardContent className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <SummaryStat label="Compatibility Layer" setting={summary.compatLayer} />
+          <SummaryStat label="DXVK Version" setting={summary.dxvkVersion} />
+          <SummaryStat label="Box64 Version" setting={summary.box64Version} />
+          <div>
+            <h4 className="text-sm font-medium text-muted-foreground">Median Resolution</h4>
+            <p className="font-semibold">{summary.medianResolution ?? "Not enough data"}</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <h3 className="text-lg font-semibold">Recommended Settings</h3>
+          <p className="text-sm text-muted-foreground">
+            The setting with the most support, weighted by votes on each configuration
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {SUMMARY_SETTINGS.map(({ field, label }) => {
+            const setting = summary.recommendedSettings[field];
+            if (!setting) return null;
+            return (
+              <div key={field} className="grid grid-cols-[minmax(0,1fr)_minmax(0,1fr)_4rem] items-center gap-3">
+                <span className="text-sm text-muted-foreground">{label}</span>
+                <span className="text-sm font-medium truncate" title={setting.value}>{setting.value}</span>
+                <div className="flex items-center gap-2" title={`${percent(setting.share)} of vote weight`}>
+                  <Progress value={setting.share * 100} className="h-2" />
+                </div>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <h3 className="text-lg font-semibold">By GameHub Version</h3>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Version</TableHead>
+                <TableHead className="text-right">Configs</TableHead>
+                <TableHead className="text-right">Votes</TableHead>
+                <TableHead className="text-right">Approval</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {summary.gamehubVersions.map((version) => {
+                const votes = version.upvotes + version.downvotes;
+                return (
+                  <TableRow key={version.version}>
+                    <TableCell className="font-medium">v{version.version}</TableCell>
+                    <TableCell className="text-right">{version.configCount}</TableCell>
+                    <TableCell className="text-right">
+                      <span className="inline-flex items-center gap-1">
+                        <ThumbsUp className="h-3 w-3 text-green-500" />
+                        {version.upvotes}
+                        <ThumbsDown className="h-3 w-3 ml-2 text-red-500" />
+                        {version.downvotes}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {votes > 0 ? percent(version.upvotes / votes) : "–"}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+/**
+ * Game hardware filter component
+ * Limits a game page's summary and configs to ones tested on matching hardware
+ */
+
+"use client";
+
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { HardwareMatchSelect, type HardwareMatch } from "@/components/devices/hardware-match-select";
+
+/**
+ * Renders the hardware select and keeps the choice in the ?soc= and ?gpuFamily= parameters
+ */
+export function GameHardwareFilter() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const value: HardwareMatch = {
+    soc: searchParams.get("soc") || undefined,
+    gpuFamily: searchParams.get("gpuFamily") || undefined,
+  };
+
+  const handleChange = (next: HardwareMatch): void => {
+    const params = new URLSearchParams(searchParams.toString());
+    params.delete("soc");
+    params.delete("gpuFamily");
+    if (next.soc) params.set("soc", next.soc);
+    if (next.gpuFamily) params.set("gpuFamily", next.gpuFamily);
+    const query = params.toString();
+    router.push(query ? `${pathname}?${query}` : pathname);
+  };
+
+  return (
+    <div className="flex items-center gap-3">
+      <span className="text-sm text-muted-foreground whitespace-nowrap">Tested on</span>
+      <HardwareMatchSelect value={value} onChange={handleChange} className="w-64" />
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+/**
+ * Game metadata component
+ * Shows the Steam store details of a game and the translation layer it needs
+ */
+
+import { Cpu, ShieldAlert } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { GRAPHICS_APIS } from "@/lib/constants/config-presets";
+import { cn } from "@/lib/utils";
+
+interface GameMetadataProps {
+  game: {
+    developers: string[];
+    releaseDate: Date | null;
+    genres: string[];
+    graphicsApis: string[];
+    antiCheat: string[];
+  };
+  className?: string;
+}
+
+/**
+ * Renders developer, release date and genres, plus badges for the required
+ * graphics APIs and any anti-cheat, which usually keeps a game from running
+ */
+export function GameMetadata({ game, className }: GameMetadataProps) {
+  const details = [
+    game.developers.join(", "),
+    game.releaseDate ? new Date(game.releaseDate).getUTCFullYear().toString() : "",
+    game.genres.join(", "),
+  ].filter(Boolean);
+
+  if (details.length === 0 && game.graphicsApis.length === 0 && game.antiCheat.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      {details.length > 0 && (
+        <p className="text-xs sm:text-sm text-muted-foreground">{details.join(" • ")}</p>
+      )}
+      <div className="flex flex-wrap gap-2">
+        {game.graphicsApis.map((api) => {
+          const info = GRAPHICS_APIS[api];
+          return (
+            <Badge
+              key={api}
+              variant="outline"
+              title={info?.layer ? `Runs through ${info.layer}` : undefined}
+            >
+              <Cpu className="h-3 w-3 mr-1" />
+              {info?.label ?? api}
+              {info?.layer && ` · needs ${info.layer}`}
+            </Badge>
+          );
+        })}
+        {game.antiCheat.map((name) => (
+          <Badge key={name} variant="destructive" title="Anti-cheat often blocks games from running in GameHub">
+            <ShieldAlert className="h-3 w-3 mr-1" />
+            {name}
+          </Badge>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+/**
+ * Game submission form component
+ * Adds a game that is not on Steam (GOG, Epic or a standalone installer) with optional cover art
+ */
+
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { GAME_SOURCES } from "@/lib/constants/config-presets";
+
+// Matches MAX_COVER_BYTES on the server
+const MAX_COVER_SIZE = 10 * 1024 * 1024;
+
+const SUBMITTABLE_SOURCES = ["GOG", "EPIC", "MANUAL"] as const;
+
+/**
+ * Renders the submission form
+ * Approved games go straight to the config form, others show a waiting-for-review message
+ */
+export function GameSubmissionForm() {
+  const router = useRouter();
+  const [source, setSource] = useState<(typeof SUBMITTABLE_SOURCES)[number]>("GOG");
+  const [externalId, setExternalId] = useState("");
+  const [name, setName] = useState("");
+  const [coverImage, setCoverImage] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState<{ id: string; name: string } | null>(null);
+
+  const idLabel = GAME_SOURCES[source].idLabel;
+
+  /**
+   * Reads the selected cover image as a data URL
+   */
+  const handleCoverChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) {
+      setCoverImage(null);
+      return;
+    }
+
+    if (file.size > MAX_COVER_SIZE) {
+      toast.error("File too large", {
+        description: "Please select an image smaller than 10MB."
+      });
+      e.target.value = "";
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      setCoverImage(reader.result as string);
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch("/api/games", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          source,
+          externalId: idLabel ? externalId.trim() : undefined,
+          name: name.trim(),
+          coverImage: coverImage ?? undefined,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to submit game");
+      }
+
+      if (data.status === "APPROVED") {
+        router.push(`/configs/new?gameId=${data.id}`);
+        return;
+      }
+
+      setSubmitted({ id: data.id, name: data.name });
+      toast.success("Game submitted", {
+        description: "A moderator will review it shortly."
+      });
+    } catch (err: any) {
+      console.error("Error submitting game:", err);
+      toast.error("Game submission failed", {
+        description: err.message || "Failed to submit game"
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (submitted) {
+    return (
+      <p className="text-sm text-muted-foreground text-center">
+        {submitted.name} has been submitted. Once a moderator approves it, you can{" "}
+        <Link href={`/configs/new?gameId=${submitted.id}`} className="underline">
+          post a configuration for it
+        </Link>
+        .
+      </p>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="game-source">Store</Label>
+        <Select value={source} onValueChange={(value) => setSource(value as typeof source)}>
+          <SelectTrigger id="game-source">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SUBMITTABLE_SOURCES.map((value) => (
+              <SelectItem key={value} value={value}>
+                {GAME_SOURCES[value].label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {idLabel && (
+        <div className="space-y-2">
+          <Label htmlFor="game-external-id">{idLabel}</Label>
+          <Input
+            id="game-external-id"
+            value={externalId}
+            onChange={(e) => setExternalId(e.target.value)}
+            placeholder={source === "GOG" ? "e.g. 1207658924" : "e.g. fn:4fe75bbc5a674f4f9b356b5c90567da5"}
+            disabled={isSubmitting}
+            required
+          />
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="game-name">Name</Label>
+        <Input
+          id="game-name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={200}
+          disabled={isSubmitting}
+          required
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="game-cover">Cover image (optional)</Label>
+        <Input
+          id="game-cover"
+          type="file"
+          accept="image/jpeg,image/png,image/gif,image/webp"
+          onChange={handleCoverChange}
+          disabled={isSubmitting}
+        />
+      </div>
+
+      <Button type="submit" disabled={isSubmitting} className="w-full">
+        {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : "Submit Game"}
+      </Button>
+    </form>
+  );
+}
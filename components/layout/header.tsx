@@ -12,6 +12,8 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { avatarUrl } from '@/lib/utils';
+import { NotificationBell } from './notification-bell';
 
 // Define extended user type to include the properties we need
 interface ExtendedUser {
@@ -76,13 +78,14 @@ export function Header() {
             </Button>
           </nav>
           <nav className="flex items-center space-x-2">
+            {isAuthenticated && <NotificationBell />}
             {isAuthenticated ? (
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
                   <Button variant="ghost" className="relative h-8 w-8 rounded-full">
                     <Avatar className="h-8 w-8">
                       <AvatarImage 
-                        src={session?.user?.image || ''} 
+                        src={avatarUrl(session?.user?.image, 'small')} 
                         alt={(session?.user as ExtendedUser)?.displayUsername || 
                              (session?.user as ExtendedUser)?.username || 
                              'User'} 
@@ -0,0 +1,180 @@
+"use client"
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Bell } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { cn } from '@/lib/utils';
+
+// How often the unread count is refreshed while the page is open
+const POLL_INTERVAL_MS = 60_000;
+
+interface NotificationItem {
+  id: string;
+  type: 'COMMENT' | 'REPLY' | 'MENTION' | 'CONFIG_VOTE' | 'COMMENT_VOTE' | 'REVERT';
+  readAt: string | null;
+  createdAt: string;
+  configId: string | null;
+  commentId: string | null;
+  actor: { id: string; username: string; image: string | null } | null;
+  config: { id: string; game: { name: string } } | null;
+}
+
+/**
+ * Describes a notification in one sentence
+ */
+function describeNotification(notification: NotificationItem): string {
+  const actor = notification.actor ? `@${notification.actor.username}` : 'Someone';
+  const game = notification.config?.game.name || 'a game';
+
+  switch (notification.type) {
+    case 'COMMENT':
+      return `${actor} commented on your ${game} config`;
+    case 'REPLY':
+      return `${actor} replied to your comment on ${game}`;
+    case 'MENTION':
+      return `${actor} mentioned you in a comment on ${game}`;
+    case 'CONFIG_VOTE':
+      return `${actor} upvoted your ${game} config`;
+    case 'COMMENT_VOTE':
+      return `${actor} upvoted your comment on ${game}`;
+    case 'REVERT':
+      return `${actor} reverted your ${game} config to an earlier version`;
+  }
+}
+
+/**
+ * Page a notification links to, comments are anchored on the config page
+ */
+function notificationHref(notification: NotificationItem): string {
+  if (!notification.configId) return '/';
+  return notification.commentId
+    ? `/configs/${notification.configId}#comment-${notification.commentId}`
+    : `/configs/${notification.configId}`;
+}
+
+/**
+ * Bell icon with the unread notification count and a dropdown of recent notifications
+ */
+export function NotificationBell() {
+  const router = useRouter();
+  const [notifications, setNotifications] = useState<NotificationItem[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      const response = await fetch('/api/notifications?limit=10&cursor=');
+      if (!response.ok) return;
+      const data = await response.json();
+      setNotifications(data.notifications);
+      setUnreadCount(data.unreadCount);
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchNotifications();
+    const interval = setInterval(fetchNotifications, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchNotifications]);
+
+  /**
+   * Marks notifications as read, updating the list optimistically
+   */
+  const markRead = async (body: { ids: string[] } | { all: true }) => {
+    const ids = 'ids' in body ? body.ids : null;
+    const readAt = new Date().toISOString();
+    setNotifications((prev) =>
+      prev.map((notification) =>
+        !notification.readAt && (!ids || ids.includes(notification.id)) ? { ...notification, readAt } : notification
+      )
+    );
+    setUnreadCount((prev) => (ids ? Math.max(0, prev - ids.length) : 0));
+
+    try {
+      await fetch('/api/notifications', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+      fetchNotifications();
+    }
+  };
+
+  const handleSelect = (notification: NotificationItem) => {
+    if (!notification.readAt) {
+      markRead({ ids: [notification.id] });
+    }
+    router.push(notificationHref(notification));
+  };
+
+  return (
+    <DropdownMenu onOpenChange={(open) => open && fetchNotifications()}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative h-8 w-8">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -right-1 -top-1 flex h-4 min-w-[1rem] items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-medium text-destructive-foreground">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+          <span className="sr-only">
+            {unreadCount > 0 ? `${unreadCount} unread notifications` : 'Notifications'}
+          </span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-80" align="end">
+        <DropdownMenuLabel className="flex items-center justify-between font-normal">
+          <span className="text-sm font-medium">Notifications</span>
+          {unreadCount > 0 && (
+            <button
+              type="button"
+              className="text-xs text-muted-foreground hover:text-foreground"
+              onClick={() => markRead({ all: true })}
+            >
+              Mark all as read
+            </button>
+          )}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-6 text-center text-sm text-muted-foreground">No notifications yet</p>
+        ) : (
+          notifications.map((notification) => (
+            <DropdownMenuItem
+              key={notification.id}
+              onClick={() => handleSelect(notification)}
+              className="cursor-pointer items-start gap-2"
+            >
+              <span
+                className={cn(
+                  'mt-1.5 h-2 w-2 shrink-0 rounded-full',
+                  notification.readAt ? 'bg-transparent' : 'bg-primary'
+                )}
+              />
+              <div className="flex flex-col space-y-1">
+                <span className={cn('text-sm', !notification.readAt && 'font-medium')}>
+                  {describeNotification(notification)}
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                </span>
+              </div>
+            </DropdownMenuItem>
+          ))
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
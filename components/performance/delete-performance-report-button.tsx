@@ -0,0 +1,54 @@
+/**
+ * Client-side button for deleting a performance report
+ */
+
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+
+interface DeletePerformanceReportButtonProps {
+  configId: string;
+  reportId: string;
+}
+
+/**
+ * Deletes the report and refreshes the page
+ * Shown to the report author and to admins/moderators
+ */
+export function DeletePerformanceReportButton({ configId, reportId }: DeletePerformanceReportButtonProps) {
+  const router = useRouter();
+  const [isDeleting, setIsDeleting] = useState<boolean>(false);
+
+  const handleDelete = async (): Promise<void> => {
+    setIsDeleting(true);
+    try {
+      const response = await fetch(`/api/configs/${configId}/performance/${reportId}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to delete performance report");
+      }
+
+      toast.success("Performance report deleted");
+      router.refresh();
+    } catch (error: any) {
+      console.error("Error deleting performance report:", error);
+      toast.error(error.message || "Failed to delete performance report");
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={handleDelete} disabled={isDeleting}>
+      {isDeleting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+      <span className="sr-only">Delete report</span>
+    </Button>
+  );
+}
@@ -0,0 +1,229 @@
+/**
+ * Client-side performance report form component
+ * Logs how a config version runs: playability, FPS, resolution and the device it ran on
+ */
+
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useSavedDevices } from "@/hooks/use-saved-devices";
+import { PLAYABILITY_RATINGS } from "@/lib/constants/config-presets";
+import { type PerformanceReportInput } from "@/lib/validations/config";
+
+const NO_DEVICE = "none";
+
+interface PerformanceReportFormProps {
+  configId: string;
+  /** Version numbers of the config, newest first */
+  versionNumbers: number[];
+  /** Resolution the config is set up for, used as the default */
+  defaultResolution?: string;
+}
+
+/**
+ * Client component for submitting a performance report
+ * Reporting a version again replaces the user's earlier report for it
+ */
+export function PerformanceReportForm({ configId, versionNumbers, defaultResolution = "" }: PerformanceReportFormProps) {
+  const router = useRouter();
+  const { devices } = useSavedDevices();
+  const [versionNumber, setVersionNumber] = useState<string>(versionNumbers[0]?.toString() ?? "");
+  const [playability, setPlayability] = useState<string>("");
+  const [avgFps, setAvgFps] = useState<string>("");
+  const [onePercentLowFps, setOnePercentLowFps] = useState<string>("");
+  const [resolution, setResolution] = useState<string>(defaultResolution);
+  const [deviceId, setDeviceId] = useState<string>(NO_DEVICE);
+  const [notes, setNotes] = useState<string>("");
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+
+  const canSubmit = Boolean(playability && avgFps && resolution.trim());
+
+  /**
+   * Handle report form submission
+   */
+  const handleSubmit = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
+    setIsSubmitting(true);
+
+    try {
+      const device = devices.find((saved) => saved.id === deviceId);
+      const reportData = {
+        versionNumber: versionNumber ? Number(versionNumber) : undefined,
+        playability: playability as PerformanceReportInput["playability"],
+        avgFps: Number(avgFps),
+        onePercentLowFps: onePercentLowFps ? Number(onePercentLowFps) : null,
+        resolution: resolution.trim(),
+        notes: notes.trim() || null,
+        deviceModel: device?.deviceModel ?? null,
+        soc: device?.soc ?? null,
+        gpuFamily: device?.gpuFamily ?? null,
+        ramGb: device?.ramGb ?? null,
+        androidVersion: device?.androidVersion ?? null,
+      };
+
+      const response = await fetch(`/api/configs/${configId}/performance`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(reportData),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.issues?.[0]?.message || errorData.error || "Failed to save performance report");
+      }
+
+      setAvgFps("");
+      setOnePercentLowFps("");
+      setNotes("");
+      toast.success("Performance report saved");
+      router.refresh();
+    } catch (error: any) {
+      console.error("Error saving performance report:", error);
+      toast.error(error.message || "Failed to save performance report");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="performance-playability">Playability</Label>
+          <Select value={playability} onValueChange={setPlayability}>
+            <SelectTrigger id="performance-playability">
+              <SelectValue placeholder="How well does it run?" />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(PLAYABILITY_RATINGS).map(([rating, { label, description }]) => (
+                <SelectItem key={rating} value={rating}>
+                  {label} – {description}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="performance-version">Config version</Label>
+          <Select value={versionNumber} onValueChange={setVersionNumber}>
+            <SelectTrigger id="performance-version">
+              <SelectValue placeholder="Current version" />
+            </SelectTrigger>
+            <SelectContent>
+              {versionNumbers.map((number, index) => (
+                <SelectItem key={number} value={number.toString()}>
+                  Version {number}{index === 0 ? " (current)" : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="performance-avg-fps">Average FPS</Label>
+          <Input
+            id="performance-avg-fps"
+            type="number"
+            min={0}
+            max={1000}
+            step="0.1"
+            value={avgFps}
+            onChange={(e) => setAvgFps(e.target.value)}
+            disabled={isSubmitting}
+            required
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="performance-low-fps">1% low FPS (optional)</Label>
+          <Input
+            id="performance-low-fps"
+            type="number"
+            min={0}
+            max={1000}
+            step="0.1"
+            value={onePercentLowFps}
+            onChange={(e) => setOnePercentLowFps(e.target.value)}
+            disabled={isSubmitting}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="performance-resolution">Resolution</Label>
+          <Input
+            id="performance-resolution"
+            value={resolution}
+            onChange={(e) => setResolution(e.target.value)}
+            placeholder="e.g. 1280x720"
+            disabled={isSubmitting}
+            required
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="performance-device">Device</Label>
+          <Select value={deviceId} onValueChange={setDeviceId}>
+            <SelectTrigger id="performance-device">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_DEVICE}>Not specified</SelectItem>
+              {devices.map((device) => (
+                <SelectItem key={device.id} value={device.id}>
+                  {device.deviceModel} ({device.soc})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {devices.length === 0 && (
+            <p className="text-xs text-muted-foreground">
+              Save your devices on your profile to attach them to reports
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="performance-notes">Notes (optional)</Label>
+        <Textarea
+          id="performance-notes"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          maxLength={500}
+          placeholder="Stutters, glitches, what helped..."
+          disabled={isSubmitting}
+        />
+      </div>
+
+      <div className="flex justify-end">
+        <Button type="submit" disabled={isSubmitting || !canSubmit}>
+          {isSubmitting ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            "Submit Report"
+          )}
+        </Button>
+      </div>
+    </form>
+  );
+}
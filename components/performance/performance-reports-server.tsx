@@ -0,0 +1,177 @@
+/**
+ * Server-side performance reports component
+ * Shows the aggregated FPS and playability of a config and the reports behind them
+ */
+
+import { headers } from "next/headers";
+import { formatDistanceToNow } from "date-fns";
+import { Gauge } from "lucide-react";
+import { auth } from "@/lib/auth";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { VerifyEmailNotice } from "@/components/sign/verify-email-notice";
+import { GPU_FAMILIES, PLAYABILITY_RATINGS } from "@/lib/constants/config-presets";
+import { getPerformanceReports, getPerformanceSummary } from "@/lib/services/performance-report-service";
+import { PerformanceReportForm } from "./performance-report-form";
+import { DeletePerformanceReportButton } from "./delete-performance-report-button";
+
+interface PerformanceReportsServerProps {
+  configId: string;
+  /** Version numbers of the config, newest first */
+  versionNumbers: number[];
+  defaultResolution?: string;
+}
+
+/**
+ * Formats an FPS value, or a dash when there is none
+ */
+function formatFps(fps: number | null): string {
+  return fps === null ? "–" : `${Math.round(fps * 10) / 10} FPS`;
+}
+
+/**
+ * Server component that renders the performance summary, the report form and the latest reports
+ */
+export async function PerformanceReportsServer({ configId, versionNumbers, defaultResolution }: PerformanceReportsServerProps) {
+  const session = await auth.api.getSession({
+    headers: headers()
+  });
+
+  const [summary, { items: reports }] = await Promise.all([
+    getPerformanceSummary(configId),
+    getPerformanceReports(configId, 1, 20),
+  ]);
+
+  const canModerate = session?.user?.role === "ADMIN" || session?.user?.role === "MODERATOR";
+
+  return (
+    <div className="space-y-6">
+      {summary.reportCount > 0 && (
+        <div className="space-y-6">
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div>
+              <h4 className="text-sm font-medium text-muted-foreground">Playability</h4>
+              <p className="font-semibold">
+                {summary.topPlayability ? PLAYABILITY_RATINGS[summary.topPlayability].label : "–"}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {summary.reportCount} {summary.reportCount === 1 ? "report" : "reports"}
+              </p>
+            </div>
+            <div>
+              <h4 className="text-sm font-medium text-muted-foreground">Median average</h4>
+              <p className="font-semibold">{formatFps(summary.medianAvgFps)}</p>
+            </div>
+            <div>
+              <h4 className="text-sm font-medium text-muted-foreground">Median 1% low</h4>
+              <p className="font-semibold">{formatFps(summary.medianOnePercentLowFps)}</p>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {Object.entries(PLAYABILITY_RATINGS).map(([rating, { label }]) => {
+              const count = summary.playability[rating as keyof typeof summary.playability];
+              return (
+                <div key={rating} className="flex items-center gap-3 text-sm">
+                  <span className="w-20">{label}</span>
+                  <Progress value={(count / summary.reportCount) * 100} className="flex-1" />
+                  <span className="w-8 text-right text-muted-foreground">{count}</span>
+                </div>
+              );
+            })}
+          </div>
+
+          {summary.versions.length > 1 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Reports</TableHead>
+                  <TableHead>Playability</TableHead>
+                  <TableHead>Median FPS</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {summary.versions.map((version) => (
+                  <TableRow key={version.versionNumber}>
+                    <TableCell>Version {version.versionNumber}</TableCell>
+                    <TableCell>{version.reportCount}</TableCell>
+                    <TableCell>
+                      {version.topPlayability ? PLAYABILITY_RATINGS[version.topPlayability].label : "–"}
+                    </TableCell>
+                    <TableCell>{formatFps(version.medianAvgFps)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      )}
+
+      {/* Report form for logged in users, unverified users get a prompt instead */}
+      {session?.user && (
+        session.user.emailVerified ? (
+          <PerformanceReportForm
+            configId={configId}
+            versionNumbers={versionNumbers}
+            defaultResolution={defaultResolution}
+          />
+        ) : (
+          <VerifyEmailNotice action="report performance" />
+        )
+      )}
+
+      {reports.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-10 text-center">
+          <Gauge className="h-10 w-10 text-muted-foreground mb-2" />
+          <p className="text-muted-foreground">No performance reports yet</p>
+          <p className="text-sm text-muted-foreground mt-1">
+            {session?.user ? "Tried this configuration? Share how it ran." : "Sign in to report how this configuration runs"}
+          </p>
+        </div>
+      ) : (
+        <ul className="divide-y">
+          {reports.map((report) => (
+            <li key={report.id} className="py-4 space-y-1">
+              <div className="flex items-start justify-between gap-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="secondary">{PLAYABILITY_RATINGS[report.playability].label}</Badge>
+                  <span className="font-medium">{formatFps(report.avgFps)}</span>
+                  {report.onePercentLowFps !== null && (
+                    <span className="text-sm text-muted-foreground">
+                      1% low {formatFps(report.onePercentLowFps)}
+                    </span>
+                  )}
+                  <span className="text-sm text-muted-foreground">at {report.resolution}</span>
+                </div>
+                {(report.userId === session?.user?.id || canModerate) && (
+                  <DeletePerformanceReportButton configId={configId} reportId={report.id} />
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {report.user.username || report.user.name} · Version {report.versionNumber}
+                {report.deviceModel && ` · ${report.deviceModel}`}
+                {report.soc && ` (${report.soc}${report.gpuFamily ? `, ${GPU_FAMILIES[report.gpuFamily]}` : ""})`}
+                {report.ramGb && ` · ${report.ramGb} GB RAM`}
+                {report.androidVersion && ` · Android ${report.androidVersion}`}
+                {" · "}
+                {formatDistanceToNow(new Date(report.createdAt), { addSuffix: true })}
+              </p>
+              {report.notes && (
+                <p className="text-sm whitespace-pre-line">{report.notes}</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
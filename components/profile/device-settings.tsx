@@ -0,0 +1,259 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, Plus, Smartphone, Trash2 } from "lucide-react";
+import { GpuFamily } from "@prisma/client";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useSavedDevices } from "@/hooks/use-saved-devices";
+import { ANDROID_VERSIONS, GPU_FAMILIES, SOC_PRESETS } from "@/lib/constants/config-presets";
+
+const CUSTOM_SOC = "custom";
+
+/**
+ * Component for managing the devices saved on the user's profile
+ * Saved devices fill in config device profiles and filter configs by matching hardware
+ * Shown on the user's own profile
+ */
+export function DeviceSettings() {
+  const { devices, isLoading, reload } = useSavedDevices();
+  const { toast } = useToast();
+  const [isAdding, setIsAdding] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [deviceModel, setDeviceModel] = useState("");
+  const [socPreset, setSocPreset] = useState("");
+  const [customSoc, setCustomSoc] = useState("");
+  const [gpuFamily, setGpuFamily] = useState<GpuFamily | "">("");
+  const [ramGb, setRamGb] = useState("");
+  const [androidVersion, setAndroidVersion] = useState("");
+
+  const soc = socPreset === CUSTOM_SOC ? customSoc.trim() : socPreset;
+  const canSave = Boolean(deviceModel.trim() && soc && gpuFamily && ramGb && androidVersion);
+
+  /**
+   * Picks a SoC, filling in the GPU family of known ones
+   *
+   * @param value - Preset value or CUSTOM_SOC
+   */
+  const handleSocChange = (value: string) => {
+    setSocPreset(value);
+    const preset = SOC_PRESETS.find((option) => option.value === value);
+    if (preset) {
+      setGpuFamily(preset.gpuFamily as GpuFamily);
+    }
+  };
+
+  const resetForm = () => {
+    setDeviceModel("");
+    setSocPreset("");
+    setCustomSoc("");
+    setGpuFamily("");
+    setRamGb("");
+    setAndroidVersion("");
+    setIsAdding(false);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+
+    try {
+      const response = await fetch("/api/users/devices", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          deviceModel: deviceModel.trim(),
+          soc,
+          gpuFamily,
+          ramGb: Number(ramGb),
+          androidVersion: Number(androidVersion),
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to save device");
+      }
+
+      toast({
+        title: "Device saved",
+        description: "You can now use it when posting configs and filtering by hardware.",
+      });
+      resetForm();
+      await reload();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save device",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /**
+   * Removes a saved device
+   *
+   * @param deviceId - ID of the device to remove
+   */
+  const handleDelete = async (deviceId: string) => {
+    try {
+      const response = await fetch(`/api/users/devices/${deviceId}`, { method: "DELETE" });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to remove device");
+      }
+      await reload();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to remove device",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="w-full mt-6">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Smartphone className="h-4 w-4" />
+          My devices
+        </CardTitle>
+        <CardDescription>
+          Fill in device profiles and find configs tested on your hardware
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading && devices.length === 0 ? (
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        ) : devices.length === 0 && !isAdding ? (
+          <p className="text-sm text-muted-foreground">No devices saved yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {devices.map((device) => (
+              <li key={device.id} className="flex items-start justify-between gap-2 text-sm">
+                <div>
+                  <p className="font-medium">{device.deviceModel}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {device.soc} • {device.ramGb} GB • Android {device.androidVersion}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => handleDelete(device.id)}
+                  aria-label={`Remove ${device.deviceModel}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {isAdding ? (
+          <form onSubmit={handleSave} className="space-y-3 pt-2">
+            <div className="space-y-1">
+              <Label htmlFor="device-model">Device model</Label>
+              <Input
+                id="device-model"
+                value={deviceModel}
+                onChange={(e) => setDeviceModel(e.target.value)}
+                placeholder="e.g., RedMagic 9 Pro"
+                maxLength={100}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="device-soc">SoC</Label>
+              <Select value={socPreset} onValueChange={handleSocChange}>
+                <SelectTrigger id="device-soc">
+                  <SelectValue placeholder="Select SoC" />
+                </SelectTrigger>
+                <SelectContent>
+                  {SOC_PRESETS.map((preset) => (
+                    <SelectItem key={preset.value} value={preset.value}>
+                      {preset.label}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={CUSTOM_SOC}>Other</SelectItem>
+                </SelectContent>
+              </Select>
+              {socPreset === CUSTOM_SOC && (
+                <Input
+                  value={customSoc}
+                  onChange={(e) => setCustomSoc(e.target.value)}
+                  placeholder="Enter SoC name"
+                  maxLength={100}
+                />
+              )}
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="device-gpu">GPU family</Label>
+              <Select value={gpuFamily} onValueChange={(value) => setGpuFamily(value as GpuFamily)}>
+                <SelectTrigger id="device-gpu">
+                  <SelectValue placeholder="Select GPU family" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(GPU_FAMILIES).map(([family, label]) => (
+                    <SelectItem key={family} value={family}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="device-ram">RAM (GB)</Label>
+                <Input
+                  id="device-ram"
+                  type="number"
+                  min={1}
+                  max={64}
+                  value={ramGb}
+                  onChange={(e) => setRamGb(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="device-android">Android</Label>
+                <Select value={androidVersion} onValueChange={setAndroidVersion}>
+                  <SelectTrigger id="device-android">
+                    <SelectValue placeholder="Version" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ANDROID_VERSIONS.map((version) => (
+                      <SelectItem key={version} value={String(version)}>
+                        Android {version}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" size="sm" onClick={resetForm} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button type="submit" size="sm" disabled={!canSave || isSaving}>
+                {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save device"}
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <Button variant="outline" size="sm" className="w-full" onClick={() => setIsAdding(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add device
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
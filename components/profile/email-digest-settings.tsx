@@ -0,0 +1,112 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Mail } from "lucide-react";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+
+type DigestFrequency = "NONE" | "DAILY" | "WEEKLY";
+
+const FREQUENCY_OPTIONS: { value: DigestFrequency; label: string }[] = [
+  { value: "NONE", label: "Off" },
+  { value: "DAILY", label: "Daily" },
+  { value: "WEEKLY", label: "Weekly" },
+];
+
+/**
+ * Component for choosing how often to receive activity digest emails
+ * Shown on the user's own profile
+ */
+export function EmailDigestSettings() {
+  const [frequency, setFrequency] = useState<DigestFrequency | null>(null);
+  const [hasEmail, setHasEmail] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetch("/api/users/email-preferences")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (!data) return;
+        setFrequency(data.digestFrequency);
+        setHasEmail(data.hasEmail);
+      })
+      .catch((error) => console.error("Error fetching email preferences:", error));
+  }, []);
+
+  /**
+   * Saves the selected frequency
+   *
+   * @param value - New digest frequency
+   */
+  const handleChange = async (value: DigestFrequency) => {
+    const previous = frequency;
+    setFrequency(value);
+    setIsSaving(true);
+
+    try {
+      const response = await fetch("/api/users/email-preferences", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ digestFrequency: value }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to update email preferences");
+      }
+
+      toast({
+        title: "Email preferences saved",
+        description: value === "NONE" ? "Activity digests are turned off." : `You will get a ${value.toLowerCase()} activity digest.`,
+      });
+    } catch (error) {
+      setFrequency(previous);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update email preferences",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="w-full mt-6">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Mail className="h-4 w-4" />
+          Email digest
+        </CardTitle>
+        <CardDescription>
+          New comments, votes and resolved reports on your configs
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {hasEmail ? (
+          <Select
+            value={frequency ?? undefined}
+            onValueChange={(value) => handleChange(value as DigestFrequency)}
+            disabled={frequency === null || isSaving}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Loading..." />
+            </SelectTrigger>
+            <SelectContent>
+              {FREQUENCY_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <p className="text-sm text-muted-foreground">Add an email address to your account to receive digests.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
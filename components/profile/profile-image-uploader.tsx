@@ -77,9 +77,6 @@ export function ProfileImageUploader({ onSuccess, onCancel }: ProfileImageUpload
     try {
       setIsUploading(true);
       
-      // Get file extension from data URL
-      const fileExtension = selectedImage.split(';')[0].split('/')[1];
-      
       // Send the image data to the server
       const response = await fetch('/api/users/profile-image', {
         method: 'POST',
@@ -88,7 +85,6 @@ export function ProfileImageUploader({ onSuccess, onCancel }: ProfileImageUpload
         },
         body: JSON.stringify({
           imageData: selectedImage,
-          fileExtension,
         }),
       });
       
@@ -93,13 +93,13 @@ export default function SignUp() {
 									password,
 									username,
 									name: username, // Use username as name since we removed first/last name fields
-									callbackURL: "/search/configs",
+									callbackURL: "/email-verified", // Where the verification link lands
 									fetchOptions: {
 										onError: (ctx) => {
 											toast.error(ctx.error.message);
 										},
 										onSuccess: async () => {
-											toast.success("Account created successfully!");
+											toast.success("Account created! Check your email to verify your address.");
 											router.push("/search/configs");
 										},
 									},
@@ -0,0 +1,55 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, MailWarning } from "lucide-react";
+import { toast } from "sonner";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+interface VerifyEmailNoticeProps {
+	/** What the user is trying to do, e.g. "comment" */
+	action?: string;
+	className?: string;
+}
+
+/**
+ * Notice shown to unverified users in place of posting forms
+ * Lets them request a new verification link
+ */
+export function VerifyEmailNotice({ action = "post", className }: VerifyEmailNoticeProps) {
+	const [loading, setLoading] = useState(false);
+	const [sent, setSent] = useState(false);
+
+	const handleResend = async () => {
+		try {
+			setLoading(true);
+			const response = await fetch("/api/users/verification-email", { method: "POST" });
+			const data = await response.json();
+
+			if (!response.ok) {
+				throw new Error(data.error || "Failed to send verification email");
+			}
+
+			setSent(true);
+			toast.success("Verification email sent. Check your inbox.");
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : "Failed to send verification email");
+		} finally {
+			setLoading(false);
+		}
+	};
+
+	return (
+		<Alert className={cn(className)}>
+			<MailWarning className="h-4 w-4" />
+			<AlertTitle>Verify your email address</AlertTitle>
+			<AlertDescription className="space-y-3">
+				<p>You need to verify your email address before you can {action}. Check your inbox for the link we sent when you signed up.</p>
+				<Button size="sm" variant="outline" onClick={handleResend} disabled={loading || sent}>
+					{loading ? <Loader2 className="h-4 w-4 animate-spin" /> : sent ? "Email sent" : "Resend verification email"}
+				</Button>
+			</AlertDescription>
+		</Alert>
+	);
+}
@@ -0,0 +1,46 @@
+'use client';
+
+import * as React from 'react';
+
+import { cn } from '@/lib/utils';
+import { Markdown } from '@/components/ui/markdown';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Textarea, type TextareaProps } from '@/components/ui/textarea';
+
+export interface MarkdownEditorProps extends Omit<TextareaProps, 'value'> {
+  value: string;
+}
+
+/**
+ * Textarea with a Write/Preview toggle showing how the Markdown will render
+ */
+const MarkdownEditor = React.forwardRef<HTMLTextAreaElement, MarkdownEditorProps>(
+  ({ className, value, ...props }, ref) => {
+    return (
+      <Tabs defaultValue="write" className="w-full">
+        <div className="flex items-center justify-between">
+          <TabsList className="h-8">
+            <TabsTrigger value="write" className="text-xs">Write</TabsTrigger>
+            <TabsTrigger value="preview" className="text-xs">Preview</TabsTrigger>
+          </TabsList>
+          <span className="text-xs text-muted-foreground">Markdown supported</span>
+        </div>
+        <TabsContent value="write">
+          <Textarea ref={ref} className={className} value={value} {...props} />
+        </TabsContent>
+        <TabsContent value="preview">
+          <div className={cn('rounded-md border border-input px-3 py-2 text-sm', className)}>
+            {value.trim() ? (
+              <Markdown content={value} />
+            ) : (
+              <p className="text-muted-foreground">Nothing to preview</p>
+            )}
+          </div>
+        </TabsContent>
+      </Tabs>
+    );
+  }
+);
+MarkdownEditor.displayName = 'MarkdownEditor';
+
+export { MarkdownEditor };
@@ -0,0 +1,105 @@
+import * as React from 'react';
+
+import { cn } from '@/lib/utils';
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from '@/lib/markdown';
+
+export interface MarkdownProps {
+  content: string | null | undefined;
+  className?: string;
+}
+
+function renderInline(nodes: MarkdownInline[]): React.ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'break':
+        return <br key={index} />;
+      case 'code':
+        return (
+          <code key={index} className="rounded bg-muted px-1 py-0.5 font-mono text-[0.9em]">
+            {node.text}
+          </code>
+        );
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'del':
+        return <del key={index}>{renderInline(node.children)}</del>;
+      case 'link': {
+        const external = !node.href.startsWith('/') && !node.href.startsWith('#');
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target={external ? '_blank' : undefined}
+            rel={external ? 'nofollow noopener noreferrer ugc' : undefined}
+            className="font-medium text-primary underline underline-offset-4 break-words"
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+      }
+    }
+  });
+}
+
+// Headings start at h3 so user content never outranks the page's own headings
+const HEADING_TAGS = ['h3', 'h3', 'h4', 'h5', 'h6', 'h6'] as const;
+
+function renderBlocks(blocks: MarkdownBlock[]): React.ReactNode[] {
+  return blocks.map((block, index) => {
+    switch (block.type) {
+      case 'paragraph':
+        return <p key={index}>{renderInline(block.children)}</p>;
+      case 'heading': {
+        const Tag = HEADING_TAGS[block.level - 1];
+        return (
+          <Tag key={index} className={cn('font-semibold', block.level <= 2 ? 'text-base' : 'text-sm')}>
+            {renderInline(block.children)}
+          </Tag>
+        );
+      }
+      case 'code':
+        return (
+          <pre key={index} className="overflow-x-auto rounded-md bg-muted p-3 text-xs">
+            <code className="font-mono">{block.text}</code>
+          </pre>
+        );
+      case 'blockquote':
+        return (
+          <blockquote key={index} className="space-y-2 border-l-2 pl-3 text-muted-foreground">
+            {renderBlocks(block.children)}
+          </blockquote>
+        );
+      case 'list': {
+        const items = block.items.map((item, itemIndex) => (
+          <li key={itemIndex} className="space-y-1">{renderBlocks(item)}</li>
+        ));
+        return block.ordered ? (
+          <ol key={index} start={block.start} className="list-decimal space-y-1 pl-5">{items}</ol>
+        ) : (
+          <ul key={index} className="list-disc space-y-1 pl-5">{items}</ul>
+        );
+      }
+      case 'hr':
+        return <hr key={index} className="border-border" />;
+    }
+  });
+}
+
+/**
+ * Renders user-written Markdown through the safe pipeline in lib/markdown
+ * Only elements from MARKDOWN_ALLOWED_ELEMENTS are produced and raw HTML stays text,
+ * so the output never needs dangerouslySetInnerHTML
+ */
+function Markdown({ content, className }: MarkdownProps) {
+  return (
+    <div className={cn('space-y-2 break-words', className)}>
+      {renderBlocks(parseMarkdown(content))}
+    </div>
+  );
+}
+
+export { Markdown };
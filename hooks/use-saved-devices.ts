@@ -0,0 +1,48 @@
+/**
+ * React hook for the signed-in user's saved devices
+ * Used to fill in config device profiles and to filter configs by matching hardware
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { useSession } from "@/lib/auth-client";
+import { type SavedDeviceInput } from "@/lib/validations/config";
+
+export type SavedDevice = SavedDeviceInput & { id: string };
+
+/**
+ * Hook for loading the user's saved devices
+ * Returns an empty list for signed-out visitors
+ *
+ * @returns The devices, whether they are loading, and a function to reload them
+ */
+export function useSavedDevices() {
+  const { data: session } = useSession();
+  const [devices, setDevices] = useState<SavedDevice[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const userId = session?.user?.id;
+
+  const reload = useCallback(async (): Promise<void> => {
+    if (!userId) {
+      setDevices([]);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await fetch("/api/users/devices");
+      if (response.ok) {
+        setDevices(await response.json());
+      }
+    } catch (error) {
+      console.error("Error fetching devices:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { devices, isLoading, reload };
+}
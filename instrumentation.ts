@@ -0,0 +1,11 @@
+/**
+ * Next.js instrumentation hook
+ * Starts the in-process job runner when JOB_RUNNER_ENABLED=true
+ */
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs" && process.env.JOB_RUNNER_ENABLED === "true") {
+    const { startJobRunner } = await import("./lib/jobs");
+    startJobRunner();
+  }
+}
@@ -7,6 +7,7 @@ import { ac, adminRole, moderatorRole, userRole, publicRole } from "./permission
 import { prisma } from "./prisma";
 import { nextCookies } from "better-auth/next-js";
 import { sendEmail } from "./email";
+import { renderVerifyEmail } from "./email-templates/verify-email";
 
 
 // Create and export auth instance
@@ -16,10 +17,11 @@ export const auth = betterAuth({
     }),
     emailAndPassword: {
         enabled: true,
+        // Unverified users can still sign in and browse; posting is blocked in the API routes instead
         requireEmailVerification: false,
         sendResetPassword: async ({ user, url }) => {
             /**
-             * Sends a password reset email using Resend via sendEmail utility.
+             * Sends a password reset email via the configured email transport.
              * @param user - The user object requesting reset
              * @param url - The reset link containing the token
              */
@@ -30,6 +32,30 @@ export const auth = betterAuth({
             });
         },
     },
+    emailVerification: {
+        sendOnSignUp: true,
+        autoSignInAfterVerification: true,
+        sendVerificationEmail: async ({ user, url }) => {
+            /**
+             * Sends the verification link via the configured email transport.
+             * @param user - The user who signed up or asked for a new link
+             * @param url - The verification link containing the token
+             */
+            const { html, text } = await renderVerifyEmail({ name: user.name, url });
+            await sendEmail({
+                to: user.email,
+                subject: 'Verify your email address',
+                text,
+                html,
+            });
+        },
+    },
+    rateLimit: {
+        customRules: {
+            // Also limited per user in /api/users/verification-email, this covers direct calls
+            "/send-verification-email": { window: 60, max: 3 },
+        },
+    },
     socialProviders: {
         github: {
             clientId: process.env.GITHUB_CLIENT_ID!,
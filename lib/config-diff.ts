@@ -0,0 +1,260 @@
+/**
+ * Config diff utility
+ * Computes a field-by-field diff between two config version snapshots
+ */
+
+import { readConfigSnapshot, type NormalizedConfigSnapshot } from './config-snapshot';
+
+/**
+ * A single line in a line diff
+ */
+export interface LineChange {
+  type: 'added' | 'removed' | 'unchanged';
+  value: string;
+}
+
+/**
+ * Diff of a scalar field (resolution, DXVK version, etc.)
+ */
+export interface ValueFieldDiff {
+  kind: 'value';
+  field: string;
+  label: string;
+  from: string | null;
+  to: string | null;
+  changed: boolean;
+}
+
+/**
+ * Diff of a list field where order does not matter (components, tags)
+ */
+export interface ListFieldDiff {
+  kind: 'list';
+  field: string;
+  label: string;
+  from: string[];
+  to: string[];
+  added: string[];
+  removed: string[];
+  unchanged: string[];
+  changed: boolean;
+}
+
+/**
+ * Diff of a multi-line text field (env vars, command line, notes)
+ */
+export interface LinesFieldDiff {
+  kind: 'lines';
+  field: string;
+  label: string;
+  from: string | null;
+  to: string | null;
+  lines: LineChange[];
+  changed: boolean;
+}
+
+export type FieldDiff = ValueFieldDiff | ListFieldDiff | LinesFieldDiff;
+
+/**
+ * Config-level scalar fields
+ * Only compared when both snapshots capture them (legacy snapshots do not)
+ */
+const CONFIG_VALUE_FIELDS: { field: 'gamehubVersion' | 'videoUrl'; label: string }[] = [
+  { field: 'gamehubVersion', label: 'GameHub Version' },
+  { field: 'videoUrl', label: 'Video URL' },
+];
+
+/**
+ * Scalar snapshot fields in display order
+ */
+const VALUE_FIELDS: { field: string; label: string }[] = [
+  { field: 'language', label: 'Language' },
+  { field: 'gameResolution', label: 'Game Resolution' },
+  { field: 'directxHub', label: 'DirectX Hub' },
+  { field: 'compatLayer', label: 'Compatibility Layer' },
+  { field: 'gpuDriver', label: 'GPU Driver' },
+  { field: 'audioDriver', label: 'Audio Driver' },
+  { field: 'dxvkVersion', label: 'DXVK Version' },
+  { field: 'vkd3dVersion', label: 'VKD3D Version' },
+  { field: 'cpuTranslator', label: 'CPU Translator' },
+  { field: 'cpuCoreLimit', label: 'CPU Core Limit' },
+  { field: 'vramLimit', label: 'VRAM Limit' },
+  { field: 'deviceModel', label: 'Device Model' },
+  { field: 'soc', label: 'SoC' },
+  { field: 'gpuFamily', label: 'GPU Family' },
+  { field: 'ramGb', label: 'RAM (GB)' },
+  { field: 'androidVersion', label: 'Android Version' },
+];
+
+/**
+ * List snapshot fields
+ */
+const LIST_FIELDS: { field: string; label: string }[] = [
+  { field: 'components', label: 'Components' },
+];
+
+/**
+ * Multi-line text snapshot fields
+ */
+const LINES_FIELDS: { field: string; label: string }[] = [
+  { field: 'envVars', label: 'Environment Variables' },
+  { field: 'commandLine', label: 'Command Line' },
+  { field: 'notes', label: 'Additional Notes' },
+];
+
+// Above this many cells the LCS table gets too expensive, so fall back to a full replace
+const MAX_LCS_CELLS = 250000;
+
+/**
+ * Normalizes an unknown snapshot value to a string or null
+ */
+function toText(value: unknown): string | null {
+  if (value === undefined || value === null || value === '') return null;
+  return String(value);
+}
+
+/**
+ * Normalizes an unknown snapshot value to a string array
+ */
+function toList(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(String) : [];
+}
+
+/**
+ * Splits text into lines, treating empty text as no lines
+ */
+function splitLines(text: string | null): string[] {
+  return text ? text.replace(/\r\n/g, '\n').split('\n') : [];
+}
+
+/**
+ * Computes a line diff between two texts using the longest common subsequence
+ *
+ * @param from - Original text
+ * @param to - New text
+ * @returns Ordered list of line changes
+ */
+export function diffLines(from: string | null, to: string | null): LineChange[] {
+  const a = splitLines(from);
+  const b = splitLines(to);
+
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    return [
+      ...a.map((value): LineChange => ({ type: 'removed', value })),
+      ...b.map((value): LineChange => ({ type: 'added', value })),
+    ];
+  }
+
+  // lcs[i][j] holds the LCS length of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const changes: LineChange[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      changes.push({ type: 'unchanged', value: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      changes.push({ type: 'removed', value: a[i] });
+      i++;
+    } else {
+      changes.push({ type: 'added', value: b[j] });
+      j++;
+    }
+  }
+  while (i < a.length) changes.push({ type: 'removed', value: a[i++] });
+  while (j < b.length) changes.push({ type: 'added', value: b[j++] });
+
+  return changes;
+}
+
+/**
+ * Computes the diff of a scalar field
+ */
+function diffValue(field: string, label: string, from: unknown, to: unknown): ValueFieldDiff {
+  const fromValue = toText(from);
+  const toValue = toText(to);
+  return { kind: 'value', field, label, from: fromValue, to: toValue, changed: fromValue !== toValue };
+}
+
+/**
+ * Computes the diff of an unordered list field
+ */
+function diffList(field: string, label: string, from: unknown, to: unknown): ListFieldDiff {
+  const fromItems = toList(from);
+  const toItems = toList(to);
+  const added = toItems.filter((item) => !fromItems.includes(item));
+  const removed = fromItems.filter((item) => !toItems.includes(item));
+  const unchanged = toItems.filter((item) => fromItems.includes(item));
+  return {
+    kind: 'list',
+    field,
+    label,
+    from: fromItems,
+    to: toItems,
+    added,
+    removed,
+    unchanged,
+    changed: added.length > 0 || removed.length > 0,
+  };
+}
+
+/**
+ * Computes a field-by-field diff between two config snapshots
+ * Accepts both full snapshots and legacy details-only snapshots
+ *
+ * @param from - The older snapshot
+ * @param to - The newer snapshot
+ * @returns Diff entries for every known field, flagged with whether they changed
+ */
+export function diffConfigSnapshots(from: unknown, to: unknown): FieldDiff[] {
+  const fromSnapshot = readConfigSnapshot(from);
+  const toSnapshot = readConfigSnapshot(to);
+  const fromDetails = fromSnapshot.details as Record<string, unknown>;
+  const toDetails = toSnapshot.details as Record<string, unknown>;
+
+  // Config-level fields are unknown for legacy snapshots, so skip them rather than report a change
+  const hasConfigFields = (snapshot: NormalizedConfigSnapshot) => snapshot.gamehubVersion !== undefined;
+  const compareConfigFields = hasConfigFields(fromSnapshot) && hasConfigFields(toSnapshot);
+
+  const configDiffs: FieldDiff[] = compareConfigFields
+    ? [
+        ...CONFIG_VALUE_FIELDS.map(({ field, label }) =>
+          diffValue(field, label, fromSnapshot[field], toSnapshot[field])
+        ),
+        diffList('tags', 'Tags', fromSnapshot.tags, toSnapshot.tags),
+      ]
+    : [];
+
+  const valueDiffs = VALUE_FIELDS.map(({ field, label }) =>
+    diffValue(field, label, fromDetails[field], toDetails[field])
+  );
+
+  const listDiffs = LIST_FIELDS.map(({ field, label }) =>
+    diffList(field, label, fromDetails[field], toDetails[field])
+  );
+
+  const linesDiffs = LINES_FIELDS.map(({ field, label }): LinesFieldDiff => {
+    const fromValue = toText(fromDetails[field]);
+    const toValue = toText(toDetails[field]);
+    const lines = diffLines(fromValue, toValue);
+    return {
+      kind: 'lines',
+      field,
+      label,
+      from: fromValue,
+      to: toValue,
+      lines,
+      changed: lines.some((line) => line.type !== 'unchanged'),
+    };
+  });
+
+  return [...configDiffs, ...valueDiffs, ...listDiffs, ...linesDiffs];
+}
@@ -0,0 +1,144 @@
+/**
+ * Config export utility
+ * Converts a config into a versioned GameHub settings document (JSON or INI)
+ */
+
+import { configDetailsSchema, type ConfigDetails } from './validations/config';
+
+/**
+ * Identifier written into every exported settings document
+ */
+export const SETTINGS_DOCUMENT_SCHEMA = 'gamehub-config-settings';
+
+/**
+ * Current settings document schema version
+ * Bump when the document layout changes so importers can migrate older files
+ * Version 2 added the game's store and external ID, `steamId` is null for games not on Steam
+ */
+export const SETTINGS_SCHEMA_VERSION = 2;
+
+/**
+ * Supported export formats
+ */
+export const EXPORT_FORMATS = ['json', 'ini'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/**
+ * Machine-readable GameHub settings document
+ */
+export interface SettingsDocument {
+  schema: typeof SETTINGS_DOCUMENT_SCHEMA;
+  schemaVersion: number;
+  exportedAt: string;
+  source: {
+    configId: string;
+    game: string;
+    gameSource: string;
+    externalId: string;
+    steamId: string | null;
+    author: string;
+    versionNumber: number | null;
+  };
+  gamehubVersion: string;
+  tags: string[];
+  settings: ConfigDetails;
+}
+
+/**
+ * Config shape required to build a settings document
+ */
+interface ExportableConfig {
+  id: string;
+  gamehubVersion: string;
+  tags: string[];
+  game: { name: string; source: string; externalId: string };
+  createdBy: { username: string };
+  details: Record<string, unknown> | null;
+  versions?: { versionNumber: number }[];
+}
+
+// Settings keys in the order they appear in exported files
+const SETTINGS_FIELDS = configDetailsSchema.keyof().options;
+
+/**
+ * Builds a settings document from a config and its details
+ *
+ * @param config - Config with game, author and details included
+ * @returns The settings document
+ */
+export function buildSettingsDocument(config: ExportableConfig): SettingsDocument {
+  const details = config.details || {};
+  const settings: Record<string, unknown> = {};
+  for (const field of SETTINGS_FIELDS) {
+    settings[field] = details[field] ?? (field === 'components' ? [] : null);
+  }
+
+  return {
+    schema: SETTINGS_DOCUMENT_SCHEMA,
+    schemaVersion: SETTINGS_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    source: {
+      configId: config.id,
+      game: config.game.name,
+      gameSource: config.game.source,
+      externalId: config.game.externalId,
+      steamId: config.game.source === 'STEAM' ? config.game.externalId : null,
+      author: config.createdBy.username,
+      versionNumber: config.versions?.[0]?.versionNumber ?? null,
+    },
+    gamehubVersion: config.gamehubVersion,
+    tags: config.tags,
+    settings: settings as ConfigDetails,
+  };
+}
+
+/**
+ * Escapes a value so it fits on a single INI line
+ */
+function escapeIniValue(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/\r/g, '\\r')
+    .replace(/\n/g, '\\n');
+}
+
+/**
+ * Formats a value for an INI line
+ * Lists are comma separated, missing values are left empty
+ */
+function formatIniValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.map((item) => escapeIniValue(String(item)).replace(/,/g, '\\,')).join(',');
+  return escapeIniValue(String(value));
+}
+
+/**
+ * Serializes a settings document as INI
+ * Multi-line values use \n escapes and list values are comma separated
+ *
+ * @param document - The settings document
+ * @returns INI file contents
+ */
+export function serializeSettingsIni(document: SettingsDocument): string {
+  const lines = [
+    `; GameHub settings exported from ${document.source.game} by ${document.source.author}`,
+    '[meta]',
+    `schema=${document.schema}`,
+    `schemaVersion=${document.schemaVersion}`,
+    `exportedAt=${document.exportedAt}`,
+    `configId=${document.source.configId}`,
+    `game=${formatIniValue(document.source.game)}`,
+    `gameSource=${document.source.gameSource}`,
+    `externalId=${formatIniValue(document.source.externalId)}`,
+    `steamId=${formatIniValue(document.source.steamId)}`,
+    `author=${document.source.author}`,
+    `versionNumber=${formatIniValue(document.source.versionNumber)}`,
+    `gamehubVersion=${formatIniValue(document.gamehubVersion)}`,
+    `tags=${formatIniValue(document.tags)}`,
+    '',
+    '[settings]',
+    ...SETTINGS_FIELDS.map((field) => `${field}=${formatIniValue(document.settings[field])}`),
+  ];
+
+  return `${lines.join('\n')}\n`;
+}
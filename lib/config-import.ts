@@ -0,0 +1,360 @@
+/**
+ * Config import utility
+ * Parses exported GameHub settings documents (JSON or INI) back into config form values
+ */
+
+import { DirectXHubType, AudioDriverType, GpuFamily } from '@prisma/client';
+import { configDetailsSchema, type ConfigDetails } from './validations/config';
+import { SETTINGS_DOCUMENT_SCHEMA, SETTINGS_SCHEMA_VERSION } from './config-export';
+import {
+  type PresetOption,
+  RESOLUTION_PRESETS,
+  LANGUAGE_PRESETS,
+  COMPAT_LAYER_PRESETS,
+  CPU_TRANSLATOR_PRESETS,
+  VKD3D_TRANSLATOR_PRESETS,
+  DXVK_TRANSLATOR_PRESETS,
+  CPU_CORE_LIMITS,
+  VRAM_LIMITS,
+} from './constants/config-presets';
+
+/**
+ * A field whose value was replaced by the closest preset
+ */
+export interface MappedField {
+  field: string;
+  from: string;
+  to: string;
+}
+
+/**
+ * A field that could not be imported
+ */
+export interface UnmappedField {
+  field: string;
+  value: string;
+  reason: string;
+}
+
+/**
+ * Result of importing a settings document
+ */
+export interface ImportResult {
+  values: {
+    gamehubVersion?: string;
+    tags?: string[];
+    details: Partial<ConfigDetails>;
+  };
+  mapped: MappedField[];
+  unmapped: UnmappedField[];
+}
+
+/**
+ * Raw fields read from a settings document before mapping and validation
+ */
+interface RawSettings {
+  gamehubVersion?: unknown;
+  tags?: unknown;
+  settings: Record<string, unknown>;
+}
+
+/**
+ * Preset lists per field
+ * `allowCustom` fields keep unknown values as custom entries, the others only accept presets
+ */
+const PRESET_FIELDS: Record<string, { presets: PresetOption[]; allowCustom: boolean }> = {
+  gameResolution: { presets: RESOLUTION_PRESETS.filter((preset) => preset.value !== 'custom'), allowCustom: true },
+  language: { presets: LANGUAGE_PRESETS.filter((preset) => preset.value !== 'custom'), allowCustom: true },
+  compatLayer: { presets: COMPAT_LAYER_PRESETS, allowCustom: true },
+  cpuTranslator: { presets: CPU_TRANSLATOR_PRESETS, allowCustom: true },
+  vkd3dVersion: { presets: VKD3D_TRANSLATOR_PRESETS, allowCustom: true },
+  dxvkVersion: { presets: DXVK_TRANSLATOR_PRESETS, allowCustom: true },
+  cpuCoreLimit: { presets: CPU_CORE_LIMITS, allowCustom: false },
+  vramLimit: { presets: VRAM_LIMITS, allowCustom: false },
+};
+
+/**
+ * Enum fields and their allowed values
+ */
+const ENUM_FIELDS: Record<string, string[]> = {
+  directxHub: Object.values(DirectXHubType),
+  audioDriver: Object.values(AudioDriverType),
+  gpuFamily: Object.values(GpuFamily),
+};
+
+// Numeric fields, INI files store every value as text
+const NUMBER_FIELDS = ['ramGb', 'androidVersion'];
+
+// List-valued fields, split on unescaped commas in INI files
+const LIST_FIELDS = ['components', 'tags'];
+
+const DETAIL_FIELDS: string[] = configDetailsSchema.keyof().options;
+
+/**
+ * Lowercases and strips separators so "Box64 0.35" and "box64-0.35" compare equal
+ */
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9.]/g, '');
+}
+
+/**
+ * Levenshtein edit distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+/**
+ * Finds the preset closest to a value by its value or label
+ * Only matches within a small edit distance so unrelated values are not mapped,
+ * and never to a preset with a different version number ("9 Cores" is not "2 Cores")
+ *
+ * @param value - Imported value
+ * @param presets - Candidate presets
+ * @returns The closest preset or null if none is close enough
+ */
+export function findClosestPreset(value: string, presets: PresetOption[]): PresetOption | null {
+  const target = normalize(value);
+  if (!target) return null;
+
+  const digitsOf = (text: string) => text.replace(/[^0-9]/g, '');
+  const targetDigits = digitsOf(target);
+
+  let best: PresetOption | null = null;
+  let bestDistance = Infinity;
+
+  for (const preset of presets) {
+    for (const candidate of [preset.value, preset.label]) {
+      const normalizedCandidate = normalize(candidate);
+      if (!digitsOf(normalizedCandidate).startsWith(targetDigits)) continue;
+
+      const distance = editDistance(target, normalizedCandidate);
+      if (distance < bestDistance) {
+        best = preset;
+        bestDistance = distance;
+      }
+    }
+  }
+
+  const threshold = Math.max(1, Math.floor(target.length * 0.25));
+  return best && bestDistance <= threshold ? best : null;
+}
+
+/**
+ * Reverses the escaping applied by the INI exporter
+ */
+function unescapeIniValue(value: string): string {
+  return value.replace(/\\(.)/g, (_, char: string) => {
+    if (char === 'n') return '\n';
+    if (char === 'r') return '\r';
+    return char;
+  });
+}
+
+/**
+ * Splits an escaped INI list on unescaped commas
+ */
+function splitIniList(value: string): string[] {
+  if (!value) return [];
+  return value
+    .split(/(?<!\\),/)
+    .map((item) => unescapeIniValue(item).trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parses an INI settings document into its sections
+ */
+function parseIni(text: string): Record<string, Record<string, unknown>> {
+  const sections: Record<string, Record<string, unknown>> = {};
+  let current = '';
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith(';') || line.startsWith('#')) continue;
+
+    const section = line.match(/^\[(.+)\]$/);
+    if (section) {
+      current = section[1].trim();
+      continue;
+    }
+
+    const separator = line.indexOf('=');
+    if (separator === -1) continue;
+
+    const key = line.slice(0, separator).trim();
+    const value = line.slice(separator + 1).trim();
+    sections[current] = sections[current] || {};
+    sections[current][key] = LIST_FIELDS.includes(key)
+      ? splitIniList(value)
+      : value === '' ? null : unescapeIniValue(value);
+  }
+
+  return sections;
+}
+
+/**
+ * Checks the schema marker and version of a settings document
+ */
+function checkSchema(schema: unknown, schemaVersion: unknown): void {
+  if (schema !== undefined && schema !== SETTINGS_DOCUMENT_SCHEMA) {
+    throw new Error('This file is not a GameHub settings document');
+  }
+  if (schemaVersion !== undefined && Number(schemaVersion) > SETTINGS_SCHEMA_VERSION) {
+    throw new Error('This settings file was created by a newer version and cannot be imported');
+  }
+}
+
+/**
+ * Reads raw settings from JSON or INI text
+ * Accepts exported documents, `{ details: ... }` objects and bare details objects
+ */
+function readRawSettings(text: string): RawSettings {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    throw new Error('The settings document is empty');
+  }
+
+  if (trimmed.startsWith('{')) {
+    let json: unknown;
+    try {
+      json = JSON.parse(trimmed);
+    } catch {
+      throw new Error('The settings document is not valid JSON');
+    }
+    if (!json || typeof json !== 'object' || Array.isArray(json)) {
+      throw new Error('The settings document must be a JSON object');
+    }
+    const parsed = json as Record<string, unknown>;
+
+    checkSchema(parsed.schema, parsed.schemaVersion);
+
+    const settings = parsed.settings ?? parsed.details;
+    if (settings && typeof settings === 'object') {
+      return { gamehubVersion: parsed.gamehubVersion, tags: parsed.tags, settings: settings as Record<string, unknown> };
+    }
+
+    const { gamehubVersion, tags, ...rest } = parsed;
+    return { gamehubVersion, tags, settings: rest };
+  }
+
+  const sections = parseIni(trimmed);
+  const meta = sections.meta || {};
+  checkSchema(meta.schema ?? undefined, meta.schemaVersion ?? undefined);
+
+  const settings = sections.settings || sections[''];
+  if (!settings) {
+    throw new Error('No [settings] section found in the settings document');
+  }
+
+  return { gamehubVersion: meta.gamehubVersion, tags: meta.tags, settings };
+}
+
+/**
+ * Maps a single setting onto the form, snapping preset fields to the closest preset
+ */
+function mapSetting(
+  field: string,
+  value: unknown,
+  result: ImportResult
+): unknown {
+  if (typeof value !== 'string') return value;
+
+  if (NUMBER_FIELDS.includes(field)) {
+    return /^\s*\d+(?:\.\d+)?\s*$/.test(value) ? Number(value) : value;
+  }
+
+  const enumValues = ENUM_FIELDS[field];
+  if (enumValues) {
+    const match = enumValues.find((option) => option.toLowerCase() === value.trim().toLowerCase());
+    if (match && match !== value) {
+      result.mapped.push({ field, from: value, to: match });
+    }
+    return match ?? value;
+  }
+
+  const presetField = PRESET_FIELDS[field];
+  if (!presetField) return value;
+
+  if (presetField.presets.some((preset) => preset.value === value)) {
+    return value;
+  }
+
+  const closest = findClosestPreset(value, presetField.presets);
+  if (closest) {
+    result.mapped.push({ field, from: value, to: closest.value });
+    return closest.value;
+  }
+
+  if (!presetField.allowCustom) {
+    result.unmapped.push({ field, value, reason: 'No matching preset' });
+    return undefined;
+  }
+
+  return value;
+}
+
+/**
+ * Imports a settings document and maps it onto config form values
+ * Values are validated field by field against configDetailsSchema; invalid
+ * or unknown fields are left out of the values and listed in `unmapped`
+ *
+ * @param text - JSON or INI settings document
+ * @returns Form values with a report of mapped and unmapped fields
+ * @throws Error if the document cannot be parsed at all
+ */
+export function importSettingsDocument(text: string): ImportResult {
+  const raw = readRawSettings(text);
+  const result: ImportResult = { values: { details: {} }, mapped: [], unmapped: [] };
+  const details: Record<string, unknown> = {};
+
+  for (const [field, value] of Object.entries(raw.settings)) {
+    if (!DETAIL_FIELDS.includes(field)) {
+      result.unmapped.push({ field, value: String(value), reason: 'Unknown setting' });
+      continue;
+    }
+    if (value === null || value === undefined) continue;
+
+    const mappedValue = mapSetting(field, value, result);
+    if (mappedValue === undefined) continue;
+
+    const fieldSchema = configDetailsSchema.shape[field as keyof ConfigDetails];
+    const validation = fieldSchema.safeParse(mappedValue);
+    if (!validation.success) {
+      result.unmapped.push({
+        field,
+        value: String(value),
+        reason: validation.error.issues[0]?.message || 'Invalid value',
+      });
+      continue;
+    }
+
+    details[field] = validation.data;
+  }
+
+  result.values.details = details as Partial<ConfigDetails>;
+
+  if (typeof raw.gamehubVersion === 'string' && raw.gamehubVersion.trim()) {
+    result.values.gamehubVersion = raw.gamehubVersion.trim();
+  }
+
+  if (Array.isArray(raw.tags)) {
+    result.values.tags = raw.tags.map(String).filter(Boolean);
+  }
+
+  return result;
+}
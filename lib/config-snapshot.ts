@@ -0,0 +1,85 @@
+/**
+ * Config snapshot utility
+ * Builds and reads the JSON snapshots stored on ConfigVersion records
+ */
+
+import { configDetailsSchema, type ConfigDetails, type ConfigSnapshot } from './validations/config';
+
+/**
+ * Current snapshot format version
+ * Snapshots without this marker are legacy details-only snapshots
+ */
+export const CONFIG_SNAPSHOT_VERSION = 2;
+
+/**
+ * Snapshot normalized for reading
+ * Config-level fields are undefined when read from a legacy details-only snapshot
+ */
+export interface NormalizedConfigSnapshot {
+  gamehubVersion?: string;
+  videoUrl?: string | null;
+  tags?: string[];
+  details: Partial<ConfigDetails>;
+}
+
+// Fields that belong in the details part of a snapshot
+const DETAIL_FIELDS = configDetailsSchema.keyof().options;
+
+/**
+ * Picks the known details fields, dropping database columns like id and configId
+ */
+function pickDetails(details: Record<string, unknown>): Partial<ConfigDetails> {
+  const picked: Record<string, unknown> = {};
+  for (const field of DETAIL_FIELDS) {
+    if (field in details) {
+      picked[field] = details[field];
+    }
+  }
+  return picked as Partial<ConfigDetails>;
+}
+
+/**
+ * Builds a full snapshot of a config and its details
+ *
+ * @param config - The config-level fields
+ * @param details - The config details (database record or validated input)
+ * @returns Snapshot ready to be stored as JSON
+ */
+export function buildConfigSnapshot(
+  config: { gamehubVersion: string; videoUrl?: string | null; tags: string[] },
+  details: Record<string, unknown> | null
+): ConfigSnapshot {
+  return {
+    snapshotVersion: CONFIG_SNAPSHOT_VERSION,
+    gamehubVersion: config.gamehubVersion,
+    videoUrl: config.videoUrl ?? null,
+    tags: config.tags,
+    details: pickDetails(details || {}) as ConfigDetails,
+  };
+}
+
+/**
+ * Reads a stored snapshot in either the full or the legacy details-only format
+ *
+ * @param snapshot - Raw JSON value from ConfigVersion.configSnapshot
+ * @returns Normalized snapshot
+ */
+export function readConfigSnapshot(snapshot: unknown): NormalizedConfigSnapshot {
+  if (!snapshot || typeof snapshot !== 'object' || Array.isArray(snapshot)) {
+    return { details: {} };
+  }
+
+  const raw = snapshot as Record<string, unknown>;
+
+  // Legacy snapshots are the flat details object
+  if (raw.snapshotVersion === undefined || typeof raw.details !== 'object' || raw.details === null) {
+    return { details: pickDetails(raw) };
+  }
+
+  return {
+    gamehubVersion: typeof raw.gamehubVersion === 'string' ? raw.gamehubVersion : undefined,
+    videoUrl: typeof raw.videoUrl === 'string' ? raw.videoUrl : null,
+    tags: Array.isArray(raw.tags) ? raw.tags.map(String) : [],
+    details: pickDetails(raw.details as Record<string, unknown>),
+  };
+}
@@ -128,6 +128,58 @@ export const VRAM_LIMITS: PresetOption[] = [
   { label: "4GB", value: "4GB" }
 ];
 
+/**
+ * GPU families of Android SoCs, as stored on ConfigDetails.gpuFamily and Device.gpuFamily
+ */
+export const GPU_FAMILIES: Record<string, string> = {
+  ADRENO: "Adreno (Qualcomm)",
+  MALI: "Mali / Immortalis (Arm)",
+  XCLIPSE: "Xclipse (Samsung)",
+  POWERVR: "PowerVR (Imagination)",
+  OTHER: "Other",
+};
+
+/**
+ * Common SoCs, picking one fills in its GPU family
+ * Other SoCs can be entered by name
+ */
+export const SOC_PRESETS: (PresetOption & { gpuFamily: keyof typeof GPU_FAMILIES })[] = [
+  { label: "Snapdragon 8 Elite", value: "Snapdragon 8 Elite", gpuFamily: "ADRENO" },
+  { label: "Snapdragon 8 Gen 3", value: "Snapdragon 8 Gen 3", gpuFamily: "ADRENO" },
+  { label: "Snapdragon 8s Gen 3", value: "Snapdragon 8s Gen 3", gpuFamily: "ADRENO" },
+  { label: "Snapdragon 8 Gen 2", value: "Snapdragon 8 Gen 2", gpuFamily: "ADRENO" },
+  { label: "Snapdragon 8+ Gen 1", value: "Snapdragon 8+ Gen 1", gpuFamily: "ADRENO" },
+  { label: "Snapdragon 8 Gen 1", value: "Snapdragon 8 Gen 1", gpuFamily: "ADRENO" },
+  { label: "Snapdragon 888", value: "Snapdragon 888", gpuFamily: "ADRENO" },
+  { label: "Snapdragon 865", value: "Snapdragon 865", gpuFamily: "ADRENO" },
+  { label: "Snapdragon 7+ Gen 3", value: "Snapdragon 7+ Gen 3", gpuFamily: "ADRENO" },
+  { label: "Dimensity 9400", value: "Dimensity 9400", gpuFamily: "MALI" },
+  { label: "Dimensity 9300", value: "Dimensity 9300", gpuFamily: "MALI" },
+  { label: "Dimensity 9200", value: "Dimensity 9200", gpuFamily: "MALI" },
+  { label: "Dimensity 8300", value: "Dimensity 8300", gpuFamily: "MALI" },
+  { label: "Dimensity 8100", value: "Dimensity 8100", gpuFamily: "MALI" },
+  { label: "Tensor G4", value: "Tensor G4", gpuFamily: "MALI" },
+  { label: "Tensor G3", value: "Tensor G3", gpuFamily: "MALI" },
+  { label: "Exynos 2400", value: "Exynos 2400", gpuFamily: "XCLIPSE" },
+  { label: "Exynos 2200", value: "Exynos 2200", gpuFamily: "XCLIPSE" },
+];
+
+/**
+ * Playability ratings of performance reports, best first, as stored on PerformanceReport.playability
+ */
+export const PLAYABILITY_RATINGS: Record<string, { label: string; description: string }> = {
+  PERFECT: { label: "Perfect", description: "Runs flawlessly with no noticeable issues" },
+  PLAYABLE: { label: "Playable", description: "Can be finished, with minor glitches or slowdowns" },
+  INGAME: { label: "Ingame", description: "Gets into gameplay but has major problems" },
+  MENUS: { label: "Menus", description: "Reaches the menus but not gameplay" },
+  BROKEN: { label: "Broken", description: "Crashes or doesn't start" },
+};
+
+/**
+ * Android versions offered in device profiles
+ */
+export const ANDROID_VERSIONS = [10, 11, 12, 13, 14, 15, 16];
+
 // Extract values for validation
 export const RESOLUTION_VALUES = RESOLUTION_PRESETS.map(preset => preset.value);
 export const LANGUAGE_VALUES = LANGUAGE_PRESETS.map(preset => preset.value);
@@ -151,8 +203,81 @@ export const COMMON_TAGS = [
  * Sort options for config listings
  */
 export const SORT_OPTIONS = [
-  { label: "Most Popular", value: "popular" },
+  { label: "Best", value: "best" },
+  { label: "Trending", value: "trending" },
   { label: "Newest First", value: "newest" },
   { label: "Oldest First", value: "oldest" },
-  { label: "Recently Updated", value: "updated" }
+  { label: "Recently Updated", value: "updated" },
+  { label: "Most Relevant", value: "relevance" }
 ];
+
+/**
+ * Config fields that can be used as search facets
+ * Values are passed as comma separated query parameters, e.g. ?dxvkVersion=dxvk-2.6.1-async
+ */
+export const CONFIG_FACETS = [
+  { field: "gamehubVersion", label: "GameHub Version" },
+  { field: "compatLayer", label: "Compatibility Layer" },
+  { field: "cpuTranslator", label: "CPU Translator" },
+  { field: "dxvkVersion", label: "DXVK Version" },
+  { field: "vkd3dVersion", label: "VKD3D Version" },
+  { field: "gpuDriver", label: "GPU Driver" },
+  { field: "directxHub", label: "DirectX Hub" },
+  { field: "audioDriver", label: "Audio Driver" },
+  { field: "graphicsApi", label: "Graphics API" },
+  { field: "soc", label: "SoC" },
+  { field: "gpuFamily", label: "GPU Family" },
+] as const;
+
+export type ConfigFacetField = (typeof CONFIG_FACETS)[number]["field"];
+
+/**
+ * Stores games come from, as stored on Game.source
+ * `idLabel` names the store's game ID, manual entries have none
+ */
+export const GAME_SOURCES: Record<string, { label: string; idLabel: string | null }> = {
+  STEAM: { label: "Steam", idLabel: "Steam ID" },
+  GOG: { label: "GOG", idLabel: "GOG product ID" },
+  EPIC: { label: "Epic Games Store", idLabel: "Epic ID" },
+  MANUAL: { label: "Other / standalone installer", idLabel: null },
+};
+
+/**
+ * Graphics APIs a game can require, as stored on Game.graphicsApis
+ * `layer` is the translation layer that runs the API on Android, null for native Vulkan and OpenGL
+ */
+export const GRAPHICS_APIS: Record<string, { label: string; layer: "DXVK" | "VKD3D" | null }> = {
+  DIRECTX_8: { label: "DirectX 8", layer: "DXVK" },
+  DIRECTX_9: { label: "DirectX 9", layer: "DXVK" },
+  DIRECTX_10: { label: "DirectX 10", layer: "DXVK" },
+  DIRECTX_11: { label: "DirectX 11", layer: "DXVK" },
+  DIRECTX_12: { label: "DirectX 12", layer: "VKD3D" },
+  VULKAN: { label: "Vulkan", layer: null },
+  OPENGL: { label: "OpenGL", layer: null },
+};
+
+/**
+ * Display names of facet values that are stored as identifiers
+ */
+export const FACET_VALUE_LABELS: Partial<Record<ConfigFacetField, Record<string, string>>> = {
+  graphicsApi: Object.fromEntries(Object.entries(GRAPHICS_APIS).map(([api, { label }]) => [api, label])),
+  gpuFamily: GPU_FAMILIES,
+};
+
+/**
+ * Config settings shown as community recommendations on game pages
+ */
+export const SUMMARY_SETTINGS = [
+  { field: "gameResolution", label: "Resolution" },
+  { field: "compatLayer", label: "Compatibility Layer" },
+  { field: "cpuTranslator", label: "CPU Translator" },
+  { field: "dxvkVersion", label: "DXVK Version" },
+  { field: "vkd3dVersion", label: "VKD3D Version" },
+  { field: "gpuDriver", label: "GPU Driver" },
+  { field: "directxHub", label: "DirectX Hub" },
+  { field: "audioDriver", label: "Audio Driver" },
+  { field: "cpuCoreLimit", label: "CPU Core Limit" },
+  { field: "vramLimit", label: "VRAM Limit" },
+] as const;
+
+export type SummarySettingField = (typeof SUMMARY_SETTINGS)[number]["field"];
@@ -0,0 +1,79 @@
+/**
+ * Environment Variable Constants
+ *
+ * Known Box64, DXVK, VKD3D, Wine and Mesa environment variables with type hints.
+ * Used by the env var parser to validate values and by the config form to suggest keys.
+ */
+
+/**
+ * Kind of value a known variable accepts
+ * - boolean: 0 or 1
+ * - integer: whole number, optionally bounded by min/max
+ * - enum: one of `values`
+ * - string: any value
+ */
+export type EnvVarValueType = "boolean" | "integer" | "enum" | "string";
+
+/**
+ * Interface for a known environment variable
+ */
+export interface KnownEnvVar {
+  name: string;
+  category: "Box64" | "DXVK" | "VKD3D" | "Wine" | "Mesa";
+  type: EnvVarValueType;
+  description: string;
+  values?: string[];
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Commonly used environment variables
+ */
+export const KNOWN_ENV_VARS: KnownEnvVar[] = [
+  // Box64
+  { name: "BOX64_DYNAREC", category: "Box64", type: "boolean", description: "Enable the dynamic recompiler" },
+  { name: "BOX64_DYNAREC_BIGBLOCK", category: "Box64", type: "integer", min: 0, max: 3, description: "Size of blocks built by the dynarec (0 = smallest, 3 = largest)" },
+  { name: "BOX64_DYNAREC_STRONGMEM", category: "Box64", type: "integer", min: 0, max: 3, description: "Emulate x86 strong memory ordering (higher is safer but slower)" },
+  { name: "BOX64_DYNAREC_SAFEFLAGS", category: "Box64", type: "integer", min: 0, max: 2, description: "How carefully CPU flags are handled around calls and returns" },
+  { name: "BOX64_DYNAREC_FASTNAN", category: "Box64", type: "boolean", description: "Skip x86 NaN generation for faster float math" },
+  { name: "BOX64_DYNAREC_FASTROUND", category: "Box64", type: "boolean", description: "Skip exact x86 rounding for faster float conversion" },
+  { name: "BOX64_DYNAREC_X87DOUBLE", category: "Box64", type: "boolean", description: "Use double precision only for x87 operations" },
+  { name: "BOX64_DYNAREC_CALLRET", category: "Box64", type: "boolean", description: "Optimize CALL/RET pairs" },
+  { name: "BOX64_DYNAREC_WAIT", category: "Box64", type: "boolean", description: "Wait for blocks being built by other threads" },
+  { name: "BOX64_DYNAREC_BLEEDING_EDGE", category: "Box64", type: "boolean", description: "Detect and work around known problematic code patterns" },
+  { name: "BOX64_AVX", category: "Box64", type: "integer", min: 0, max: 2, description: "Expose AVX (1) or AVX2 (2) to the guest" },
+  { name: "BOX64_MAXCPU", category: "Box64", type: "integer", min: 0, description: "Maximum number of CPU cores reported to the game (0 = all)" },
+  { name: "BOX64_LOG", category: "Box64", type: "integer", min: 0, max: 3, description: "Log verbosity" },
+
+  // DXVK
+  { name: "DXVK_ASYNC", category: "DXVK", type: "boolean", description: "Compile shaders asynchronously (async builds only)" },
+  { name: "DXVK_GPLASYNCCACHE", category: "DXVK", type: "boolean", description: "Cache pipelines compiled by the GPL async path" },
+  { name: "DXVK_FRAME_RATE", category: "DXVK", type: "integer", min: 0, description: "Frame rate limit (0 = unlimited)" },
+  { name: "DXVK_HUD", category: "DXVK", type: "string", description: "On-screen HUD elements, e.g. fps,devinfo" },
+  { name: "DXVK_LOG_LEVEL", category: "DXVK", type: "enum", values: ["none", "error", "warn", "info", "debug"], description: "Log verbosity" },
+  { name: "DXVK_CONFIG", category: "DXVK", type: "string", description: "Inline dxvk.conf options separated by semicolons" },
+
+  // VKD3D
+  { name: "VKD3D_FEATURE_LEVEL", category: "VKD3D", type: "enum", values: ["11_0", "11_1", "12_0", "12_1", "12_2"], description: "Direct3D 12 feature level reported to the game" },
+  { name: "VKD3D_SHADER_MODEL", category: "VKD3D", type: "string", description: "Shader model reported to the game, e.g. 6_6" },
+  { name: "VKD3D_CONFIG", category: "VKD3D", type: "string", description: "Comma separated VKD3D-Proton options" },
+
+  // Wine
+  { name: "WINEDEBUG", category: "Wine", type: "string", description: "Wine debug channels, e.g. -all" },
+  { name: "WINEDLLOVERRIDES", category: "Wine", type: "string", description: "DLL override rules, e.g. d3d11=n,b" },
+  { name: "WINEESYNC", category: "Wine", type: "boolean", description: "Enable eventfd-based synchronization" },
+  { name: "WINEFSYNC", category: "Wine", type: "boolean", description: "Enable futex-based synchronization" },
+
+  // Mesa / Turnip
+  { name: "MESA_VK_WSI_PRESENT_MODE", category: "Mesa", type: "enum", values: ["immediate", "mailbox", "fifo", "relaxed"], description: "Vulkan present mode" },
+  { name: "MESA_SHADER_CACHE_DISABLE", category: "Mesa", type: "enum", values: ["true", "false"], description: "Disable the on-disk shader cache" },
+  { name: "TU_DEBUG", category: "Mesa", type: "string", description: "Turnip driver debug flags" },
+];
+
+/**
+ * Known variables indexed by name
+ */
+export const KNOWN_ENV_VARS_BY_NAME = new Map<string, KnownEnvVar>(
+  KNOWN_ENV_VARS.map(envVar => [envVar.name, envVar])
+);
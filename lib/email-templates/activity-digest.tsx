@@ -0,0 +1,151 @@
+/**
+ * Activity digest email template
+ * Summarizes comments, votes and resolved reports since the last digest
+ */
+
+import {
+  Body,
+  Container,
+  Head,
+  Heading,
+  Hr,
+  Html,
+  Link,
+  Preview,
+  Section,
+  Text,
+  render,
+} from '@react-email/components';
+
+export interface DigestComment {
+  id: string;
+  configId: string;
+  gameName: string;
+  author: string;
+  excerpt: string;
+}
+
+export interface DigestConfigVotes {
+  configId: string;
+  gameName: string;
+  upvotes: number;
+  downvotes: number;
+  totalUpvotes: number;
+  totalDownvotes: number;
+}
+
+export interface DigestReport {
+  id: string;
+  status: 'REVIEWED' | 'DISMISSED';
+  target: string;
+}
+
+/**
+ * Everything that happened for one user during a digest period
+ */
+export interface ActivityDigest {
+  username: string;
+  periodLabel: string;
+  comments: DigestComment[];
+  commentTotal: number;
+  votes: DigestConfigVotes[];
+  reports: DigestReport[];
+}
+
+interface ActivityDigestEmailProps {
+  digest: ActivityDigest;
+  appUrl: string;
+  unsubscribeUrl: string;
+}
+
+const styles = {
+  body: { backgroundColor: '#f6f6f6', fontFamily: 'Helvetica, Arial, sans-serif' },
+  container: { backgroundColor: '#ffffff', margin: '0 auto', padding: '24px', maxWidth: '560px' },
+  heading: { fontSize: '20px', margin: '0 0 16px' },
+  sectionTitle: { fontSize: '16px', margin: '24px 0 8px' },
+  text: { fontSize: '14px', lineHeight: '20px', margin: '4px 0' },
+  muted: { fontSize: '12px', color: '#6b7280', lineHeight: '18px' },
+};
+
+/**
+ * Email listing a user's activity for the period
+ */
+export function ActivityDigestEmail({ digest, appUrl, unsubscribeUrl }: ActivityDigestEmailProps) {
+  const upvotes = digest.votes.reduce((sum, config) => sum + config.upvotes, 0);
+  const downvotes = digest.votes.reduce((sum, config) => sum + config.downvotes, 0);
+
+  return (
+    <Html>
+      <Head />
+      <Preview>{`Your ${digest.periodLabel} GameHub Config activity`}</Preview>
+      <Body style={styles.body}>
+        <Container style={styles.container}>
+          <Heading style={styles.heading}>Hi @{digest.username}, here is your {digest.periodLabel} digest</Heading>
+
+          {digest.commentTotal > 0 && (
+            <Section>
+              <Heading as="h2" style={styles.sectionTitle}>
+                {digest.commentTotal} new {digest.commentTotal === 1 ? 'comment' : 'comments'} on your configs
+              </Heading>
+              {digest.comments.map((comment) => (
+                <Text key={comment.id} style={styles.text}>
+                  <strong>@{comment.author}</strong> on{' '}
+                  <Link href={`${appUrl}/configs/${comment.configId}#comment-${comment.id}`}>{comment.gameName}</Link>:{' '}
+                  {comment.excerpt}
+                </Text>
+              ))}
+              {digest.commentTotal > digest.comments.length && (
+                <Text style={styles.muted}>and {digest.commentTotal - digest.comments.length} more</Text>
+              )}
+            </Section>
+          )}
+
+          {digest.votes.length > 0 && (
+            <Section>
+              <Heading as="h2" style={styles.sectionTitle}>
+                {upvotes} upvotes and {downvotes} downvotes
+              </Heading>
+              {digest.votes.map((config) => (
+                <Text key={config.configId} style={styles.text}>
+                  <Link href={`${appUrl}/configs/${config.configId}`}>{config.gameName}</Link>: +{config.upvotes} / -{config.downvotes}
+                  {' '}(total +{config.totalUpvotes} / -{config.totalDownvotes})
+                </Text>
+              ))}
+            </Section>
+          )}
+
+          {digest.reports.length > 0 && (
+            <Section>
+              <Heading as="h2" style={styles.sectionTitle}>Your reports</Heading>
+              {digest.reports.map((report) => (
+                <Text key={report.id} style={styles.text}>
+                  Your report on {report.target} was {report.status === 'REVIEWED' ? 'reviewed' : 'dismissed'} by a moderator.
+                </Text>
+              ))}
+            </Section>
+          )}
+
+          <Hr />
+          <Text style={styles.muted}>
+            You are receiving this because you turned on {digest.periodLabel} digests.{' '}
+            <Link href={unsubscribeUrl}>Unsubscribe</Link>
+          </Text>
+        </Container>
+      </Body>
+    </Html>
+  );
+}
+
+/**
+ * Renders the digest as HTML and plain text
+ *
+ * @param props - Template props
+ * @returns The HTML and plain text bodies
+ */
+export async function renderActivityDigestEmail(props: ActivityDigestEmailProps): Promise<{ html: string; text: string }> {
+  const [html, text] = await Promise.all([
+    render(<ActivityDigestEmail {...props} />),
+    render(<ActivityDigestEmail {...props} />, { plainText: true }),
+  ]);
+  return { html, text };
+}
@@ -0,0 +1,76 @@
+/**
+ * Email verification template
+ * Sent after sign-up and when a user asks for a new link
+ */
+
+import {
+  Body,
+  Button,
+  Container,
+  Head,
+  Heading,
+  Html,
+  Preview,
+  Text,
+  render,
+} from '@react-email/components';
+
+interface VerifyEmailProps {
+  name: string;
+  url: string;
+}
+
+const styles = {
+  body: { backgroundColor: '#f6f6f6', fontFamily: 'Helvetica, Arial, sans-serif' },
+  container: { backgroundColor: '#ffffff', margin: '0 auto', padding: '24px', maxWidth: '560px' },
+  heading: { fontSize: '20px', margin: '0 0 16px' },
+  text: { fontSize: '14px', lineHeight: '20px', margin: '8px 0' },
+  button: {
+    backgroundColor: '#18181b',
+    borderRadius: '6px',
+    color: '#ffffff',
+    fontSize: '14px',
+    padding: '10px 16px',
+    margin: '16px 0',
+  },
+  muted: { fontSize: '12px', color: '#6b7280', lineHeight: '18px', wordBreak: 'break-all' as const },
+};
+
+/**
+ * Email with the link that confirms a user's address
+ */
+export function VerifyEmail({ name, url }: VerifyEmailProps) {
+  return (
+    <Html>
+      <Head />
+      <Preview>Confirm your email address for GameHub Config</Preview>
+      <Body style={styles.body}>
+        <Container style={styles.container}>
+          <Heading style={styles.heading}>Welcome to GameHub Config, {name}</Heading>
+          <Text style={styles.text}>
+            Confirm your email address to start sharing configs and joining the discussion.
+          </Text>
+          <Button href={url} style={styles.button}>Verify email address</Button>
+          <Text style={styles.muted}>
+            If the button does not work, open this link: {url}
+          </Text>
+          <Text style={styles.muted}>If you did not create an account, you can ignore this email.</Text>
+        </Container>
+      </Body>
+    </Html>
+  );
+}
+
+/**
+ * Renders the verification email as HTML and plain text
+ *
+ * @param props - Template props
+ * @returns The HTML and plain text bodies
+ */
+export async function renderVerifyEmail(props: VerifyEmailProps): Promise<{ html: string; text: string }> {
+  const [html, text] = await Promise.all([
+    render(<VerifyEmail {...props} />),
+    render(<VerifyEmail {...props} />, { plainText: true }),
+  ]);
+  return { html, text };
+}
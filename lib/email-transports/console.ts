@@ -0,0 +1,28 @@
+/**
+ * @fileoverview Email transport that prints emails to the server log.
+ * @module lib/email-transports/console
+ */
+import type { EmailMessage, EmailTransport } from '../email';
+
+/**
+ * Logs the plain text version of each email instead of sending it.
+ * Links in reset and verification emails can be copied straight from the terminal.
+ */
+export class ConsoleTransport implements EmailTransport {
+  name = 'console';
+
+  async send(message: EmailMessage): Promise<void> {
+    console.log(
+      [
+        '----- Email (not sent) -----',
+        `From: ${message.from}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        '',
+        message.text,
+        message.html ? '\n(an HTML version was also rendered)' : '',
+        '----------------------------',
+      ].join('\n')
+    );
+  }
+}
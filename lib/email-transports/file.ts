@@ -0,0 +1,31 @@
+/**
+ * @fileoverview Email transport that writes emails to disk as .eml files.
+ * @module lib/email-transports/file
+ */
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import type { EmailMessage, EmailTransport } from '../email';
+import { buildMimeMessage } from './mime';
+
+/**
+ * Writes each email to EMAIL_OUTPUT_DIR (default: .emails) so it can be opened in a mail client.
+ */
+export class FileTransport implements EmailTransport {
+  name = 'file';
+  private directory: string;
+
+  constructor() {
+    this.directory = path.resolve(process.env.EMAIL_OUTPUT_DIR || '.emails');
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const filePath = path.join(this.directory, `${timestamp}-${randomBytes(4).toString('hex')}.eml`);
+    await writeFile(filePath, buildMimeMessage(message), 'utf8');
+
+    console.log(`Email "${message.subject}" to ${message.to} written to ${filePath}`);
+  }
+}
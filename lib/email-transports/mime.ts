@@ -0,0 +1,102 @@
+/**
+ * @fileoverview Builds raw RFC 5322 messages for transports that speak MIME directly.
+ * Plain-text-only emails are a single part; emails with HTML are multipart/alternative.
+ * @module lib/email-transports/mime
+ */
+import { randomBytes } from 'crypto';
+import type { EmailMessage } from '../email';
+
+/**
+ * Encodes a header value as an RFC 2047 encoded word when it is not plain ASCII.
+ * @param value - Header value.
+ * @returns The value, safe to put in a header.
+ */
+function encodeHeaderValue(value: string): string {
+  const singleLine = value.replace(/[\r\n]+/g, ' ');
+  if (/^[\x20-\x7e]*$/.test(singleLine)) return singleLine;
+  return `=?UTF-8?B?${Buffer.from(singleLine, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * Encodes an address header, only the display name of "Name <address>" becomes an encoded word
+ * so the address itself stays readable ASCII.
+ * @param value - Address as written in a header.
+ * @returns The address, safe to put in a header.
+ */
+function encodeAddress(value: string): string {
+  const singleLine = value.replace(/[\r\n]+/g, ' ').trim();
+  const match = singleLine.match(/^(.*?)\s*<([^>]+)>$/);
+  if (!match || !match[1]) return encodeHeaderValue(singleLine);
+
+  const name = match[1].replace(/^"(.*)"$/, '$1');
+  return `${encodeHeaderValue(name) === name ? match[1] : encodeHeaderValue(name)} <${match[2].trim()}>`;
+}
+
+/**
+ * Base64-encodes a body, wrapped at 76 characters per line.
+ * @param content - Body content.
+ * @returns The encoded body.
+ */
+function encodeBody(content: string): string {
+  return (Buffer.from(content, 'utf8').toString('base64').match(/.{1,76}/g) ?? []).join('\r\n');
+}
+
+/**
+ * Headers and body of one text part.
+ */
+function textPart(subtype: 'plain' | 'html', content: string): string[] {
+  return [
+    `Content-Type: text/${subtype}; charset=utf-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(content),
+  ];
+}
+
+/**
+ * Extracts the bare address from "Name <address>" or "address".
+ * @param address - Address as written in a header.
+ * @returns The address used in the SMTP envelope.
+ */
+export function envelopeAddress(address: string): string {
+  const match = address.match(/<([^>]+)>/);
+  return (match ? match[1] : address).trim();
+}
+
+/**
+ * Builds the raw message, with CRLF line endings.
+ * @param message - Email to encode.
+ * @returns The message source.
+ */
+export function buildMimeMessage(message: EmailMessage): string {
+  const domain = envelopeAddress(message.from).split('@')[1] || 'localhost';
+  const lines = [
+    `From: ${encodeAddress(message.from)}`,
+    `To: ${encodeAddress(message.to)}`,
+    `Subject: ${encodeHeaderValue(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomBytes(16).toString('hex')}@${domain}>`,
+    'MIME-Version: 1.0',
+  ];
+
+  for (const [name, value] of Object.entries(message.headers ?? {})) {
+    lines.push(`${name.replace(/[^\x21-\x39\x3b-\x7e]/g, '')}: ${encodeHeaderValue(value)}`);
+  }
+
+  if (!message.html) {
+    lines.push(...textPart('plain', message.text));
+  } else {
+    const boundary = `=_${randomBytes(12).toString('hex')}`;
+    lines.push(
+      `Content-Type: multipart/alternative; boundary="${boundary}"`,
+      '',
+      `--${boundary}`,
+      ...textPart('plain', message.text),
+      `--${boundary}`,
+      ...textPart('html', message.html),
+      `--${boundary}--`,
+    );
+  }
+
+  return `${lines.join('\r\n')}\r\n`;
+}
@@ -0,0 +1,25 @@
+/**
+ * @fileoverview Email transport using the Resend API.
+ * @module lib/email-transports/resend
+ */
+import { Resend } from 'resend';
+import type { EmailMessage, EmailTransport } from '../email';
+
+/**
+ * Sends email through Resend, configured by RESEND_API_KEY.
+ */
+export class ResendTransport implements EmailTransport {
+  name = 'resend';
+  private resend: Resend;
+
+  constructor() {
+    const apiKey = process.env.RESEND_API_KEY;
+    if (!apiKey) throw new Error('Missing RESEND_API_KEY in environment.');
+    this.resend = new Resend(apiKey);
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    const { error } = await this.resend.emails.send(message);
+    if (error) throw new Error(`Resend failed to send email: ${error.message}`);
+  }
+}
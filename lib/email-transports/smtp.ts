@@ -0,0 +1,251 @@
+/**
+ * @fileoverview Minimal SMTP email transport.
+ * Supports implicit TLS (port 465), STARTTLS and AUTH PLAIN, which covers
+ * common relays and local catchers such as Mailpit or MailHog.
+ * @module lib/email-transports/smtp
+ */
+import net from 'net';
+import tls from 'tls';
+import os from 'os';
+import type { EmailMessage, EmailTransport } from '../email';
+import { buildMimeMessage, envelopeAddress } from './mime';
+
+/**
+ * Milliseconds to wait for any server reply before giving up
+ */
+const SMTP_TIMEOUT_MS = 30_000;
+
+const ignoreError = () => {};
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * One SMTP session over a socket, reading replies in order
+ */
+class SmtpConnection {
+  private socket: net.Socket;
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(socket: net.Socket) {
+    this.socket = socket;
+    this.attach();
+  }
+
+  private attach() {
+    this.socket.setTimeout(SMTP_TIMEOUT_MS);
+    this.socket.setEncoding('utf8');
+    this.socket.on('data', this.handleData);
+    this.socket.on('error', this.handleError);
+    this.socket.on('timeout', this.handleTimeout);
+    this.socket.on('close', this.handleClose);
+  }
+
+  private detach() {
+    this.socket.off('data', this.handleData);
+    this.socket.off('error', this.handleError);
+    this.socket.off('timeout', this.handleTimeout);
+    this.socket.off('close', this.handleClose);
+    // Late errors from a socket we no longer read must not crash the process
+    this.socket.on('error', ignoreError);
+  }
+
+  private handleData = (chunk: string) => {
+    this.buffer += chunk;
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(newline + 1);
+      this.lines.push(line.slice(4));
+
+      // "250-..." continues a multi-line reply, "250 ..." ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        this.replies.push({ code: Number(line.slice(0, 3)), lines: this.lines });
+        this.lines = [];
+      }
+    }
+    this.flush();
+  };
+
+  private handleError = (error: Error) => this.fail(error);
+  private handleTimeout = () => this.fail(new Error('SMTP server timed out'));
+  private handleClose = () => this.fail(new Error('SMTP connection closed unexpectedly'));
+
+  private fail(error: Error) {
+    this.failure ??= error;
+    this.socket.destroy();
+    this.flush();
+  }
+
+  private flush() {
+    if (!this.waiting) return;
+    const reply = this.replies.shift();
+    if (reply) {
+      this.waiting.resolve(reply);
+      this.waiting = null;
+    } else if (this.failure) {
+      this.waiting.reject(this.failure);
+      this.waiting = null;
+    }
+  }
+
+  /**
+   * Waits for the next reply and checks its code
+   *
+   * @param expected - Accepted reply codes
+   * @returns The reply
+   */
+  async read(expected: number[]): Promise<SmtpReply> {
+    const reply = await new Promise<SmtpReply>((resolve, reject) => {
+      this.waiting = { resolve, reject };
+      this.flush();
+    });
+
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP error ${reply.code}: ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  /**
+   * Sends a command and waits for its reply
+   *
+   * @param line - Command without the trailing CRLF
+   * @param expected - Accepted reply codes
+   * @returns The reply
+   */
+  async command(line: string, expected: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.read(expected);
+  }
+
+  /**
+   * Sends the message body after DATA, dot-stuffing lines that start with a period
+   *
+   * @param source - Raw message with CRLF line endings
+   */
+  async data(source: string): Promise<void> {
+    await this.command('DATA', [354]);
+    this.socket.write(`${source.replace(/^\./gm, '..')}.\r\n`);
+    await this.read([250]);
+  }
+
+  /**
+   * Upgrades the connection to TLS after STARTTLS
+   *
+   * @param servername - Host name checked against the certificate
+   */
+  async upgrade(servername: string): Promise<void> {
+    this.detach();
+    this.socket = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const timedOut = () => {
+        secure.destroy();
+        reject(new Error('SMTP server timed out'));
+      };
+      const secure: tls.TLSSocket = tls.connect({ socket: this.socket, servername }, () => {
+        secure.off('timeout', timedOut);
+        resolve(secure);
+      });
+      secure.setTimeout(SMTP_TIMEOUT_MS);
+      secure.once('timeout', timedOut);
+      secure.once('error', reject);
+    });
+    this.attach();
+  }
+
+  close() {
+    this.detach();
+    this.socket.end();
+  }
+}
+
+/**
+ * Sends email over SMTP, configured by SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER and SMTP_PASSWORD.
+ * A new connection is opened for each email.
+ * Credentials are only sent over TLS unless SMTP_ALLOW_INSECURE_AUTH is "true", so a server
+ * that doesn't offer STARTTLS (or an attacker stripping it) can't read the password.
+ */
+export class SmtpTransport implements EmailTransport {
+  name = 'smtp';
+  private host: string;
+  private port: number;
+  private secure: boolean;
+  private user?: string;
+  private password?: string;
+  private allowInsecureAuth: boolean;
+
+  constructor() {
+    const host = process.env.SMTP_HOST;
+    if (!host) throw new Error('Missing SMTP_HOST in environment.');
+
+    this.host = host;
+    this.secure = process.env.SMTP_SECURE === 'true';
+    this.port = Number(process.env.SMTP_PORT) || (this.secure ? 465 : 587);
+    this.user = process.env.SMTP_USER || undefined;
+    this.password = process.env.SMTP_PASSWORD || undefined;
+    this.allowInsecureAuth = process.env.SMTP_ALLOW_INSECURE_AUTH === 'true';
+  }
+
+  /**
+   * Opens a plain or TLS socket to the server
+   * Gives up after SMTP_TIMEOUT_MS, so an unreachable host doesn't wait for the OS connect timeout
+   */
+  private connect(): Promise<net.Socket> {
+    return new Promise((resolve, reject) => {
+      const connected = () => {
+        socket.off('timeout', timedOut);
+        resolve(socket);
+      };
+      const timedOut = () => {
+        socket.destroy();
+        reject(new Error('SMTP server timed out'));
+      };
+
+      const socket: net.Socket = this.secure
+        ? tls.connect({ host: this.host, port: this.port, servername: this.host }, connected)
+        : net.connect({ host: this.host, port: this.port }, connected);
+      socket.setTimeout(SMTP_TIMEOUT_MS);
+      socket.once('timeout', timedOut);
+      socket.once('error', reject);
+    });
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    const connection = new SmtpConnection(await this.connect());
+    const clientName = os.hostname() || 'localhost';
+
+    try {
+      await connection.read([220]);
+      const greeting = await connection.command(`EHLO ${clientName}`, [250]);
+      const startTls = greeting.lines.some((line) => line.toUpperCase().startsWith('STARTTLS'));
+
+      const encrypted = this.secure || startTls;
+      if (!this.secure && startTls) {
+        await connection.command('STARTTLS', [220]);
+        await connection.upgrade(this.host);
+        await connection.command(`EHLO ${clientName}`, [250]);
+      }
+
+      if (this.user) {
+        if (!encrypted && !this.allowInsecureAuth) {
+          throw new Error('SMTP server does not support STARTTLS, refusing to send credentials unencrypted');
+        }
+        const credentials = Buffer.from(`\0${this.user}\0${this.password ?? ''}`, 'utf8').toString('base64');
+        await connection.command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      await connection.command(`MAIL FROM:<${envelopeAddress(message.from)}>`, [250]);
+      await connection.command(`RCPT TO:<${envelopeAddress(message.to)}>`, [250, 251]);
+      await connection.data(buildMimeMessage(message));
+      await connection.command('QUIT', [221]);
+    } finally {
+      connection.close();
+    }
+  }
+}
@@ -1,24 +1,110 @@
 /**
- * @fileoverview Email utility using Resend for transactional emails.
+ * @fileoverview Email utility for transactional emails.
+ * The transport is picked from the environment so reset and verification
+ * emails also work in development and self-hosted setups without Resend.
  * @module lib/email
  */
-import { Resend } from 'resend';
+import { ResendTransport } from './email-transports/resend';
+import { SmtpTransport } from './email-transports/smtp';
+import { FileTransport } from './email-transports/file';
+import { ConsoleTransport } from './email-transports/console';
 
 /**
- * Sends an email using Resend API.
+ * A fully addressed email, ready to hand to a transport.
+ * When `html` is set the email is sent as multipart/alternative with `text` as the fallback part.
+ */
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Delivers email messages.
+ */
+export interface EmailTransport {
+  /** Transport name, used in logs */
+  name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+export const EMAIL_TRANSPORTS = ['resend', 'smtp', 'file', 'console'] as const;
+
+export type EmailTransportName = (typeof EMAIL_TRANSPORTS)[number];
+
+let transport: EmailTransport | undefined;
+
+/**
+ * Picks the transport name from the environment.
+ * EMAIL_TRANSPORT wins; otherwise Resend or SMTP when configured, and the console as a last resort.
+ * @returns The transport name.
+ */
+function resolveTransportName(): EmailTransportName {
+  const configured = process.env.EMAIL_TRANSPORT?.trim().toLowerCase();
+  if (configured) {
+    if (!(EMAIL_TRANSPORTS as readonly string[]).includes(configured)) {
+      throw new Error(`Unknown EMAIL_TRANSPORT "${configured}", expected one of: ${EMAIL_TRANSPORTS.join(', ')}.`);
+    }
+    return configured as EmailTransportName;
+  }
+
+  if (process.env.RESEND_API_KEY) return 'resend';
+  if (process.env.SMTP_HOST) return 'smtp';
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('No email transport configured. Set EMAIL_TRANSPORT, RESEND_API_KEY or SMTP_HOST.');
+  }
+  return 'console';
+}
+
+/**
+ * Returns the transport selected by the environment, creating it on first use.
+ * @returns The email transport.
+ */
+export function getEmailTransport(): EmailTransport {
+  if (transport) return transport;
+
+  switch (resolveTransportName()) {
+    case 'resend':
+      transport = new ResendTransport();
+      break;
+    case 'smtp':
+      transport = new SmtpTransport();
+      break;
+    case 'file':
+      transport = new FileTransport();
+      break;
+    case 'console':
+      transport = new ConsoleTransport();
+      break;
+  }
+  return transport;
+}
+
+/**
+ * Sends an email through the configured transport.
  * @param to - Recipient email address.
  * @param subject - Email subject.
  * @param text - Plain text content.
+ * @param html - Optional HTML content, sent alongside the plain text.
+ * @param headers - Optional extra headers such as List-Unsubscribe.
  * @returns Promise resolving when the email is sent.
  */
-export async function sendEmail({ to, subject, text }: { to: string; subject: string; text: string }): Promise<void> {
-  const apiKey = process.env.RESEND_API_KEY;
-  if (!apiKey) throw new Error('Missing RESEND_API_KEY in environment.');
-  const resend = new Resend(apiKey);
-  await resend.emails.send({
-    from: process.env.RESEND_FROM_EMAIL || 'noreply@example.com',
+export async function sendEmail({ to, subject, text, html, headers }: {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  headers?: Record<string, string>;
+}): Promise<void> {
+  await getEmailTransport().send({
+    from: process.env.EMAIL_FROM || process.env.RESEND_FROM_EMAIL || 'noreply@example.com',
     to,
     subject,
     text,
+    html,
+    headers,
   });
 }
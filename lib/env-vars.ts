@@ -0,0 +1,235 @@
+/**
+ * Environment variable utility
+ * Parses, validates and normalizes the `KEY=VALUE` text stored in ConfigDetails.envVars
+ */
+
+import { KNOWN_ENV_VARS_BY_NAME, type KnownEnvVar } from './constants/env-vars';
+
+/**
+ * A single environment variable assignment
+ * `line` is the 1-based source line when parsed from text
+ */
+export interface EnvVarEntry {
+  key: string;
+  value: string;
+  line?: number;
+}
+
+/**
+ * A problem found while parsing or validating environment variables
+ * Errors make the text invalid, warnings are hints about suspicious values
+ * `index` points at the entry the issue belongs to, if any
+ */
+export interface EnvVarIssue {
+  severity: 'error' | 'warning';
+  message: string;
+  line?: number;
+  index?: number;
+}
+
+/**
+ * Result of parsing environment variable text
+ */
+export interface ParsedEnvVars {
+  entries: EnvVarEntry[];
+  issues: EnvVarIssue[];
+}
+
+const ENV_VAR_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Splits a line into shell-like words
+ * Single quotes are literal, double quotes allow \" and \\ escapes
+ *
+ * @returns The words, or an error message if a quote is left open
+ */
+function splitWords(line: string): { words: string[]; error?: string } {
+  const words: string[] = [];
+  let current = '';
+  let inWord = false;
+  let quote: "'" | '"' | null = null;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (quote === "'") {
+      if (char === "'") quote = null;
+      else current += char;
+      continue;
+    }
+
+    if (quote === '"') {
+      if (char === '\\' && (line[i + 1] === '"' || line[i + 1] === '\\')) {
+        current += line[++i];
+      } else if (char === '"') {
+        quote = null;
+      } else {
+        current += char;
+      }
+      continue;
+    }
+
+    if (/\s/.test(char)) {
+      if (inWord) {
+        words.push(current);
+        current = '';
+        inWord = false;
+      }
+      continue;
+    }
+
+    inWord = true;
+    if (char === "'" || char === '"') {
+      quote = char;
+    } else {
+      current += char;
+    }
+  }
+
+  if (quote) {
+    return { words, error: `Unclosed ${quote === '"' ? 'double' : 'single'} quote` };
+  }
+  if (inWord) words.push(current);
+
+  return { words };
+}
+
+/**
+ * Checks a value against the type hint of a known variable
+ *
+ * @returns A warning message, or null if the value fits
+ */
+function checkKnownValue(known: KnownEnvVar, value: string): string | null {
+  switch (known.type) {
+    case 'boolean':
+      return value === '0' || value === '1' ? null : `${known.name} expects 0 or 1`;
+    case 'integer': {
+      if (!/^-?\d+$/.test(value)) return `${known.name} expects a whole number`;
+      const number = Number(value);
+      if (known.min !== undefined && number < known.min) return `${known.name} must be at least ${known.min}`;
+      if (known.max !== undefined && number > known.max) return `${known.name} must be at most ${known.max}`;
+      return null;
+    }
+    case 'enum':
+      return known.values?.includes(value) ? null : `${known.name} expects one of: ${known.values?.join(', ')}`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Validates a list of entries: names, duplicates and known value types
+ *
+ * @param entries - Entries to validate
+ * @returns Issues with the index of the offending entry
+ */
+export function validateEnvVarEntries(entries: EnvVarEntry[]): EnvVarIssue[] {
+  const issues: EnvVarIssue[] = [];
+  const firstIndexByKey = new Map<string, number>();
+
+  entries.forEach((entry, index) => {
+    if (!ENV_VAR_NAME_PATTERN.test(entry.key)) {
+      issues.push({
+        severity: 'error',
+        index,
+        message: entry.key
+          ? `"${entry.key}" is not a valid variable name`
+          : 'Variable name is required',
+      });
+      return;
+    }
+
+    const firstIndex = firstIndexByKey.get(entry.key);
+    if (firstIndex !== undefined) {
+      issues.push({ severity: 'error', index, message: `${entry.key} is set more than once` });
+      return;
+    }
+    firstIndexByKey.set(entry.key, index);
+
+    const known = KNOWN_ENV_VARS_BY_NAME.get(entry.key);
+    const warning = known ? checkKnownValue(known, entry.value) : null;
+    if (warning) {
+      issues.push({ severity: 'warning', index, message: warning });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Parses environment variable text
+ * Accepts one or more `KEY=VALUE` pairs per line, optional `export` prefixes,
+ * quoted values and `#` comment lines
+ *
+ * @param text - Raw envVars text
+ * @returns Parsed entries and any issues found
+ */
+export function parseEnvVars(text: string | null | undefined): ParsedEnvVars {
+  const entries: EnvVarEntry[] = [];
+  const issues: EnvVarIssue[] = [];
+
+  (text || '').split(/\r?\n/).forEach((rawLine, lineIndex) => {
+    const line = lineIndex + 1;
+    const trimmed = rawLine.trim();
+    if (!trimmed || trimmed.startsWith('#')) return;
+
+    const { words, error } = splitWords(trimmed);
+    if (error) {
+      issues.push({ severity: 'error', line, message: error });
+      return;
+    }
+
+    if (words[0] === 'export') words.shift();
+
+    for (const word of words) {
+      const separator = word.indexOf('=');
+      if (separator === -1) {
+        issues.push({ severity: 'error', line, message: `"${word}" is missing "=" and a value` });
+        continue;
+      }
+      entries.push({ key: word.slice(0, separator), value: word.slice(separator + 1), line });
+    }
+  });
+
+  for (const issue of validateEnvVarEntries(entries)) {
+    issues.push({ ...issue, line: entries[issue.index!].line });
+  }
+
+  return { entries, issues };
+}
+
+/**
+ * Quotes a value if it contains characters that would break parsing
+ */
+function quoteValue(value: string): string {
+  if (value === '' || /^[^\s'"\\#]+$/.test(value)) return value;
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Serializes entries as one `KEY=VALUE` pair per line
+ *
+ * @param entries - Entries to serialize
+ * @returns Normalized envVars text
+ */
+export function serializeEnvVars(entries: EnvVarEntry[]): string {
+  return entries.map((entry) => `${entry.key}=${quoteValue(entry.value)}`).join('\n');
+}
+
+/**
+ * Normalizes envVars text to one `KEY=VALUE` pair per line
+ * Comments and unparseable words are dropped, so only call this on valid text
+ *
+ * @param text - Raw envVars text
+ * @returns Normalized text
+ */
+export function normalizeEnvVars(text: string): string {
+  return serializeEnvVars(parseEnvVars(text).entries);
+}
+
+/**
+ * Returns the known variable definition for a key, if any
+ */
+export function getKnownEnvVar(key: string): KnownEnvVar | undefined {
+  return KNOWN_ENV_VARS_BY_NAME.get(key);
+}
@@ -0,0 +1,69 @@
+/**
+ * Game image upload utility
+ * Copies game cover images into our storage so they don't depend on Steam's CDN,
+ * and stores covers uploaded for games added by hand
+ */
+
+import { createHash } from 'crypto';
+import { getStorageProvider } from './storage';
+import { processCover } from './image-processing';
+
+interface UploadImageOptions {
+  imageUrl: string;
+  fileName: string;
+}
+
+/**
+ * Copies an image into storage as a resized WebP cover
+ * Images that were already stored are reused without downloading them again
+ * 
+ * @param options - Upload options containing image URL and file name without extension
+ * @returns Public URL of the stored image or null if upload fails
+ */
+export async function uploadGameImage(options: UploadImageOptions): Promise<string | null> {
+  try {
+    const { imageUrl, fileName } = options;
+    const key = `images/${fileName}.webp`;
+    const storage = getStorageProvider();
+    
+    // If the image is already stored, just return its URL
+    if (await storage.exists(key)) {
+      console.log(`Image ${fileName} already exists in ${storage.name} storage, using existing URL`);
+      return storage.getUrl(key);
+    }
+    
+    // Fetch the image from URL
+    const imageResponse = await fetch(imageUrl);
+    if (!imageResponse.ok) {
+      throw new Error(`Failed to fetch image from ${imageUrl}`);
+    }
+    
+    const cover = await processCover(Buffer.from(await imageResponse.arrayBuffer()));
+    return await storage.put(key, cover, 'image/webp');
+  } catch (error) {
+    console.error('Game image upload error:', error);
+    return null;
+  }
+}
+
+/**
+ * Stores an uploaded cover image as a resized WebP cover
+ * The key ends in a hash of the cover, so a new cover for the same game gets a new URL
+ * Throws the messages in IMAGE_ERRORS when the image itself is rejected
+ *
+ * @param data - Uploaded image bytes
+ * @param fileName - File name without extension
+ * @returns Public URL of the stored image
+ */
+export async function storeGameCover(data: Buffer, fileName: string): Promise<string> {
+  const cover = await processCover(data);
+  const hash = createHash('sha256').update(cover).digest('hex').slice(0, 16);
+  const key = `images/${fileName.replace(/[^A-Za-z0-9._-]/g, '_')}-${hash}.webp`;
+
+  try {
+    return await getStorageProvider().put(key, cover, 'image/webp');
+  } catch (error) {
+    console.error('Game cover upload error:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Fixture game metadata provider
+ * Serves games from a JSON file instead of Steam, so games can be created without network access
+ */
+
+import { readFileSync } from 'fs';
+import { GraphicsApi } from '@prisma/client';
+import type { SteamGameInfo, SteamGameMetadata } from '../steam';
+import type { GameMetadataProvider } from '../game-metadata';
+import defaultFixtures from './fixtures.json';
+
+/**
+ * A game as written in the fixture file, keyed by Steam App ID
+ * Metadata fields are optional and `releaseDate` is an ISO date.
+ * `unavailable: true` makes every lookup of the game fail, to exercise retries
+ */
+interface GameFixture {
+  name: string;
+  imageUrl?: string;
+  developers?: string[];
+  releaseDate?: string | null;
+  genres?: string[];
+  graphicsApis?: string[];
+  antiCheat?: string[];
+  alternateNames?: string[];
+  unavailable?: boolean;
+}
+
+/**
+ * Serves the games in GAME_METADATA_FIXTURES, or the bundled fixtures.json when unset
+ * App IDs missing from the file are unknown games
+ */
+export class FixtureGameMetadataProvider implements GameMetadataProvider {
+  name = 'fixture';
+  private fixtures: Record<string, GameFixture>;
+
+  constructor() {
+    const file = process.env.GAME_METADATA_FIXTURES;
+    this.fixtures = file ? JSON.parse(readFileSync(file, 'utf8')) : defaultFixtures;
+  }
+
+  /**
+   * Fixture of a game, throwing for games marked unavailable
+   */
+  private find(steamId: string): GameFixture | null {
+    const fixture = this.fixtures[steamId];
+    if (fixture?.unavailable) {
+      throw new Error(`Fixture game ${steamId} is marked unavailable`);
+    }
+    return fixture ?? null;
+  }
+
+  async getGameInfo(steamId: string): Promise<SteamGameInfo | null> {
+    const fixture = this.find(steamId);
+    if (!fixture) return null;
+
+    return { steamId, name: fixture.name, imageUrl: fixture.imageUrl };
+  }
+
+  async getGameMetadata(steamId: string): Promise<SteamGameMetadata | null> {
+    const fixture = this.find(steamId);
+    if (!fixture) return null;
+
+    return {
+      developers: fixture.developers ?? [],
+      releaseDate: fixture.releaseDate ? new Date(fixture.releaseDate) : null,
+      genres: fixture.genres ?? [],
+      graphicsApis: (fixture.graphicsApis ?? []).filter((api): api is GraphicsApi => (Object.values(GraphicsApi) as string[]).includes(api)),
+      antiCheat: fixture.antiCheat ?? [],
+      alternateNames: fixture.alternateNames ?? [],
+    };
+  }
+}
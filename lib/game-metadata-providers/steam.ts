@@ -0,0 +1,19 @@
+/**
+ * Steam game metadata provider
+ * Names and header images come from steamgrab, store metadata from the Steam store API
+ */
+
+import { fetchSteamGameInfo, getSteamGameMetadata, type SteamGameInfo, type SteamGameMetadata } from '../steam';
+import type { GameMetadataProvider } from '../game-metadata';
+
+export class SteamGameMetadataProvider implements GameMetadataProvider {
+  name = 'steam';
+
+  getGameInfo(steamId: string): Promise<SteamGameInfo | null> {
+    return fetchSteamGameInfo(steamId);
+  }
+
+  getGameMetadata(steamId: string): Promise<SteamGameMetadata | null> {
+    return getSteamGameMetadata(steamId);
+  }
+}
@@ -0,0 +1,221 @@
+/**
+ * Game metadata lookups
+ * Game details come from a GameMetadataProvider picked from the environment (Steam, or
+ * fixtures for offline development and tests). Lookups are retried with exponential backoff,
+ * and results, including unknown app IDs, are cached in-process and in the database
+ */
+
+import { GameSource } from '@prisma/client';
+import { prisma } from './prisma';
+import type { SteamGameInfo, SteamGameMetadata } from './steam';
+import { SteamGameMetadataProvider } from './game-metadata-providers/steam';
+import { FixtureGameMetadataProvider } from './game-metadata-providers/fixture';
+
+/**
+ * Looks up games by Steam App ID
+ * Both methods return null for unknown apps and throw when the source cannot be reached
+ */
+export interface GameMetadataProvider {
+  /** Provider name, used in logs */
+  name: string;
+  /** Name and header image of a game */
+  getGameInfo(steamId: string): Promise<SteamGameInfo | null>;
+  /** Store metadata of a game, never cached so refreshes see current data */
+  getGameMetadata(steamId: string): Promise<SteamGameMetadata | null>;
+}
+
+export const GAME_METADATA_PROVIDERS = ['steam', 'fixture'] as const;
+
+export type GameMetadataProviderName = (typeof GAME_METADATA_PROVIDERS)[number];
+
+/**
+ * Error message when a lookup still fails after every retry
+ */
+export const GAME_LOOKUP_UNAVAILABLE = 'Game lookup is temporarily unavailable';
+
+/**
+ * How long found games and unknown app IDs stay cached
+ * Unknown IDs expire sooner, since Steam may have failed to find an app that does exist
+ */
+const FOUND_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const NOT_FOUND_CACHE_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Lookups are tried this many times, waiting RETRY_BASE_DELAY_MS, then twice that, and so on
+ */
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 500;
+
+/**
+ * Largest number of lookups kept in memory, expired entries are dropped first
+ */
+const MEMORY_CACHE_LIMIT = 1000;
+
+interface CachedLookup {
+  info: SteamGameInfo | null;
+  expiresAt: number;
+}
+
+// Define global type for the cache so hot reloads keep it
+declare global {
+  var gameLookupCache: Map<string, CachedLookup> | undefined;
+}
+
+const memoryCache = global.gameLookupCache || new Map<string, CachedLookup>();
+global.gameLookupCache = memoryCache;
+
+let provider: GameMetadataProvider | undefined;
+
+/**
+ * Returns the provider selected by GAME_METADATA_PROVIDER, creating it on first use
+ * Defaults to Steam
+ *
+ * @returns The game metadata provider
+ */
+export function getGameMetadataProvider(): GameMetadataProvider {
+  if (provider) return provider;
+
+  const configured = (process.env.GAME_METADATA_PROVIDER?.trim().toLowerCase() || 'steam') as GameMetadataProviderName;
+  switch (configured) {
+    case 'steam':
+      provider = new SteamGameMetadataProvider();
+      break;
+    case 'fixture':
+      provider = new FixtureGameMetadataProvider();
+      break;
+    default:
+      throw new Error(
+        `Unknown GAME_METADATA_PROVIDER "${configured}", expected one of: ${GAME_METADATA_PROVIDERS.join(', ')}.`
+      );
+  }
+
+  return provider;
+}
+
+/**
+ * Runs a lookup, retrying failures with exponential backoff
+ *
+ * @param label - Description for logs
+ * @param lookup - The lookup to run
+ * @returns The lookup's result
+ * @throws Error with message GAME_LOOKUP_UNAVAILABLE when every attempt failed
+ */
+async function withRetry<T>(label: string, lookup: () => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await lookup();
+    } catch (error) {
+      if (attempt >= MAX_ATTEMPTS) {
+        console.error(`${label} failed after ${attempt} attempts:`, error);
+        throw new Error(GAME_LOOKUP_UNAVAILABLE);
+      }
+      const delay = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+      console.warn(`${label} failed, retrying in ${delay}ms:`, error instanceof Error ? error.message : error);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/**
+ * Stores a lookup in memory, dropping expired entries and then the oldest ones when full
+ */
+function rememberLookup(steamId: string, lookup: CachedLookup): void {
+  if (memoryCache.size >= MEMORY_CACHE_LIMIT) {
+    const now = Date.now();
+    memoryCache.forEach((entry, key) => {
+      if (entry.expiresAt <= now) memoryCache.delete(key);
+    });
+    // Maps iterate in insertion order, so the first keys are the oldest
+    const keys = memoryCache.keys();
+    while (memoryCache.size >= MEMORY_CACHE_LIMIT) {
+      memoryCache.delete(keys.next().value as string);
+    }
+  }
+  memoryCache.set(steamId, lookup);
+}
+
+/**
+ * Looks up a game's name and header image
+ * Checks the in-process cache, stored games and their aliases, then the database cache, before
+ * asking the provider
+ *
+ * @param steamId - The Steam App ID
+ * @returns Game information, or null if the app does not exist
+ * @throws Error with message GAME_LOOKUP_UNAVAILABLE when the provider keeps failing
+ */
+export async function lookupGameInfo(steamId: string): Promise<SteamGameInfo | null> {
+  const now = Date.now();
+
+  const cached = memoryCache.get(steamId);
+  if (cached && cached.expiresAt > now) {
+    return cached.info;
+  }
+
+  const existingGame = await prisma.game.findUnique({
+    where: { source_externalId: { source: GameSource.STEAM, externalId: steamId } },
+    select: { name: true, imageUrl: true },
+  });
+  if (existingGame) {
+    return { steamId, ...existingGame };
+  }
+
+  // App IDs of merged games resolve to the game they were merged into
+  const alias = await prisma.gameAlias.findUnique({
+    where: { source_externalId: { source: GameSource.STEAM, externalId: steamId } },
+    select: { game: { select: { name: true, imageUrl: true } } },
+  });
+  if (alias) {
+    return { steamId, ...alias.game };
+  }
+
+  const stored = await prisma.steamAppCache.findUnique({ where: { steamId } });
+  if (stored && stored.expiresAt.getTime() > now) {
+    const info = stored.name
+      ? { steamId, name: stored.name, imageUrl: stored.imageUrl ?? undefined }
+      : null;
+    rememberLookup(steamId, { info, expiresAt: stored.expiresAt.getTime() });
+    return info;
+  }
+
+  const gameProvider = getGameMetadataProvider();
+  const info = await withRetry(`${gameProvider.name} lookup of app ${steamId}`, () =>
+    gameProvider.getGameInfo(steamId)
+  );
+
+  const expiresAt = new Date(now + (info ? FOUND_CACHE_TTL_MS : NOT_FOUND_CACHE_TTL_MS));
+  rememberLookup(steamId, { info, expiresAt: expiresAt.getTime() });
+
+  // A failed cache write only costs a repeated lookup later
+  const data = { name: info?.name ?? null, imageUrl: info?.imageUrl ?? null, expiresAt };
+  await prisma.steamAppCache
+    .upsert({ where: { steamId }, create: { steamId, ...data }, update: data })
+    .catch((error) => console.error('Error caching game lookup:', error));
+
+  return info;
+}
+
+/**
+ * Looks up a game's store metadata, retrying failures
+ *
+ * @param steamId - The Steam App ID
+ * @returns The metadata, or null if the app has no store page
+ * @throws Error with message GAME_LOOKUP_UNAVAILABLE when the provider keeps failing
+ */
+export async function lookupGameMetadata(steamId: string): Promise<SteamGameMetadata | null> {
+  const gameProvider = getGameMetadataProvider();
+  return withRetry(`${gameProvider.name} metadata lookup of app ${steamId}`, () =>
+    gameProvider.getGameMetadata(steamId)
+  );
+}
+
+/**
+ * Deletes expired lookups from the database cache
+ *
+ * @returns Number of deleted entries
+ */
+export async function pruneGameLookupCache(now = new Date()): Promise<number> {
+  const { count } = await prisma.steamAppCache.deleteMany({
+    where: { expiresAt: { lte: now } },
+  });
+  return count;
+}
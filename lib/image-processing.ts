@@ -0,0 +1,180 @@
+/**
+ * Image processing for uploads
+ * Decodes, validates and re-encodes avatars and game covers on the server,
+ * so stored files are always WebP of a known size without EXIF metadata
+ */
+
+import sharp from 'sharp';
+import { AVATAR_SIZES, type AvatarSize } from './utils';
+
+export type SniffedImageType = 'jpeg' | 'png' | 'gif' | 'webp';
+
+/**
+ * Errors caused by the uploaded image itself, shown to the user as-is
+ */
+export const IMAGE_ERRORS = {
+  invalidData: 'Image data is not valid base64',
+  tooLarge: 'Image is too large',
+  unsupportedType: 'Unsupported image type, use JPEG, PNG, GIF or WebP',
+  dimensionsTooLarge: 'Image dimensions are too large',
+  unreadable: 'Image could not be read',
+} as const;
+
+/**
+ * Largest accepted avatar upload, matches the limit in the profile image uploader
+ */
+export const MAX_AVATAR_BYTES = 2 * 1024 * 1024;
+
+/**
+ * Largest accepted game cover download
+ */
+export const MAX_COVER_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Largest accepted width or height of an input image
+ */
+export const MAX_INPUT_DIMENSION = 4096;
+
+/**
+ * Game covers are scaled down to fit twice Steam's 460x215 header size
+ */
+const COVER_MAX_WIDTH = 920;
+const COVER_MAX_HEIGHT = 430;
+
+const WEBP_QUALITY = 82;
+
+/**
+ * Detects the image type from the file's leading bytes, ignoring any claimed extension or MIME type
+ *
+ * @param data - File contents
+ * @returns The image type, or null if it is not a supported image
+ */
+export function sniffImageType(data: Buffer): SniffedImageType | null {
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'jpeg';
+  if (data.length >= 8 && data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'png';
+  if (data.length >= 6 && ['GIF87a', 'GIF89a'].includes(data.toString('ascii', 0, 6))) return 'gif';
+  if (data.length >= 12 && data.toString('ascii', 0, 4) === 'RIFF' && data.toString('ascii', 8, 12) === 'WEBP') return 'webp';
+  return null;
+}
+
+/**
+ * Decodes base64 image data, with or without a data URL prefix
+ *
+ * @param imageData - Base64 string or data URL
+ * @param maxBytes - Largest accepted decoded size
+ * @returns The decoded bytes
+ */
+export function decodeBase64Image(imageData: string, maxBytes: number): Buffer {
+  const base64 = (imageData.includes('base64,') ? imageData.split('base64,')[1] : imageData).replace(/\s/g, '');
+
+  if (!base64 || !/^[A-Za-z0-9+/]+={0,2}$/.test(base64)) {
+    throw new Error(IMAGE_ERRORS.invalidData);
+  }
+  // Check the size before decoding so oversized uploads are not copied into memory again
+  if (Math.floor((base64.length * 3) / 4) > maxBytes + 2) {
+    throw new Error(IMAGE_ERRORS.tooLarge);
+  }
+
+  const data = Buffer.from(base64, 'base64');
+  if (data.length > maxBytes) {
+    throw new Error(IMAGE_ERRORS.tooLarge);
+  }
+  return data;
+}
+
+/**
+ * Checks the type and dimensions of an input image and prepares it for resizing
+ * Only the first frame of animated images is used
+ *
+ * @param data - Image bytes
+ * @returns A sharp pipeline with EXIF orientation applied
+ */
+async function loadImage(data: Buffer): Promise<sharp.Sharp> {
+  if (!sniffImageType(data)) {
+    throw new Error(IMAGE_ERRORS.unsupportedType);
+  }
+
+  const image = sharp(data, {
+    limitInputPixels: MAX_INPUT_DIMENSION * MAX_INPUT_DIMENSION,
+    failOn: 'error',
+  });
+
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await image.metadata();
+  } catch {
+    throw new Error(IMAGE_ERRORS.unreadable);
+  }
+
+  if (!metadata.width || !metadata.height) {
+    throw new Error(IMAGE_ERRORS.unreadable);
+  }
+  if (metadata.width > MAX_INPUT_DIMENSION || metadata.height > MAX_INPUT_DIMENSION) {
+    throw new Error(IMAGE_ERRORS.dimensionsTooLarge);
+  }
+
+  // Rotate according to the EXIF orientation before it is stripped.
+  // sharp drops EXIF, XMP and ICC metadata on output unless asked to keep it
+  return image.rotate();
+}
+
+/**
+ * Converts an uploaded avatar into square WebP images of every avatar size
+ *
+ * @param data - Uploaded image bytes
+ * @returns WebP bytes for each size
+ */
+export async function processAvatar(data: Buffer): Promise<Record<AvatarSize, Buffer>> {
+  const image = await loadImage(data);
+
+  try {
+    const entries = await Promise.all(
+      (Object.keys(AVATAR_SIZES) as AvatarSize[]).map(async (size) => {
+        const output = await image
+          .clone()
+          .resize(AVATAR_SIZES[size], AVATAR_SIZES[size], { fit: 'cover', position: 'attention' })
+          .webp({ quality: WEBP_QUALITY })
+          .toBuffer();
+        return [size, output] as const;
+      })
+    );
+    return Object.fromEntries(entries) as Record<AvatarSize, Buffer>;
+  } catch (error) {
+    console.error('Error processing avatar:', error);
+    throw new Error(IMAGE_ERRORS.unreadable);
+  }
+}
+
+/**
+ * Converts a game cover into a WebP image no larger than the cover size
+ *
+ * @param data - Cover image bytes
+ * @returns WebP bytes
+ */
+export async function processCover(data: Buffer): Promise<Buffer> {
+  if (data.length > MAX_COVER_BYTES) {
+    throw new Error(IMAGE_ERRORS.tooLarge);
+  }
+
+  const image = await loadImage(data);
+
+  try {
+    return await image
+      .resize(COVER_MAX_WIDTH, COVER_MAX_HEIGHT, { fit: 'inside', withoutEnlargement: true })
+      .webp({ quality: WEBP_QUALITY })
+      .toBuffer();
+  } catch (error) {
+    console.error('Error processing cover:', error);
+    throw new Error(IMAGE_ERRORS.unreadable);
+  }
+}
+
+/**
+ * Whether an error was caused by the image itself rather than the server
+ *
+ * @param error - Caught error
+ * @returns True for the messages in IMAGE_ERRORS
+ */
+export function isImageError(error: unknown): error is Error {
+  return error instanceof Error && (Object.values(IMAGE_ERRORS) as string[]).includes(error.message);
+}
@@ -0,0 +1,104 @@
+/**
+ * Background jobs
+ * Periodic tasks run in-process by the job runner or triggered through /api/jobs/[name]
+ */
+
+import { sendDueDigests } from './services/email-digest-service';
+import { refreshTrendingScores } from './services/config-service';
+import { refreshStaleGameMetadata } from './services/game-service';
+import { pruneGameLookupCache } from './game-metadata';
+
+/**
+ * A periodic task
+ * `intervalMs` is how often the in-process runner starts it
+ */
+interface Job {
+  intervalMs: number;
+  run: () => Promise<unknown>;
+}
+
+export const JOBS = {
+  'email-digests': {
+    intervalMs: 60 * 60 * 1000,
+    run: () => sendDueDigests(),
+  },
+  'trending-scores': {
+    intervalMs: 10 * 60 * 1000,
+    run: () => refreshTrendingScores(),
+  },
+  'game-metadata': {
+    intervalMs: 60 * 60 * 1000,
+    run: async () => ({
+      ...(await refreshStaleGameMetadata()),
+      prunedLookups: await pruneGameLookupCache(),
+    }),
+  },
+} satisfies Record<string, Job>;
+
+export type JobName = keyof typeof JOBS;
+
+/**
+ * How often the runner checks for jobs that are due
+ */
+const RUNNER_TICK_MS = 60 * 1000;
+
+// Define global type for the runner so hot reloads don't start a second one
+declare global {
+  var jobRunner: ReturnType<typeof setInterval> | undefined;
+}
+
+const lastRunAt = new Map<JobName, number>();
+const running = new Set<JobName>();
+
+/**
+ * Whether a job with this name exists
+ */
+export function isJobName(name: string): name is JobName {
+  return Object.prototype.hasOwnProperty.call(JOBS, name);
+}
+
+/**
+ * Runs a job now, unless it is already running in this process
+ *
+ * @param name - Job to run
+ * @returns The job's result, or null if it was already running
+ */
+export async function runJob(name: JobName): Promise<unknown> {
+  if (running.has(name)) return null;
+
+  running.add(name);
+  lastRunAt.set(name, Date.now());
+  try {
+    return await JOBS[name].run();
+  } finally {
+    running.delete(name);
+  }
+}
+
+/**
+ * Runs every job whose interval has passed since its last run
+ */
+async function runDueJobs(): Promise<void> {
+  const now = Date.now();
+  for (const name of Object.keys(JOBS) as JobName[]) {
+    if (now - (lastRunAt.get(name) ?? 0) < JOBS[name].intervalMs) continue;
+    try {
+      const result = await runJob(name);
+      console.log(`Job ${name} finished`, result ?? '');
+    } catch (error) {
+      console.error(`Job ${name} failed:`, error);
+    }
+  }
+}
+
+/**
+ * Starts the in-process job runner, once per server process
+ * Enabled from instrumentation.ts with JOB_RUNNER_ENABLED=true, so no external scheduler is needed
+ */
+export function startJobRunner(): void {
+  if (global.jobRunner) return;
+
+  global.jobRunner = setInterval(runDueJobs, RUNNER_TICK_MS);
+  runDueJobs();
+  console.log('Job runner started');
+}
@@ -0,0 +1,474 @@
+/**
+ * Markdown utility
+ * Parses the Markdown subset allowed in config notes and comments into a plain node tree
+ *
+ * The parser never produces raw HTML: tags typed by users stay text, and the renderer
+ * only maps node types to the elements in MARKDOWN_ALLOWED_ELEMENTS.
+ */
+
+import { normalizeMention } from './mentions';
+
+/**
+ * Every element a rendered Markdown document may contain
+ */
+export const MARKDOWN_ALLOWED_ELEMENTS = [
+  'p', 'br', 'strong', 'em', 'del', 'code', 'pre', 'a',
+  'ul', 'ol', 'li', 'blockquote', 'hr', 'h3', 'h4', 'h5', 'h6',
+] as const;
+
+export type MarkdownElement = typeof MARKDOWN_ALLOWED_ELEMENTS[number];
+
+/**
+ * Protocols allowed in links, anything else (javascript:, data:, ...) is rendered as text
+ */
+const SAFE_LINK_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+/**
+ * Deepest nesting of blockquotes and lists, deeper content is flattened into text
+ */
+const MAX_NESTING_DEPTH = 4;
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'break' }
+  | { type: 'strong' | 'em' | 'del'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] };
+
+export type MarkdownBlock =
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'code'; language: string | null; text: string }
+  | { type: 'blockquote'; children: MarkdownBlock[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownBlock[][] }
+  | { type: 'hr' };
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})\s*([\w+#.-]*)\s*$/;
+const HEADING_PATTERN = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const HR_PATTERN = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const BLOCKQUOTE_PATTERN = /^ {0,3}>\s?(.*)$/;
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const ESCAPABLE = '\\`*_{}[]()#+-.!~>|<';
+
+/**
+ * Returns the leading whitespace width of a line, tabs count as four spaces
+ */
+function indentOf(line: string): number {
+  let width = 0;
+  for (const char of line) {
+    if (char === ' ') width++;
+    else if (char === '\t') width += 4;
+    else break;
+  }
+  return width;
+}
+
+/**
+ * Removes up to `width` columns of leading whitespace
+ */
+function dedent(line: string, width: number): string {
+  let index = 0;
+  let removed = 0;
+  while (index < line.length && removed < width) {
+    if (line[index] === ' ') removed++;
+    else if (line[index] === '\t') removed += 4;
+    else break;
+    index++;
+  }
+  return line.slice(index);
+}
+
+/**
+ * Whether a line starts a block other than a paragraph
+ */
+function startsBlock(line: string): boolean {
+  return FENCE_PATTERN.test(line)
+    || HEADING_PATTERN.test(line)
+    || HR_PATTERN.test(line)
+    || BLOCKQUOTE_PATTERN.test(line)
+    || LIST_ITEM_PATTERN.test(line);
+}
+
+/**
+ * Origin relative links are resolved against to check they stay on this site
+ */
+const RELATIVE_LINK_BASE = 'https://relative.invalid';
+
+/**
+ * Checks a link target and returns it if it uses an allowed protocol
+ * Relative paths on this site are allowed, protocol-relative URLs are not
+ *
+ * @param href - Link target as written by the user
+ * @returns The safe URL, or null if the link should be dropped
+ */
+export function sanitizeUrl(href: string): string | null {
+  const trimmed = href.trim();
+  if (!trimmed) return null;
+
+  // Browsers read "/\evil.com" and "/\t/evil.com" as "//evil.com", so relative links are
+  // resolved the way a browser would and must not leave the site
+  if (trimmed.startsWith('/') || trimmed.startsWith('#')) {
+    try {
+      const url = new URL(trimmed, RELATIVE_LINK_BASE);
+      if (url.origin !== RELATIVE_LINK_BASE) return null;
+      return trimmed.startsWith('#') ? url.hash || trimmed : `${url.pathname}${url.search}${url.hash}`;
+    } catch {
+      return null;
+    }
+  }
+
+  try {
+    const url = new URL(trimmed);
+    return SAFE_LINK_PROTOCOLS.includes(url.protocol) ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Runs a sticky pattern at a position without slicing the text
+ */
+function matchAt(pattern: RegExp, text: string, index: number): RegExpExecArray | null {
+  pattern.lastIndex = index;
+  return pattern.exec(text);
+}
+
+/**
+ * Finds the end of a bare URL, leaving trailing punctuation and unbalanced ')' outside
+ */
+function bareUrlEnd(text: string, start: number): number {
+  let end = start;
+  let opens = 0;
+  let closes = 0;
+  while (end < text.length && !/[\s<>"`]/.test(text[end])) {
+    if (text[end] === '(') opens++;
+    else if (text[end] === ')') closes++;
+    end++;
+  }
+
+  while (end > start) {
+    const last = text[end - 1];
+    if ('.,;:!?*_~\''.includes(last)) {
+      end--;
+    } else if (last === ')' && closes > opens) {
+      closes--;
+      end--;
+    } else {
+      break;
+    }
+  }
+  return end;
+}
+
+/**
+ * Finds the closing delimiter of an emphasis run
+ * Underscores only count at word boundaries so names like DXVK_ASYNC stay intact
+ *
+ * A search that fails from one position also fails from any later one, so `failedFrom`
+ * remembers the earliest failed position per delimiter and unmatched delimiters are only
+ * scanned for once, keeping parsing linear
+ */
+function findClosing(text: string, delimiter: string, from: number, failedFrom: Map<string, number>): number {
+  const failed = failedFrom.get(delimiter);
+  if (failed !== undefined && from >= failed) return -1;
+
+  let index = from;
+  while ((index = text.indexOf(delimiter, index)) !== -1) {
+    const before = text[index - 1];
+    const after = text[index + delimiter.length];
+    const validClose = index > from && before !== undefined && !/\s/.test(before) && before !== '\\';
+    const boundary = delimiter[0] !== '_' || after === undefined || !/[A-Za-z0-9]/.test(after);
+    if (validClose && boundary) return index;
+    index += delimiter.length;
+  }
+  failedFrom.set(delimiter, from);
+  return -1;
+}
+
+/**
+ * Parses inline Markdown: code spans, emphasis, strikethrough, links, bare URLs and mentions
+ *
+ * @param text - Text of a single block
+ * @param allowLinks - False inside link text, so links never nest
+ * @returns Inline nodes
+ */
+export function parseInline(text: string, allowLinks = true): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let buffer = '';
+
+  const flush = () => {
+    if (buffer) {
+      const last = nodes[nodes.length - 1];
+      if (last?.type === 'text') last.text += buffer;
+      else nodes.push({ type: 'text', text: buffer });
+      buffer = '';
+    }
+  };
+  const push = (node: MarkdownInline) => {
+    flush();
+    nodes.push(node);
+  };
+
+  // Earliest position a closer search failed from, per delimiter or code span run
+  const failedFrom = new Map<string, number>();
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+
+    // Backslash escapes
+    if (char === '\\' && i + 1 < text.length && ESCAPABLE.includes(text[i + 1])) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    // Line breaks inside a paragraph are kept
+    if (char === '\n') {
+      buffer = buffer.replace(/ +$/, '');
+      push({ type: 'break' });
+      i++;
+      continue;
+    }
+
+    // Code spans
+    if (char === '`') {
+      const run = matchAt(/`+/y, text, i)![0];
+      const failed = failedFrom.get(run);
+      const close = failed !== undefined && i >= failed ? -1 : text.indexOf(run, i + run.length);
+      if (close === -1) {
+        failedFrom.set(run, Math.min(i, failed ?? i));
+      } else {
+        const code = text.slice(i + run.length, close).replace(/\n/g, ' ');
+        push({ type: 'code', text: code.length > 2 && code.startsWith(' ') && code.endsWith(' ') ? code.slice(1, -1) : code });
+        i = close + run.length;
+        continue;
+      }
+      buffer += run;
+      i += run.length;
+      continue;
+    }
+
+    // Strong, emphasis and strikethrough
+    const delimiter = text.startsWith('**', i) ? '**'
+      : text.startsWith('__', i) ? '__'
+      : text.startsWith('~~', i) ? '~~'
+      : char === '*' || char === '_' ? char
+      : null;
+    if (delimiter) {
+      const before = text[i - 1];
+      const after = text[i + delimiter.length];
+      const opens = after !== undefined && !/\s/.test(after)
+        && (delimiter[0] !== '_' || before === undefined || !/[A-Za-z0-9]/.test(before));
+      const close = opens ? findClosing(text, delimiter, i + delimiter.length, failedFrom) : -1;
+      if (close !== -1) {
+        const inner = parseInline(text.slice(i + delimiter.length, close), allowLinks);
+        const type = delimiter === '~~' ? 'del' : delimiter.length === 2 ? 'strong' : 'em';
+        push({ type, children: inner });
+        i = close + delimiter.length;
+        continue;
+      }
+      buffer += delimiter;
+      i += delimiter.length;
+      continue;
+    }
+
+    if (allowLinks) {
+      // [text](url)
+      if (char === '[') {
+        const match = matchAt(/\[([^[\]\n]*)\]\(\s*<?([^\s)>]+)>?(?:\s+"[^"]*")?\s*\)/y, text, i);
+        if (match) {
+          const href = sanitizeUrl(match[2]);
+          if (href) {
+            push({ type: 'link', href, children: parseInline(match[1] || match[2], false) });
+          } else {
+            buffer += match[1] || match[2];
+          }
+          i += match[0].length;
+          continue;
+        }
+      }
+
+      // <https://example.com>
+      if (char === '<') {
+        const match = matchAt(/<((?:https?:\/\/|mailto:)[^\s<>]+)>/iy, text, i);
+        const href = match && sanitizeUrl(match[1]);
+        if (match && href) {
+          push({ type: 'link', href, children: [{ type: 'text', text: match[1] }] });
+          i += match[0].length;
+          continue;
+        }
+      }
+
+      // @username mentions link to the profile
+      if (char === '@' && (i === 0 || !/[\w@.]/.test(text[i - 1]))) {
+        const match = matchAt(/@([A-Za-z0-9_.]{3,30})/y, text, i);
+        const username = match ? normalizeMention(match[1]) : '';
+        if (match && username.length >= 3) {
+          const raw = `@${match[1].replace(/\.+$/, '')}`;
+          push({ type: 'link', href: `/users/${username}`, children: [{ type: 'text', text: raw }] });
+          i += raw.length;
+          continue;
+        }
+      }
+
+      // Bare https:// and www. URLs
+      const atWordStart = i === 0 || /[\s(*_~]/.test(text[i - 1]);
+      if (atWordStart && matchAt(/(?:https?:\/\/|www\.)[^\s<>]/iy, text, i)) {
+        const end = bareUrlEnd(text, i);
+        const raw = text.slice(i, end);
+        const href = sanitizeUrl(raw.toLowerCase().startsWith('www.') ? `https://${raw}` : raw);
+        if (href && end > i) {
+          push({ type: 'link', href, children: [{ type: 'text', text: raw }] });
+          i = end;
+          continue;
+        }
+      }
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
+
+/**
+ * Parses block-level Markdown from lines
+ */
+function parseLines(lines: string[], depth: number): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    // Fenced code block, an unclosed fence runs to the end
+    const fence = FENCE_PATTERN.exec(line);
+    if (fence) {
+      const marker = fence[1];
+      const indent = indentOf(line);
+      const code: string[] = [];
+      i++;
+      const isClosing = (candidate: string) => {
+        const closing = /^ {0,3}(`{3,}|~{3,})\s*$/.exec(candidate);
+        return !!closing && closing[1][0] === marker[0] && closing[1].length >= marker.length;
+      };
+      while (i < lines.length && !isClosing(lines[i])) {
+        code.push(dedent(lines[i], indent));
+        i++;
+      }
+      i++;
+      blocks.push({ type: 'code', language: fence[2] || null, text: code.join('\n') });
+      continue;
+    }
+
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    // Checked before lists so "---" and "* * *" are rules rather than items
+    if (HR_PATTERN.test(line)) {
+      blocks.push({ type: 'hr' });
+      i++;
+      continue;
+    }
+
+    if (BLOCKQUOTE_PATTERN.test(line) && depth < MAX_NESTING_DEPTH) {
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i].trim()) {
+        const match = BLOCKQUOTE_PATTERN.exec(lines[i]);
+        // Lines without '>' continue the quote's paragraph
+        quoted.push(match ? match[1] : lines[i]);
+        i++;
+      }
+      blocks.push({ type: 'blockquote', children: parseLines(quoted, depth + 1) });
+      continue;
+    }
+
+    const item = LIST_ITEM_PATTERN.exec(line);
+    if (item && depth < MAX_NESTING_DEPTH) {
+      const ordered = /\d/.test(item[2]);
+      const listIndent = indentOf(line);
+      const items: MarkdownBlock[][] = [];
+
+      while (i < lines.length) {
+        const current = LIST_ITEM_PATTERN.exec(lines[i]);
+        if (!current || /\d/.test(current[2]) !== ordered || indentOf(lines[i]) > listIndent + 1) break;
+
+        const contentIndent = current[1].length + current[2].length + 1;
+        const itemLines = [current[3]];
+        i++;
+
+        while (i < lines.length) {
+          const next = lines[i];
+          if (!next.trim()) {
+            // A blank line continues the item only if indented content follows
+            let j = i + 1;
+            while (j < lines.length && !lines[j].trim()) j++;
+            if (j < lines.length && indentOf(lines[j]) >= contentIndent) {
+              itemLines.push(...lines.slice(i, j).map(() => ''));
+              i = j;
+              continue;
+            }
+            break;
+          }
+          if (indentOf(next) >= contentIndent) {
+            itemLines.push(dedent(next, contentIndent));
+          } else if (!startsBlock(next)) {
+            // Lazy continuation of the item's paragraph
+            itemLines.push(next.trim());
+          } else {
+            break;
+          }
+          i++;
+        }
+
+        items.push(parseLines(itemLines, depth + 1));
+
+        // Items of one list may be separated by blank lines
+        let j = i;
+        while (j < lines.length && !lines[j].trim()) j++;
+        const following = j < lines.length ? LIST_ITEM_PATTERN.exec(lines[j]) : null;
+        if (!following || indentOf(lines[j]) !== listIndent) break;
+        i = j;
+      }
+
+      blocks.push({ type: 'list', ordered, start: ordered ? parseInt(item[2], 10) : 1, items });
+      continue;
+    }
+
+    // Paragraph: runs until a blank line or another block
+    const paragraph: string[] = [line.trim()];
+    i++;
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines[i])) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+}
+
+/**
+ * Parses user-written Markdown into blocks
+ * Supports paragraphs, headings, lists, fenced code, blockquotes, rules, emphasis,
+ * strikethrough, inline code and links. Raw HTML is kept as literal text.
+ *
+ * @param text - Markdown source
+ * @returns Block nodes, empty for blank input
+ */
+export function parseMarkdown(text: string | null | undefined): MarkdownBlock[] {
+  if (!text) return [];
+  return parseLines(text.replace(/\r\n?/g, '\n').split('\n'), 0);
+}
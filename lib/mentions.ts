@@ -0,0 +1,44 @@
+/**
+ * Mentions utility
+ * Finds `@username` mentions in comment text
+ */
+
+/**
+ * Most users notified by a single comment, extra mentions are ignored
+ */
+export const MAX_MENTIONS_PER_COMMENT = 10;
+
+/**
+ * Matches `@username` at the start of a word, usernames are 3-30 letters, digits, `_` or `.`
+ * The character before `@` is captured so emails like a@b.com are not mentions
+ */
+export const MENTION_PATTERN = /(^|[^\w@.])@([A-Za-z0-9_.]{3,30})/g;
+
+/**
+ * Normalizes a mentioned name the way usernames are stored
+ * Trailing dots are sentence punctuation rather than part of the name
+ */
+export function normalizeMention(name: string): string {
+  return name.replace(/\.+$/, '').toLowerCase();
+}
+
+/**
+ * Extracts the distinct usernames mentioned in a text
+ *
+ * @param text - Comment content
+ * @returns Lowercase usernames in order of first mention, at most MAX_MENTIONS_PER_COMMENT
+ */
+export function parseMentions(text: string): string[] {
+  const usernames = new Set<string>();
+
+  // Mentions inside code are examples, not pings
+  const withoutCode = text.replace(/```[\s\S]*?```|`[^`\n]*`/g, ' ');
+
+  for (const match of Array.from(withoutCode.matchAll(MENTION_PATTERN))) {
+    const username = normalizeMention(match[2]);
+    if (username.length >= 3) usernames.add(username);
+    if (usernames.size >= MAX_MENTIONS_PER_COMMENT) break;
+  }
+
+  return Array.from(usernames);
+}
@@ -0,0 +1,160 @@
+/**
+ * Pagination utility
+ * Shared page/limit validation and opaque cursor (keyset) pagination helpers
+ */
+
+import { z } from 'zod';
+
+/**
+ * Largest page size any listing returns
+ */
+export const MAX_PAGE_LIMIT = 100;
+
+/**
+ * Field used to order a cursor-paginated listing
+ * The last field must be unique (usually `id`) so every row has a distinct position
+ */
+export interface CursorField {
+  field: string;
+  direction: 'asc' | 'desc';
+  type?: 'string' | 'number' | 'date';
+}
+
+/**
+ * Page info returned by cursor-paginated listings instead of totals
+ */
+export interface CursorPageInfo {
+  limit: number;
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+/**
+ * Builds the schema for pagination query parameters
+ * Limits above MAX_PAGE_LIMIT are capped rather than rejected
+ *
+ * @param defaultLimit - Page size when no limit is given
+ */
+export function paginationParamsSchema(defaultLimit = 20) {
+  return z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).default(defaultLimit)
+      .transform((limit) => Math.min(limit, MAX_PAGE_LIMIT)),
+    cursor: z.string().max(512).optional(),
+  });
+}
+
+/**
+ * Reads and validates page, limit and cursor from query parameters
+ * A present but empty `cursor` requests the first page in cursor mode
+ *
+ * @param searchParams - Request query parameters
+ * @param defaultLimit - Page size when no limit is given
+ * @returns The zod safeParse result
+ */
+export function parsePaginationParams(searchParams: URLSearchParams, defaultLimit = 20) {
+  return paginationParamsSchema(defaultLimit).safeParse({
+    page: searchParams.get('page') || undefined,
+    limit: searchParams.get('limit') || undefined,
+    cursor: searchParams.has('cursor') ? searchParams.get('cursor') ?? '' : undefined,
+  });
+}
+
+/**
+ * Encodes the position of a row as an opaque cursor
+ *
+ * @param sort - Name of the ordering the cursor belongs to
+ * @param row - The last row of the current page
+ * @param fields - Ordering fields
+ */
+export function encodeCursor(sort: string, row: Record<string, unknown>, fields: CursorField[]): string {
+  const values = fields.map(({ field }) => {
+    const value = row[field];
+    return value instanceof Date ? value.toISOString() : value;
+  });
+  return Buffer.from(JSON.stringify({ s: sort, v: values })).toString('base64url');
+}
+
+/**
+ * Decodes a cursor created by encodeCursor for the same ordering
+ *
+ * @param cursor - Opaque cursor from the client
+ * @param sort - Name of the expected ordering
+ * @param fields - Ordering fields
+ * @returns Values of the ordering fields
+ * @throws Error with message 'Invalid cursor' if the cursor is malformed or for another ordering
+ */
+export function decodeCursor(cursor: string, sort: string, fields: CursorField[]): unknown[] {
+  let decoded: { s?: unknown; v?: unknown };
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+
+  if (!decoded || decoded.s !== sort || !Array.isArray(decoded.v) || decoded.v.length !== fields.length) {
+    throw new Error('Invalid cursor');
+  }
+
+  return fields.map(({ type = 'string' }, index) => {
+    const value = (decoded.v as unknown[])[index];
+    if (type === 'date') {
+      const date = new Date(String(value));
+      if (typeof value !== 'string' || Number.isNaN(date.getTime())) throw new Error('Invalid cursor');
+      return date;
+    }
+    if (typeof value !== type) throw new Error('Invalid cursor');
+    return value;
+  });
+}
+
+/**
+ * Builds the Prisma orderBy for a cursor ordering
+ */
+export function cursorOrderBy(fields: CursorField[]): Record<string, 'asc' | 'desc'>[] {
+  return fields.map(({ field, direction }) => ({ [field]: direction }));
+}
+
+/**
+ * Builds the Prisma where clause selecting rows after a cursor position
+ * (a, b) after (x, y) means a > x, or a = x and b > y, with > flipped for descending fields
+ *
+ * @param fields - Ordering fields
+ * @param values - Decoded cursor values
+ */
+export function cursorWhere(fields: CursorField[], values: unknown[]): Record<string, unknown> {
+  return {
+    OR: fields.map(({ field, direction }, index) => ({
+      ...Object.fromEntries(fields.slice(0, index).map((previous, i) => [previous.field, values[i]])),
+      [field]: { [direction === 'asc' ? 'gt' : 'lt']: values[index] },
+    })),
+  };
+}
+
+/**
+ * Trims a result fetched with `take: limit + 1` to one page and computes the next cursor
+ *
+ * @param rows - Rows fetched with one extra row
+ * @param limit - Page size
+ * @param sort - Name of the ordering
+ * @param fields - Ordering fields
+ */
+export function toCursorPage<T extends Record<string, any>>(
+  rows: T[],
+  limit: number,
+  sort: string,
+  fields: CursorField[]
+): { items: T[]; pageInfo: CursorPageInfo } {
+  const hasMore = rows.length > limit;
+  const items = hasMore ? rows.slice(0, limit) : rows;
+  const last = items[items.length - 1];
+
+  return {
+    items,
+    pageInfo: {
+      limit,
+      hasMore,
+      nextCursor: hasMore && last ? encodeCursor(sort, last, fields) : null,
+    },
+  };
+}
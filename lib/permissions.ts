@@ -1,4 +1,4 @@
-import { createAccessControl } from "better-auth/plugins/access";
+import { createAccessControl, type Role, type SubArray } from "better-auth/plugins/access";
 import { defaultStatements, adminAc } from "better-auth/plugins/admin/access";
 
 /**
@@ -99,6 +99,28 @@ export const publicRole = ac.newRole({
     game: ["read"]
 });
 
+// Map of database roles to their access control role definitions
+const rolesByName: Record<'ADMIN' | 'MODERATOR' | 'USER', Role> = {
+    ADMIN: adminRole,
+    MODERATOR: moderatorRole,
+    USER: userRole
+};
+
+// Actions to check, per resource of the statement above
+export type PermissionRequest = {
+    [resource in keyof typeof statement]?: SubArray<(typeof statement)[resource]>;
+};
+
+// Server-side permission check against the role definitions above
+// Unknown or missing roles fall back to the public role
+export const hasPermission = (userRole: string | null | undefined, permissions: PermissionRequest): boolean => {
+    const role: Role = userRole && Object.hasOwn(rolesByName, userRole)
+        ? rolesByName[userRole as keyof typeof rolesByName]
+        : publicRole;
+
+    return role.authorize(permissions).success;
+};
+
 // Additional helper functions for permission checking
 export const canModerateUser = (userRole: string, targetRole: string): boolean => {
     // Admins can moderate anyone except other admins
@@ -1,77 +1,74 @@
 /**
  * Profile image upload utility
- * Uploads user profile images to GitHub repository and returns raw URL
+ * Processes and stores user profile images and updates the user's image URL
  */
 
-import { Octokit } from '@octokit/rest';
 import { prisma } from './prisma';
-
-// Parse GitHub repo information from environment variable
-const GITHUB_REPO = process.env.GITHUB_REPO || '';
-const repoUrl = new URL(GITHUB_REPO);
-const [, owner, repo] = repoUrl.pathname.split('/');
-
-// Initialize Octokit with GitHub token
-const octokit = new Octokit({
-  auth: process.env.GITHUB_TOKEN,
-});
+import { getStorageProvider } from './storage';
+import { decodeBase64Image, MAX_AVATAR_BYTES, processAvatar } from './image-processing';
+import { AVATAR_SIZES, type AvatarSize } from './utils';
 
 interface UploadProfileImageOptions {
   imageData: string; // Base64 encoded image data
   userId: string;
-  fileExtension: string;
 }
 
 /**
- * Uploads a profile image to GitHub repository
- * 
- * @param options - Upload options containing image data, user ID, and file extension
- * @returns Raw URL of the uploaded image or null if upload fails
+ * Deletes every stored avatar of a user except the given files
+ * Also removes files left behind by earlier uploads, not just the previous avatar
+ *
+ * @param userId - User ID
+ * @param keep - Keys of the current avatar files
  */
-export async function uploadProfileImageToGitHub(options: UploadProfileImageOptions): Promise<string | null> {
-  try {
-    const { imageData, userId, fileExtension } = options;
-    const fileName = `${userId}-${Date.now()}.${fileExtension}`;
-    const path = `profiles/${userId}/${fileName}`;
-    const rawUrl = `https://raw.githubusercontent.com/${owner}/${repo}/main/${path}`;
-    
-    // Remove the data URL prefix if present
-    const base64Data = imageData.includes('base64,') 
-      ? imageData.split('base64,')[1] 
-      : imageData;
-    
+async function deleteOldAvatars(userId: string, keep: string[]): Promise<void> {
+  const storage = getStorageProvider();
+  const keys = await storage.list(`profiles/${userId}`);
+
+  for (const key of keys.filter((key) => !keep.includes(key))) {
     try {
-      // Upload file to GitHub repository
-      await octokit.repos.createOrUpdateFileContents({
-        owner,
-        repo,
-        path,
-        message: `Upload profile image for user ${userId}`,
-        content: base64Data,
-        // No SHA means create new file
-      });
-      
-      // Update user's image URL in the database
-      await prisma.user.update({
-        where: { id: userId },
-        data: { image: rawUrl }
-      });
-      
-      return rawUrl;
-    } catch (error: any) {
-      // If error is 409 (conflict), try with a different filename
-      if (error.status === 409) {
-        console.log(`Conflict while uploading profile image for ${userId}, trying with a different filename`);
-        return uploadProfileImageToGitHub({
-          imageData,
-          userId,
-          fileExtension
-        });
-      }
-      throw error; // Re-throw other errors
+      await storage.delete(key);
+    } catch (error) {
+      console.error(`Error deleting old avatar ${key}:`, error);
     }
+  }
+}
+
+/**
+ * Processes a profile image, stores it in every avatar size and sets it as the user's image
+ * Throws the messages in IMAGE_ERRORS when the image itself is rejected
+ *
+ * @param options - Upload options containing image data and user ID
+ * @returns Public URL of the large avatar
+ */
+export async function uploadProfileImage(options: UploadProfileImageOptions): Promise<string> {
+  const { imageData, userId } = options;
+  const variants = await processAvatar(decodeBase64Image(imageData, MAX_AVATAR_BYTES));
+
+  try {
+    const storage = getStorageProvider();
+    const baseName = `profiles/${userId}/avatar-${Date.now()}`;
+    const sizes = Object.keys(AVATAR_SIZES) as AvatarSize[];
+    const keys = sizes.map((size) => `${baseName}-${AVATAR_SIZES[size]}.webp`);
+
+    const urls = await Promise.all(
+      sizes.map((size, index) => storage.put(keys[index], variants[size], 'image/webp'))
+    );
+    const imageUrl = urls[sizes.indexOf('large')];
+
+    // Update user's image URL in the database
+    await prisma.user.update({
+      where: { id: userId },
+      data: { image: imageUrl }
+    });
+
+    // Cleanup failures only leave extra files behind, the upload itself succeeded
+    await deleteOldAvatars(userId, keys).catch((error) => {
+      console.error('Error cleaning up old avatars:', error);
+    });
+
+    return imageUrl;
   } catch (error) {
-    console.error('GitHub profile image upload error:', error);
-    return null;
+    console.error('Profile image upload error:', error);
+    throw error;
   }
 }
@@ -0,0 +1,53 @@
+/**
+ * Ranking utility
+ * Scores stored on configs so "best" and "trending" sorts can use an index
+ */
+
+/**
+ * z-score for the 95% confidence interval used by the Wilson lower bound
+ */
+export const WILSON_Z = 1.96;
+
+/**
+ * Gravity of the trending time decay, higher values make old configs fall faster
+ */
+export const TRENDING_GRAVITY = 1.8;
+
+/**
+ * Lower bound of the Wilson score interval for the share of upvotes
+ * Configs with few votes score low until enough votes make the ratio reliable
+ *
+ * @param upvotes - Number of upvotes
+ * @param downvotes - Number of downvotes
+ * @returns Score between 0 and 1
+ */
+export function wilsonLowerBound(upvotes: number, downvotes: number): number {
+  const total = upvotes + downvotes;
+  if (total <= 0) return 0;
+
+  const z2 = WILSON_Z * WILSON_Z;
+  const ratio = upvotes / total;
+
+  return (
+    ratio + z2 / (2 * total) - WILSON_Z * Math.sqrt((ratio * (1 - ratio) + z2 / (4 * total)) / total)
+  ) / (1 + z2 / total);
+}
+
+/**
+ * Hacker News style score: net votes divided by a power of the age in hours
+ *
+ * @param upvotes - Number of upvotes
+ * @param downvotes - Number of downvotes
+ * @param createdAt - When the config was created
+ * @param now - Reference time (default: now)
+ * @returns Time-decayed score
+ */
+export function trendingScore(
+  upvotes: number,
+  downvotes: number,
+  createdAt: Date,
+  now: Date = new Date()
+): number {
+  const ageHours = Math.max(0, (now.getTime() - createdAt.getTime()) / 3_600_000);
+  return (upvotes - downvotes) / Math.pow(ageHours + 2, TRENDING_GRAVITY);
+}
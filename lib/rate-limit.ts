@@ -0,0 +1,73 @@
+/**
+ * In-memory rate limiting
+ * Fixed-window counters per key, kept for the lifetime of the server process
+ */
+
+interface RateLimitWindow {
+  count: number;
+  resetAt: number;
+}
+
+/**
+ * A limit of `limit` hits per `windowMs`
+ */
+export interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Milliseconds until the next hit is allowed, 0 when allowed */
+  retryAfterMs: number;
+}
+
+// Define global type for the counters so hot reloads keep them
+declare global {
+  var rateLimitWindows: Map<string, RateLimitWindow> | undefined;
+}
+
+const windows = global.rateLimitWindows || new Map<string, RateLimitWindow>();
+global.rateLimitWindows = windows;
+
+/**
+ * Drops expired windows so the map does not grow without bound
+ */
+function pruneExpired(now: number) {
+  windows.forEach((window, key) => {
+    if (window.resetAt <= now) windows.delete(key);
+  });
+}
+
+/**
+ * Records a hit for a key if every rule still allows it
+ * Nothing is counted when a rule is exceeded, so retries don't extend the wait
+ *
+ * @param key - What is being limited, e.g. "verification-email:<userId>"
+ * @param rules - Limits that must all pass
+ * @returns Whether the hit is allowed and how long to wait otherwise
+ */
+export function checkRateLimit(key: string, rules: RateLimitRule[]): RateLimitResult {
+  const now = Date.now();
+  if (windows.size > 10_000) pruneExpired(now);
+
+  const current = rules.map((rule) => {
+    const windowKey = `${key}:${rule.windowMs}`;
+    const existing = windows.get(windowKey);
+    const window = existing && existing.resetAt > now ? existing : { count: 0, resetAt: now + rule.windowMs };
+    return { rule, windowKey, window };
+  });
+
+  const exceeded = current.filter(({ rule, window }) => window.count >= rule.limit);
+  if (exceeded.length > 0) {
+    return {
+      allowed: false,
+      retryAfterMs: Math.max(...exceeded.map(({ window }) => window.resetAt - now)),
+    };
+  }
+
+  for (const { windowKey, window } of current) {
+    windows.set(windowKey, { count: window.count + 1, resetAt: window.resetAt });
+  }
+  return { allowed: true, retryAfterMs: 0 };
+}
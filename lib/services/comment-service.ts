@@ -0,0 +1,208 @@
+/**
+ * Comment Service
+ * Handles database operations for threaded comments
+ */
+
+import { prisma } from '../prisma';
+import { Prisma } from '@prisma/client';
+import { MAX_COMMENT_DEPTH } from '../validations/config';
+
+/**
+ * Relations included with every comment
+ */
+export const commentInclude = {
+  user: {
+    select: {
+      id: true,
+      name: true,
+      image: true,
+      username: true,
+    },
+  },
+  _count: {
+    select: {
+      votes: true,
+      replies: true,
+    },
+  },
+} satisfies Prisma.CommentInclude;
+
+export type CommentWithUser = Prisma.CommentGetPayload<{ include: typeof commentInclude }>;
+
+/**
+ * A comment as returned to clients
+ * Deleted comments keep their place in the thread but lose their content and author
+ */
+export type PublicComment = Omit<CommentWithUser, 'user' | 'userId'> & {
+  user: CommentWithUser['user'] | null;
+  userId: string | null;
+};
+
+/**
+ * A comment with its nested replies
+ */
+export type CommentNode = PublicComment & { replies: CommentNode[] };
+
+/**
+ * Hides the content and author of a deleted comment
+ *
+ * @param comment - Comment from the database
+ * @returns The comment safe to return to clients
+ */
+export function toPublicComment(comment: CommentWithUser): PublicComment {
+  if (!comment.isDeleted) return comment;
+  return { ...comment, content: '', user: null, userId: null };
+}
+
+/**
+ * Loads the replies below a set of comments and nests them
+ * Replies are loaded level by level up to MAX_COMMENT_DEPTH, oldest first
+ *
+ * @param roots - Comments to load replies for
+ * @returns The comments with nested replies, and the IDs of every comment in the threads
+ */
+export async function loadCommentThreads(
+  roots: CommentWithUser[]
+): Promise<{ threads: CommentNode[]; commentIds: string[] }> {
+  try {
+    const nodes = new Map<string, CommentNode>();
+    const threads = roots.map((root) => {
+      const node: CommentNode = { ...toPublicComment(root), replies: [] };
+      nodes.set(node.id, node);
+      return node;
+    });
+
+    let parentIds = roots
+      .filter((root) => root.depth < MAX_COMMENT_DEPTH && root._count.replies > 0)
+      .map((root) => root.id);
+
+    while (parentIds.length > 0) {
+      const replies = await prisma.comment.findMany({
+        where: { parentId: { in: parentIds } },
+        include: commentInclude,
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      });
+
+      for (const reply of replies) {
+        const node: CommentNode = { ...toPublicComment(reply), replies: [] };
+        nodes.set(node.id, node);
+        nodes.get(reply.parentId!)?.replies.push(node);
+      }
+
+      parentIds = replies
+        .filter((reply) => reply.depth < MAX_COMMENT_DEPTH && reply._count.replies > 0)
+        .map((reply) => reply.id);
+    }
+
+    return { threads, commentIds: Array.from(nodes.keys()) };
+  } catch (error) {
+    console.error('Error loading comment threads:', error);
+    throw error;
+  }
+}
+
+/**
+ * Creates a comment or a reply on a config
+ * Replies to a comment at MAX_COMMENT_DEPTH are attached to that comment's parent
+ *
+ * @param userId - Author ID
+ * @param configId - Config ID
+ * @param content - Comment text
+ * @param parentId - Comment being replied to, if any
+ * @returns The created comment
+ */
+export async function createComment(userId: string, configId: string, content: string, parentId?: string) {
+  try {
+    let depth = 0;
+    let threadParentId: string | null = null;
+
+    if (parentId) {
+      const parent = await prisma.comment.findUnique({
+        where: { id: parentId },
+        select: { id: true, configId: true, parentId: true, depth: true, isDeleted: true },
+      });
+
+      if (!parent || parent.configId !== configId || parent.isDeleted) {
+        throw new Error('Parent comment not found');
+      }
+
+      if (parent.depth >= MAX_COMMENT_DEPTH) {
+        threadParentId = parent.parentId;
+        depth = parent.depth;
+      } else {
+        threadParentId = parent.id;
+        depth = parent.depth + 1;
+      }
+    }
+
+    const comment = await prisma.comment.create({
+      data: {
+        content: content.trim(),
+        userId,
+        configId,
+        parentId: threadParentId,
+        depth,
+      },
+      include: commentInclude,
+    });
+
+    return comment;
+  } catch (error) {
+    console.error('Error creating comment:', error);
+    throw error;
+  }
+}
+
+/**
+ * Removes a comment while keeping its thread readable
+ * - A comment with replies is soft-deleted: content and author are hidden, replies stay
+ * - A comment without replies is deleted, along with any soft-deleted ancestors
+ *   that no longer have replies
+ * Hard-deleting a comment cascades to its replies and votes in the database
+ *
+ * @param commentId - Comment ID
+ * @returns Whether the comment was soft- or hard-deleted
+ */
+export async function deleteComment(commentId: string): Promise<{ mode: 'soft' | 'hard' }> {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const comment = await tx.comment.findUnique({
+        where: { id: commentId },
+        select: { id: true, parentId: true, _count: { select: { replies: true } } },
+      });
+
+      if (!comment) {
+        throw new Error('Comment not found');
+      }
+
+      if (comment._count.replies > 0) {
+        await tx.comment.update({
+          where: { id: commentId },
+          data: { isDeleted: true, content: '' },
+        });
+        return { mode: 'soft' as const };
+      }
+
+      await tx.comment.delete({ where: { id: commentId } });
+
+      // Clean up deleted ancestors that only existed to hold this reply
+      let parentId = comment.parentId;
+      while (parentId) {
+        const parent = await tx.comment.findUnique({
+          where: { id: parentId },
+          select: { id: true, parentId: true, isDeleted: true, _count: { select: { replies: true } } },
+        });
+
+        if (!parent || !parent.isDeleted || parent._count.replies > 0) break;
+
+        await tx.comment.delete({ where: { id: parent.id } });
+        parentId = parent.parentId;
+      }
+
+      return { mode: 'hard' as const };
+    });
+  } catch (error) {
+    console.error('Error deleting comment:', error);
+    throw error;
+  }
+}
@@ -4,9 +4,65 @@
  */
 
 import { prisma } from '../prisma';
-import { DirectXHubType, AudioDriverType, Prisma } from '@prisma/client';
+import { DirectXHubType, AudioDriverType, GameStatus, GraphicsApi, Prisma } from '@prisma/client';
 import { slugify } from '../utils';
-import { type CreateConfigInput } from '@/lib/validations/config';
+import { diffConfigSnapshots } from '../config-diff';
+import { buildConfigSnapshot, readConfigSnapshot } from '../config-snapshot';
+import { wilsonLowerBound, trendingScore, TRENDING_GRAVITY } from '../ranking';
+import {
+  type CursorField,
+  decodeCursor,
+  cursorOrderBy,
+  cursorWhere,
+  toCursorPage,
+} from '../pagination';
+import { type CreateConfigInput, type DeviceProfile } from '@/lib/validations/config';
+import { CONFIG_FACETS, type ConfigFacetField } from '@/lib/constants/config-presets';
+import { hardwareWhere, type HardwareFilter } from './device-service';
+
+/**
+ * Selected facet values, values of one facet are OR'ed and facets are AND'ed
+ */
+export type ConfigFacetFilters = Partial<Record<ConfigFacetField, string[]>>;
+
+/**
+ * Number of configs per value of each facet
+ */
+export type ConfigFacetCounts = Record<ConfigFacetField, { value: string; count: number }[]>;
+
+// Maximum number of values returned per facet, selected values are always included
+const FACET_VALUE_LIMIT = 20;
+
+// Cursor orderings per sort, `id` breaks ties so every position is unique
+const CONFIG_SORT_FIELDS: Record<string, CursorField[]> = {
+  best: [
+    { field: 'bestScore', direction: 'desc', type: 'number' },
+    { field: 'id', direction: 'desc' },
+  ],
+  trending: [
+    { field: 'trendingScore', direction: 'desc', type: 'number' },
+    { field: 'id', direction: 'desc' },
+  ],
+  newest: [
+    { field: 'createdAt', direction: 'desc', type: 'date' },
+    { field: 'id', direction: 'desc' },
+  ],
+  oldest: [
+    { field: 'createdAt', direction: 'asc', type: 'date' },
+    { field: 'id', direction: 'asc' },
+  ],
+  updated: [
+    { field: 'updatedAt', direction: 'desc', type: 'date' },
+    { field: 'id', direction: 'desc' },
+  ],
+};
+
+// Configs of a single game, best first and newest among equal scores
+const GAME_CONFIG_SORT_FIELDS: CursorField[] = [
+  { field: 'bestScore', direction: 'desc', type: 'number' },
+  { field: 'createdAt', direction: 'desc', type: 'date' },
+  { field: 'id', direction: 'desc' },
+];
 
 /**
  * Creates a new game configuration
@@ -26,6 +82,14 @@ export async function createConfig(data: CreateConfigInput & { userId: string })
       throw new Error('Game or user not found');
     }
 
+    // Games added by hand need a moderator's approval first
+    if (game.status === GameStatus.REJECTED) {
+      throw new Error('Game was rejected by a moderator');
+    }
+    if (game.status !== GameStatus.APPROVED) {
+      throw new Error('Game is awaiting moderator approval');
+    }
+
     // Generate slug: game-name-by-username
     const slug = slugify(`${game.name}-by-${user.username}`);
 
@@ -79,7 +143,12 @@ export async function createConfig(data: CreateConfigInput & { userId: string })
           cpuCoreLimit: data.details.cpuCoreLimit,
           vramLimit: data.details.vramLimit,
           components: data.details.components,
-          notes: data.details.notes
+          notes: data.details.notes,
+          deviceModel: data.details.deviceModel,
+          soc: data.details.soc,
+          gpuFamily: data.details.gpuFamily,
+          ramGb: data.details.ramGb,
+          androidVersion: data.details.androidVersion
         }
       });
 
@@ -89,7 +158,7 @@ export async function createConfig(data: CreateConfigInput & { userId: string })
           configId: newConfig.id,
           userId: data.userId,
           versionNumber: 1,
-          configSnapshot: data.details as Prisma.JsonObject,
+          configSnapshot: buildConfigSnapshot(data, data.details) as Prisma.JsonObject,
           changeSummary: 'Initial configuration'
         }
       });
@@ -153,43 +222,63 @@ export async function getConfig(idOrSlug: string) {
 
 /**
  * Gets all configurations for a specific game
+ * Passing a cursor (empty string for the first page) switches to cursor pagination
  * 
  * @param gameId - Game ID
  * @param page - Page number (default: 1)
  * @param limit - Number of configs per page (default: 20)
+ * @param cursor - Opaque cursor from a previous page's pageInfo.nextCursor
+ * @param hardware - Only include configs tested on matching hardware
  * @returns Paginated list of configs
  */
-export async function getConfigsByGame(gameId: string, page = 1, limit = 20) {
+export async function getConfigsByGame(
+  gameId: string,
+  page = 1,
+  limit = 20,
+  cursor?: string,
+  hardware: HardwareFilter = {}
+) {
+  const where: Prisma.ConfigWhereInput = {
+    gameId,
+    isHidden: false,
+    ...hardwareWhere(hardware)
+  };
+  const include = {
+    createdBy: {
+      select: {
+        username: true,
+        image: true
+      }
+    }
+  } satisfies Prisma.ConfigInclude;
+
   try {
+    if (cursor !== undefined) {
+      const cursorValues = cursor ? decodeCursor(cursor, 'game', GAME_CONFIG_SORT_FIELDS) : null;
+      const rows = await prisma.config.findMany({
+        where: cursorValues
+          ? { AND: [where, cursorWhere(GAME_CONFIG_SORT_FIELDS, cursorValues) as Prisma.ConfigWhereInput] }
+          : where,
+        take: limit + 1,
+        orderBy: cursorOrderBy(GAME_CONFIG_SORT_FIELDS) as Prisma.ConfigOrderByWithRelationInput[],
+        include
+      });
+      const { items, pageInfo } = toCursorPage(rows, limit, 'game', GAME_CONFIG_SORT_FIELDS);
+
+      return { configs: items, pageInfo };
+    }
+
     const skip = (page - 1) * limit;
     
     const [configs, total] = await Promise.all([
       prisma.config.findMany({
-        where: { 
-          gameId,
-          isHidden: false
-        },
+        where,
         skip,
         take: limit,
-        orderBy: [
-          { upvotes: 'desc' },
-          { createdAt: 'desc' }
-        ],
-        include: {
-          createdBy: {
-            select: {
-              username: true,
-              image: true
-            }
-          }
-        }
+        orderBy: cursorOrderBy(GAME_CONFIG_SORT_FIELDS) as Prisma.ConfigOrderByWithRelationInput[],
+        include
       }),
-      prisma.config.count({
-        where: { 
-          gameId,
-          isHidden: false
-        }
-      })
+      prisma.config.count({ where })
     ]);
     
     return {
@@ -209,35 +298,52 @@ export async function getConfigsByGame(gameId: string, page = 1, limit = 20) {
 
 /**
  * Gets all configurations created by a specific user
+ * Passing a cursor (empty string for the first page) switches to cursor pagination
  * 
  * @param userId - User ID
  * @param page - Page number (default: 1)
  * @param limit - Number of configs per page (default: 20)
+ * @param cursor - Opaque cursor from a previous page's pageInfo.nextCursor
  * @returns Paginated list of configs
  */
-export async function getConfigsByUser(userId: string, page = 1, limit = 20) {
+export async function getConfigsByUser(userId: string, page = 1, limit = 20, cursor?: string) {
+  const where: Prisma.ConfigWhereInput = {
+    userId,
+    isHidden: false
+  };
+  const sortFields = CONFIG_SORT_FIELDS.newest;
+
   try {
+    if (cursor !== undefined) {
+      const cursorValues = cursor ? decodeCursor(cursor, 'newest', sortFields) : null;
+      const rows = await prisma.config.findMany({
+        where: cursorValues
+          ? { AND: [where, cursorWhere(sortFields, cursorValues) as Prisma.ConfigWhereInput] }
+          : where,
+        take: limit + 1,
+        orderBy: cursorOrderBy(sortFields) as Prisma.ConfigOrderByWithRelationInput[],
+        include: {
+          game: true
+        }
+      });
+      const { items, pageInfo } = toCursorPage(rows, limit, 'newest', sortFields);
+
+      return { configs: items, pageInfo };
+    }
+
     const skip = (page - 1) * limit;
     
     const [configs, total] = await Promise.all([
       prisma.config.findMany({
-        where: { 
-          userId,
-          isHidden: false
-        },
+        where,
         skip,
         take: limit,
-        orderBy: { createdAt: 'desc' },
+        orderBy: cursorOrderBy(sortFields) as Prisma.ConfigOrderByWithRelationInput[],
         include: {
           game: true
         }
       }),
-      prisma.config.count({
-        where: { 
-          userId,
-          isHidden: false
-        }
-      })
+      prisma.config.count({ where })
     ]);
     
     return {
@@ -250,81 +356,318 @@ export async function getConfigsByUser(userId: string, page = 1, limit = 20) {
   }
 }
 
+/**
+ * Builds the where clause for one facet
+ * GameHub versions ending in ".x" match every version with that prefix, e.g. "5.x"
+ * Graphics APIs are a property of the config's game rather than the config
+ */
+function buildFacetWhere(field: ConfigFacetField, values: string[]): Prisma.ConfigWhereInput {
+  if (field === 'graphicsApi') {
+    return { game: { is: { graphicsApis: { hasSome: values as GraphicsApi[] } } } };
+  }
+
+  if (field === 'gamehubVersion') {
+    return {
+      OR: values.map((value) => (
+        value.endsWith('.x')
+          ? { gamehubVersion: { startsWith: value.slice(0, -1) } }
+          : { gamehubVersion: value }
+      )),
+    };
+  }
+
+  return { details: { is: { [field]: { in: values } } } };
+}
+
+/**
+ * Counts configs per facet value
+ * Each facet is counted with every filter applied except its own, so the
+ * other values of a facet stay selectable
+ *
+ * @param baseWhere - Filters that are not facets (query, tags)
+ * @param facetWheres - Where clause per selected facet
+ * @param filters - Selected facet values
+ * @returns Counts per facet, most used values first
+ */
+async function getFacetCounts(
+  baseWhere: Prisma.ConfigWhereInput,
+  facetWheres: Partial<Record<ConfigFacetField, Prisma.ConfigWhereInput>>,
+  filters: ConfigFacetFilters
+): Promise<ConfigFacetCounts> {
+  const counts = await Promise.all(
+    CONFIG_FACETS.map(async ({ field }) => {
+      const where: Prisma.ConfigWhereInput = {
+        AND: [
+          baseWhere,
+          ...Object.entries(facetWheres)
+            .filter(([facet]) => facet !== field)
+            .map(([, facetWhere]) => facetWhere!),
+        ],
+      };
+
+      // A game can require several APIs, so these can't be grouped and are counted one by one
+      const groups: { value: string; count: number }[] = field === 'graphicsApi'
+        ? (await Promise.all(
+            Object.values(GraphicsApi).map(async (api) => ({
+              value: api,
+              count: await prisma.config.count({
+                where: { AND: [where, { game: { is: { graphicsApis: { has: api } } } }] },
+              }),
+            }))
+          )).filter((group) => group.count > 0)
+        : field === 'gamehubVersion'
+        ? (await prisma.config.groupBy({
+            by: ['gamehubVersion'],
+            where,
+            _count: { _all: true },
+          })).map((group) => ({ value: group.gamehubVersion, count: group._count._all }))
+        : (await prisma.configDetails.groupBy({
+            by: [field],
+            where: { config: { is: where } },
+            _count: { _all: true },
+          }))
+            // Device fields are optional, configs without one don't form a facet value
+            .filter((group) => group[field] !== null)
+            .map((group) => ({ value: String(group[field]), count: group._count._all }));
+
+      groups.sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+
+      const selected = filters[field] || [];
+      const values = groups.filter((group, index) => index < FACET_VALUE_LIMIT || selected.includes(group.value));
+
+      return [field, values] as const;
+    })
+  );
+
+  return Object.fromEntries(counts) as ConfigFacetCounts;
+}
+
+/**
+ * Ranks configs matching a search query
+ * Combines PostgreSQL full-text search over game name and aliases, tags, author, notes and
+ * comments with trigram similarity on names and notes so typos still match
+ *
+ * The full-text document is the stored "searchVector" column, kept up to date by triggers,
+ * and each kind of match is looked up separately so it can use its GIN index
+ *
+ * @param query - Free text search query
+ * @returns Rank per matching config ID, higher is more relevant
+ */
+async function searchConfigRanks(query: string): Promise<Map<string, number>> {
+  const rows = await prisma.$queryRaw<{ id: string; rank: number }[]>`
+    WITH q AS (
+      SELECT websearch_to_tsquery('english', ${query}) AS tsquery
+    ),
+    matches AS (
+      SELECT c.id FROM "Config" c, q WHERE c."searchVector" @@ q.tsquery
+      UNION
+      SELECT c.id FROM "Config" c JOIN "Game" g ON g.id = c."gameId" WHERE g.name % ${query}
+      UNION
+      SELECT c.id FROM "Config" c JOIN "GameAlias" a ON a."gameId" = c."gameId" WHERE a.name % ${query}
+      UNION
+      SELECT c.id FROM "Config" c JOIN "user" u ON u.id = c."userId" WHERE u.username % ${query}
+      UNION
+      SELECT d."configId" FROM "ConfigDetails" d WHERE ${query} <% d.notes
+    )
+    SELECT
+      c.id,
+      coalesce(ts_rank_cd(c."searchVector", q.tsquery), 0)
+        + greatest(
+            similarity(g.name, ${query}),
+            coalesce((SELECT max(similarity(a.name, ${query})) FROM "GameAlias" a WHERE a."gameId" = g.id), 0),
+            similarity(u.username, ${query})
+          )
+        + 0.5 * word_similarity(${query}, coalesce(d.notes, '')) AS rank
+    FROM matches m
+    JOIN "Config" c ON c.id = m.id
+    JOIN "Game" g ON g.id = c."gameId"
+    JOIN "user" u ON u.id = c."userId"
+    LEFT JOIN "ConfigDetails" d ON d."configId" = c.id
+    CROSS JOIN q
+  `;
+
+  return new Map(rows.map((row) => [row.id, Number(row.rank)]));
+}
+
 /**
  * Gets all configurations with optional sorting and filtering.
+ * Passing a cursor (empty string for the first page) switches to cursor
+ * pagination, which skips the total count and facet counts.
  * 
  * @param page - Page number for pagination.
  * @param limit - Number of items per page.
- * @param sort - The sorting order ('newest', 'oldest', 'popular', 'updated').
+ * @param sort - The sorting order ('best', 'trending', 'relevance', 'newest', 'oldest', 'updated').
+ *               'popular' is kept as an alias of 'best'.
  * @param tags - An array of tags to filter by.
- * @param query - A search query to filter by game name.
- * @returns A paginated list of configurations.
+ * @param query - A full-text search query over game names, notes, tags, authors and comments.
+ * @param filters - Facet values to filter by, e.g. { dxvkVersion: ['dxvk-2.6.1-async'] }.
+ * @param cursor - Opaque cursor from a previous page's pageInfo.nextCursor.
+ * @returns A paginated list of configurations with facet counts.
+ * @throws Error if the cursor is invalid or used with relevance sorting.
  */
-export async function getConfigs(page = 1, limit = 20, sort = 'popular', tags: string[] = [], query?: string) {
+export async function getConfigs(
+  page = 1,
+  limit = 20,
+  sort = 'best',
+  tags: string[] = [],
+  query?: string,
+  filters: ConfigFacetFilters = {},
+  cursor?: string
+) {
+  const searchQuery = query?.trim();
+  const isRelevance = sort === 'relevance' && !!searchQuery;
+  const sortKey = CONFIG_SORT_FIELDS[sort] ? sort : 'best';
+  const sortFields = CONFIG_SORT_FIELDS[sortKey];
+
+  if (cursor !== undefined && isRelevance) {
+    throw new Error('Cursor pagination is not available for relevance sorting');
+  }
+  const cursorValues = cursor ? decodeCursor(cursor, sortKey, sortFields) : null;
+
   try {
     const skip = (page - 1) * limit;
 
-    let where: Prisma.ConfigWhereInput = {};
+    const baseWhere: Prisma.ConfigWhereInput = {};
+    const ranks = searchQuery ? await searchConfigRanks(searchQuery) : null;
 
-    if (query) {
-      where.game = {
-        name: {
-          contains: query,
-          mode: 'insensitive',
-        },
+    if (ranks) {
+      baseWhere.id = {
+        in: Array.from(ranks.keys()),
       };
     }
 
     if (tags && tags.length > 0) {
-      where.tags = {
+      baseWhere.tags = {
         hasSome: tags,
       };
     }
 
-    let orderBy: Prisma.ConfigOrderByWithRelationInput = {};
-
-    switch (sort) {
-      case 'newest':
-        orderBy = { createdAt: 'desc' };
-        break;
-      case 'oldest':
-        orderBy = { createdAt: 'asc' };
-        break;
-      case 'updated':
-        orderBy = { updatedAt: 'desc' };
-        break;
-      case 'popular':
-      default:
-        orderBy = { upvotes: 'desc' };
-        break;
+    const facetWheres: Partial<Record<ConfigFacetField, Prisma.ConfigWhereInput>> = {};
+    for (const { field } of CONFIG_FACETS) {
+      const values = filters[field];
+      if (values && values.length > 0) {
+        facetWheres[field] = buildFacetWhere(field, values);
+      }
     }
 
-    const [configs, total] = await Promise.all([
-      prisma.config.findMany({
-        where,
-        orderBy,
-        skip,
-        take: limit,
-        include: {
-          game: true,
-          createdBy: {
-            select: {
-              username: true,
-              image: true,
-            },
-          },
+    const where: Prisma.ConfigWhereInput = {
+      AND: [baseWhere, ...Object.values(facetWheres)],
+    };
+
+    const orderBy = cursorOrderBy(sortFields) as Prisma.ConfigOrderByWithRelationInput[];
+
+    const include = {
+      game: true,
+      createdBy: {
+        select: {
+          username: true,
+          image: true,
         },
-      }),
+      },
+    } satisfies Prisma.ConfigInclude;
+
+    if (cursor !== undefined) {
+      const rows = await prisma.config.findMany({
+        where: cursorValues
+          ? { AND: [where, cursorWhere(sortFields, cursorValues) as Prisma.ConfigWhereInput] }
+          : where,
+        orderBy,
+        take: limit + 1,
+        include,
+      });
+      const { items, pageInfo } = toCursorPage(rows, limit, sortKey, sortFields);
+
+      return { configs: items, pageInfo };
+    }
+
+    // Relevance ordering lives in the search ranks, so the page is cut in memory
+    const findPage = async () => {
+      if (!ranks || !isRelevance) {
+        return prisma.config.findMany({ where, orderBy, skip, take: limit, include });
+      }
+
+      const matches = await prisma.config.findMany({ where, select: { id: true } });
+      const pageIds = matches
+        .map((match) => match.id)
+        .sort((a, b) => (ranks.get(b) ?? 0) - (ranks.get(a) ?? 0))
+        .slice(skip, skip + limit);
+
+      const pageConfigs = await prisma.config.findMany({ where: { id: { in: pageIds } }, include });
+      return pageIds
+        .map((id) => pageConfigs.find((config) => config.id === id))
+        .filter((config): config is (typeof pageConfigs)[number] => Boolean(config));
+    };
+
+    const [configs, total, facets] = await Promise.all([
+      findPage(),
       prisma.config.count({ where }),
+      getFacetCounts(baseWhere, facetWheres, filters),
     ]);
 
-    return { configs, total };
+    return {
+      configs,
+      total,
+      pagination: {
+        total,
+        page,
+        limit,
+        pages: Math.ceil(total / limit),
+      },
+      facets,
+    };
   } catch (error) {
     console.error('Error fetching configs:', error);
     throw new Error('Failed to fetch configurations.');
   }
 }
 
+/**
+ * Recomputes the stored ranking scores of a config from its vote counts
+ * Call after changing upvotes or downvotes, inside the same transaction
+ *
+ * @param tx - Prisma client or transaction client
+ * @param configId - Config ID
+ * @returns The config's vote counts and scores
+ */
+export async function updateConfigScores(tx: Prisma.TransactionClient, configId: string) {
+  const config = await tx.config.findUniqueOrThrow({
+    where: { id: configId },
+    select: { upvotes: true, downvotes: true, createdAt: true },
+  });
+
+  return tx.config.update({
+    where: { id: configId },
+    data: {
+      bestScore: wilsonLowerBound(config.upvotes, config.downvotes),
+      trendingScore: trendingScore(config.upvotes, config.downvotes, config.createdAt),
+    },
+    select: {
+      id: true,
+      upvotes: true,
+      downvotes: true,
+      bestScore: true,
+      trendingScore: true,
+    },
+  });
+}
+
+/**
+ * Recomputes the trending score of every config for the current time
+ * Trending scores decay with time, so the trending-scores job runs this periodically
+ */
+export async function refreshTrendingScores(): Promise<void> {
+  try {
+    await prisma.$executeRaw`
+      UPDATE "Config"
+      SET "trendingScore" = ("upvotes" - "downvotes")
+        / power(extract(epoch FROM (now() - "createdAt")) / 3600 + 2, ${TRENDING_GRAVITY})
+    `;
+  } catch (error) {
+    console.error('Error refreshing trending scores:', error);
+    throw error;
+  }
+}
+
 /**
  * Updates an existing configuration
  * 
@@ -357,7 +700,7 @@ export async function updateConfig(
       vramLimit?: string;
       components?: string[];
       notes?: string | null;
-    };
+    } & Partial<DeviceProfile>;
   }, 
   changeSummary: string
 ) {
@@ -405,7 +748,12 @@ export async function updateConfig(
             cpuCoreLimit: data.details.cpuCoreLimit !== undefined ? data.details.cpuCoreLimit : config.details?.cpuCoreLimit || '',
             vramLimit: data.details.vramLimit !== undefined ? data.details.vramLimit : config.details?.vramLimit || '',
             components: data.details.components !== undefined ? data.details.components : config.details?.components || [],
-            notes: data.details.notes !== undefined ? data.details.notes : config.details?.notes
+            notes: data.details.notes !== undefined ? data.details.notes : config.details?.notes,
+            deviceModel: data.details.deviceModel !== undefined ? data.details.deviceModel : config.details?.deviceModel,
+            soc: data.details.soc !== undefined ? data.details.soc : config.details?.soc,
+            gpuFamily: data.details.gpuFamily !== undefined ? data.details.gpuFamily : config.details?.gpuFamily,
+            ramGb: data.details.ramGb !== undefined ? data.details.ramGb : config.details?.ramGb,
+            androidVersion: data.details.androidVersion !== undefined ? data.details.androidVersion : config.details?.androidVersion
           }
         });
       }
@@ -418,16 +766,19 @@ export async function updateConfig(
 
       const newVersionNumber = latestVersion ? latestVersion.versionNumber + 1 : 1;
 
+      // Snapshot the config as it is after the update
+      const currentConfig = await tx.config.findUniqueOrThrow({
+        where: { id: configId },
+        include: { details: true }
+      });
+
       // Create a new version
       await tx.configVersion.create({
         data: {
           configId,
           userId,
           versionNumber: newVersionNumber,
-          configSnapshot: {
-            ...config.details,
-            ...(data.details || {})
-          } as Prisma.JsonObject,
+          configSnapshot: buildConfigSnapshot(currentConfig, currentConfig.details) as Prisma.JsonObject,
           changeSummary
         }
       });
@@ -480,34 +831,53 @@ export async function revertConfigToVersion(
       throw new Error('Version not found');
     }
 
-    // Extract the configuration snapshot from the version
-    const configSnapshot = versionToRevert.configSnapshot as any;
-    
-    if (!configSnapshot) {
+    if (!versionToRevert.configSnapshot) {
       throw new Error('Version snapshot is missing');
     }
 
+    // Extract the configuration snapshot from the version
+    // Legacy snapshots only contain details, so config-level fields are left as they are
+    const configSnapshot = readConfigSnapshot(versionToRevert.configSnapshot);
+    const snapshotDetails = configSnapshot.details;
+
     // Update the config with the snapshot data in a transaction
     const revertedConfig = await prisma.$transaction(async (tx) => {
+      // Restore config-level fields captured by full snapshots
+      if (configSnapshot.gamehubVersion !== undefined) {
+        await tx.config.update({
+          where: { id: configId },
+          data: {
+            gamehubVersion: configSnapshot.gamehubVersion,
+            videoUrl: configSnapshot.videoUrl ?? null,
+            tags: configSnapshot.tags ?? []
+          }
+        });
+      }
+
       // Update config details with snapshot data
       await tx.configDetails.update({
         where: { configId },
         data: {
-          language: configSnapshot.language,
-          gameResolution: configSnapshot.gameResolution || '',
-          directxHub: configSnapshot.directxHub || 'DISABLE',
-          envVars: configSnapshot.envVars,
-          commandLine: configSnapshot.commandLine,
-          compatLayer: configSnapshot.compatLayer || '',
-          gpuDriver: configSnapshot.gpuDriver || '',
-          audioDriver: configSnapshot.audioDriver || 'ALSA',
-          dxvkVersion: configSnapshot.dxvkVersion || '',
-          vkd3dVersion: configSnapshot.vkd3dVersion || '',
-          cpuTranslator: configSnapshot.cpuTranslator || '',
-          cpuCoreLimit: configSnapshot.cpuCoreLimit || '',
-          vramLimit: configSnapshot.vramLimit || '',
-          components: configSnapshot.components || [],
-          notes: configSnapshot.notes
+          language: snapshotDetails.language,
+          gameResolution: snapshotDetails.gameResolution || '',
+          directxHub: snapshotDetails.directxHub || 'DISABLE',
+          envVars: snapshotDetails.envVars,
+          commandLine: snapshotDetails.commandLine,
+          compatLayer: snapshotDetails.compatLayer || '',
+          gpuDriver: snapshotDetails.gpuDriver || '',
+          audioDriver: snapshotDetails.audioDriver || 'ALSA',
+          dxvkVersion: snapshotDetails.dxvkVersion || '',
+          vkd3dVersion: snapshotDetails.vkd3dVersion || '',
+          cpuTranslator: snapshotDetails.cpuTranslator || '',
+          cpuCoreLimit: snapshotDetails.cpuCoreLimit || '',
+          vramLimit: snapshotDetails.vramLimit || '',
+          components: snapshotDetails.components || [],
+          notes: snapshotDetails.notes,
+          deviceModel: snapshotDetails.deviceModel ?? null,
+          soc: snapshotDetails.soc ?? null,
+          gpuFamily: snapshotDetails.gpuFamily ?? null,
+          ramGb: snapshotDetails.ramGb ?? null,
+          androidVersion: snapshotDetails.androidVersion ?? null
         }
       });
 
@@ -519,13 +889,19 @@ export async function revertConfigToVersion(
 
       const newVersionNumber = latestVersion ? latestVersion.versionNumber + 1 : 1;
 
+      // Snapshot the config as it is after the revert
+      const currentConfig = await tx.config.findUniqueOrThrow({
+        where: { id: configId },
+        include: { details: true }
+      });
+
       // Create a new version to record this revert action
       await tx.configVersion.create({
         data: {
           configId,
           userId,
           versionNumber: newVersionNumber,
-          configSnapshot: configSnapshot as Prisma.JsonObject,
+          configSnapshot: buildConfigSnapshot(currentConfig, currentConfig.details) as Prisma.JsonObject,
           changeSummary: `Reverted to version ${versionToRevert.versionNumber}`
         }
       });
@@ -556,3 +932,57 @@ export async function revertConfigToVersion(
     return null;
   }
 }
+
+/**
+ * Computes a field-by-field diff between two versions of a configuration
+ * 
+ * @param configId - ID of the configuration
+ * @param fromVersionId - ID of the older version
+ * @param toVersionId - ID of the newer version
+ * @returns Metadata for both versions and the list of field diffs
+ */
+export async function getConfigVersionDiff(
+  configId: string,
+  fromVersionId: string,
+  toVersionId: string
+) {
+  try {
+    const versions = await prisma.configVersion.findMany({
+      where: {
+        configId,
+        id: { in: [fromVersionId, toVersionId] }
+      },
+      include: {
+        updatedBy: {
+          select: {
+            username: true
+          }
+        }
+      }
+    });
+
+    const fromVersion = versions.find((version) => version.id === fromVersionId);
+    const toVersion = versions.find((version) => version.id === toVersionId);
+
+    if (!fromVersion || !toVersion) {
+      throw new Error('Version not found');
+    }
+
+    const summarize = (version: typeof fromVersion) => ({
+      id: version.id,
+      versionNumber: version.versionNumber,
+      changeSummary: version.changeSummary,
+      createdAt: version.createdAt,
+      updatedBy: version.updatedBy
+    });
+
+    return {
+      from: summarize(fromVersion),
+      to: summarize(toVersion),
+      changes: diffConfigSnapshots(fromVersion.configSnapshot, toVersion.configSnapshot)
+    };
+  } catch (error) {
+    console.error('Error computing config version diff:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Device Service
+ * Handles the devices users save on their profile and matching configs by hardware
+ */
+
+import { prisma } from '../prisma';
+import { GpuFamily, Prisma } from '@prisma/client';
+import { type SavedDeviceInput } from '@/lib/validations/config';
+
+// Most devices a user can save
+export const MAX_DEVICES_PER_USER = 10;
+
+/**
+ * Hardware to match configs against
+ * A SoC matches configs tested on that SoC, a GPU family matches every SoC with that GPU
+ */
+export interface HardwareFilter {
+  soc?: string;
+  gpuFamily?: GpuFamily;
+}
+
+/**
+ * Reads a hardware filter from ?soc= and ?gpuFamily= query parameters
+ * Unknown GPU families are ignored
+ *
+ * @param params - Query parameters
+ * @returns The filter, empty when neither parameter is set
+ */
+export function parseHardwareFilter(params: { get(name: string): string | null }): HardwareFilter {
+  const soc = params.get('soc')?.trim();
+  const gpuFamily = params.get('gpuFamily')?.trim();
+  return {
+    ...(soc && { soc }),
+    ...(gpuFamily && (Object.values(GpuFamily) as string[]).includes(gpuFamily) && { gpuFamily: gpuFamily as GpuFamily }),
+  };
+}
+
+/**
+ * Builds the where clause for configs tested on matching hardware
+ *
+ * @param filter - Hardware to match
+ * @returns Where clause, empty when the filter is empty
+ */
+export function hardwareWhere(filter: HardwareFilter): Prisma.ConfigWhereInput {
+  if (!filter.soc && !filter.gpuFamily) {
+    return {};
+  }
+  return {
+    details: {
+      is: {
+        ...(filter.soc && { soc: { equals: filter.soc, mode: 'insensitive' } }),
+        ...(filter.gpuFamily && { gpuFamily: filter.gpuFamily }),
+      },
+    },
+  };
+}
+
+/**
+ * Gets the devices a user saved, oldest first
+ *
+ * @param userId - User ID
+ * @returns The devices
+ */
+export async function getUserDevices(userId: string) {
+  try {
+    return await prisma.device.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    });
+  } catch (error) {
+    console.error('Error fetching devices:', error);
+    throw error;
+  }
+}
+
+/**
+ * Saves a device on a user's profile
+ *
+ * @param userId - User ID
+ * @param device - Validated device
+ * @returns The saved device
+ * @throws Error with message 'Device limit reached' when the user has MAX_DEVICES_PER_USER devices
+ */
+export async function createDevice(userId: string, device: SavedDeviceInput) {
+  try {
+    const count = await prisma.device.count({ where: { userId } });
+    if (count >= MAX_DEVICES_PER_USER) {
+      throw new Error('Device limit reached');
+    }
+
+    return await prisma.device.create({
+      data: { userId, ...device },
+    });
+  } catch (error) {
+    console.error('Error saving device:', error);
+    throw error;
+  }
+}
+
+/**
+ * Updates one of a user's devices
+ *
+ * @param userId - User ID
+ * @param deviceId - Device ID
+ * @param device - Validated device
+ * @returns The updated device
+ * @throws Error with message 'Device not found' when the device doesn't belong to the user
+ */
+export async function updateDevice(userId: string, deviceId: string, device: SavedDeviceInput) {
+  try {
+    const existing = await prisma.device.findUnique({ where: { id: deviceId } });
+    if (!existing || existing.userId !== userId) {
+      throw new Error('Device not found');
+    }
+
+    return await prisma.device.update({
+      where: { id: deviceId },
+      data: device,
+    });
+  } catch (error) {
+    console.error('Error updating device:', error);
+    throw error;
+  }
+}
+
+/**
+ * Deletes one of a user's devices
+ *
+ * @param userId - User ID
+ * @param deviceId - Device ID
+ * @throws Error with message 'Device not found' when the device doesn't belong to the user
+ */
+export async function deleteDevice(userId: string, deviceId: string): Promise<void> {
+  try {
+    const { count } = await prisma.device.deleteMany({
+      where: { id: deviceId, userId },
+    });
+    if (count === 0) {
+      throw new Error('Device not found');
+    }
+  } catch (error) {
+    console.error('Error deleting device:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,305 @@
+/**
+ * Email Digest Service
+ * Handles digest preferences and sends the daily/weekly activity emails
+ */
+
+import { randomBytes } from 'crypto';
+import { prisma } from '../prisma';
+import { DigestFrequency, ReportStatus } from '@prisma/client';
+import { sendEmail } from '../email';
+import { renderActivityDigestEmail, type ActivityDigest } from '../email-templates/activity-digest';
+
+/**
+ * Length of each digest period in milliseconds
+ */
+const DIGEST_PERIODS: Record<Exclude<DigestFrequency, 'NONE'>, number> = {
+  DAILY: 24 * 60 * 60 * 1000,
+  WEEKLY: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Comments listed in a digest, the rest are only counted
+ */
+const DIGEST_COMMENT_LIMIT = 5;
+
+/**
+ * Digests sent per job run, the next run picks up the rest
+ */
+const DIGEST_BATCH_SIZE = 100;
+
+/**
+ * Creates an unguessable token for unsubscribe links
+ */
+function createUnsubscribeToken(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+/**
+ * Base URL used for links in emails
+ */
+function getAppUrl(): string {
+  return (process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+}
+
+/**
+ * Gets a user's email preferences, defaults when none are stored
+ *
+ * @param userId - User ID
+ * @returns The user's digest frequency
+ */
+export async function getEmailPreference(userId: string): Promise<{ digestFrequency: DigestFrequency }> {
+  try {
+    const preference = await prisma.emailPreference.findUnique({
+      where: { userId },
+      select: { digestFrequency: true },
+    });
+
+    return { digestFrequency: preference?.digestFrequency ?? DigestFrequency.NONE };
+  } catch (error) {
+    console.error('Error getting email preference:', error);
+    throw error;
+  }
+}
+
+/**
+ * Sets how often a user receives activity digests
+ * Turning digests on starts the first period now, so old activity is not sent
+ *
+ * @param userId - User ID
+ * @param digestFrequency - New frequency
+ * @returns The updated preference
+ */
+export async function updateDigestFrequency(userId: string, digestFrequency: DigestFrequency) {
+  try {
+    const now = new Date();
+
+    return await prisma.emailPreference.upsert({
+      where: { userId },
+      create: {
+        userId,
+        digestFrequency,
+        lastDigestSentAt: now,
+        unsubscribeToken: createUnsubscribeToken(),
+      },
+      update: {
+        digestFrequency,
+        lastDigestSentAt: now,
+      },
+      select: { digestFrequency: true },
+    });
+  } catch (error) {
+    console.error('Error updating digest frequency:', error);
+    throw error;
+  }
+}
+
+/**
+ * Turns off digests for the owner of an unsubscribe token
+ *
+ * @param token - Token from the unsubscribe link
+ * @returns Whether the token belonged to a user
+ */
+export async function unsubscribeByToken(token: string): Promise<boolean> {
+  try {
+    const result = await prisma.emailPreference.updateMany({
+      where: { unsubscribeToken: token },
+      data: { digestFrequency: DigestFrequency.NONE },
+    });
+
+    return result.count > 0;
+  } catch (error) {
+    console.error('Error unsubscribing from digests:', error);
+    throw error;
+  }
+}
+
+/**
+ * Collects a user's activity since a point in time
+ *
+ * @param userId - User ID
+ * @param username - Username shown in the greeting
+ * @param since - Start of the period
+ * @param periodLabel - "daily" or "weekly"
+ * @returns The digest, or null if nothing happened
+ */
+export async function buildActivityDigest(
+  userId: string,
+  username: string,
+  since: Date,
+  periodLabel: string
+): Promise<ActivityDigest | null> {
+  try {
+    const commentWhere = {
+      config: { userId },
+      userId: { not: userId },
+      isDeleted: false,
+      createdAt: { gt: since },
+    };
+
+    const [comments, commentTotal, voteGroups, reports] = await Promise.all([
+      prisma.comment.findMany({
+        where: commentWhere,
+        orderBy: { createdAt: 'desc' },
+        take: DIGEST_COMMENT_LIMIT,
+        select: {
+          id: true,
+          content: true,
+          configId: true,
+          user: { select: { username: true } },
+          config: { select: { game: { select: { name: true } } } },
+        },
+      }),
+      prisma.comment.count({ where: commentWhere }),
+      prisma.vote.groupBy({
+        by: ['configId', 'value'],
+        where: { config: { userId }, createdAt: { gt: since } },
+        _count: { _all: true },
+      }),
+      prisma.report.findMany({
+        where: {
+          reporterId: userId,
+          status: { in: [ReportStatus.REVIEWED, ReportStatus.DISMISSED] },
+          resolvedAt: { gt: since },
+        },
+        select: {
+          id: true,
+          status: true,
+          config: { select: { game: { select: { name: true } } } },
+          comment: { select: { user: { select: { username: true } } } },
+        },
+      }),
+    ]);
+
+    const votedConfigIds = Array.from(new Set(voteGroups.map((group) => group.configId)));
+    const votedConfigs = votedConfigIds.length > 0
+      ? await prisma.config.findMany({
+          where: { id: { in: votedConfigIds } },
+          select: { id: true, upvotes: true, downvotes: true, game: { select: { name: true } } },
+        })
+      : [];
+
+    const votes = votedConfigs.map((config) => {
+      const countFor = (value: number) =>
+        voteGroups.find((group) => group.configId === config.id && group.value === value)?._count._all ?? 0;
+      return {
+        configId: config.id,
+        gameName: config.game.name,
+        upvotes: countFor(1),
+        downvotes: countFor(-1),
+        totalUpvotes: config.upvotes,
+        totalDownvotes: config.downvotes,
+      };
+    });
+
+    if (commentTotal === 0 && votes.length === 0 && reports.length === 0) {
+      return null;
+    }
+
+    return {
+      username,
+      periodLabel,
+      commentTotal,
+      comments: comments.map((comment) => ({
+        id: comment.id,
+        configId: comment.configId,
+        gameName: comment.config.game.name,
+        author: comment.user.username,
+        excerpt: comment.content.length > 140 ? `${comment.content.slice(0, 137)}...` : comment.content,
+      })),
+      votes,
+      reports: reports.map((report) => ({
+        id: report.id,
+        status: report.status as 'REVIEWED' | 'DISMISSED',
+        target: report.config
+          ? `a ${report.config.game.name} config`
+          : report.comment
+            ? `a comment by @${report.comment.user.username}`
+            : 'removed content',
+      })),
+    };
+  } catch (error) {
+    console.error('Error building activity digest:', error);
+    throw error;
+  }
+}
+
+/**
+ * Sends every digest whose period has ended
+ * Users without activity are skipped but their period still advances
+ *
+ * @param now - Reference time (default: now)
+ * @returns Counts of sent, empty and failed digests
+ */
+export async function sendDueDigests(now: Date = new Date()) {
+  const result = { sent: 0, empty: 0, failed: 0 };
+
+  try {
+    const frequencies = Object.keys(DIGEST_PERIODS) as (keyof typeof DIGEST_PERIODS)[];
+    const due = await prisma.emailPreference.findMany({
+      where: {
+        OR: frequencies.map((frequency) => ({
+          digestFrequency: frequency,
+          OR: [
+            { lastDigestSentAt: null },
+            { lastDigestSentAt: { lte: new Date(now.getTime() - DIGEST_PERIODS[frequency]) } },
+          ],
+        })),
+        user: { email: { not: null } },
+      },
+      orderBy: { lastDigestSentAt: 'asc' },
+      take: DIGEST_BATCH_SIZE,
+      select: {
+        id: true,
+        digestFrequency: true,
+        lastDigestSentAt: true,
+        unsubscribeToken: true,
+        user: { select: { id: true, username: true, email: true } },
+      },
+    });
+
+    const appUrl = getAppUrl();
+
+    for (const preference of due) {
+      const frequency = preference.digestFrequency as keyof typeof DIGEST_PERIODS;
+      const since = preference.lastDigestSentAt ?? new Date(now.getTime() - DIGEST_PERIODS[frequency]);
+      const periodLabel = frequency === DigestFrequency.DAILY ? 'daily' : 'weekly';
+
+      try {
+        const digest = await buildActivityDigest(preference.user.id, preference.user.username, since, periodLabel);
+
+        if (digest) {
+          const unsubscribeUrl = `${appUrl}/api/email/unsubscribe?token=${preference.unsubscribeToken}`;
+          const { html, text } = await renderActivityDigestEmail({ digest, appUrl, unsubscribeUrl });
+
+          await sendEmail({
+            to: preference.user.email!,
+            subject: `Your ${periodLabel} GameHub Config digest`,
+            text,
+            html,
+            headers: {
+              'List-Unsubscribe': `<${unsubscribeUrl}>`,
+              'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+            },
+          });
+          result.sent++;
+        } else {
+          result.empty++;
+        }
+
+        await prisma.emailPreference.update({
+          where: { id: preference.id },
+          data: { lastDigestSentAt: now },
+        });
+      } catch (error) {
+        // Leave the period open so the next run retries this user
+        console.error(`Error sending digest to user ${preference.user.id}:`, error);
+        result.failed++;
+      }
+    }
+
+    return result;
+  } catch (error) {
+    console.error('Error sending due digests:', error);
+    throw error;
+  }
+}
@@ -1,12 +1,20 @@
 /**
  * Game Service
- * Handles database operations for games including fetching from Steam and uploading images to GitHub
+ * Handles database operations for games including fetching from Steam and storing cover images
+ * Steam games are created on demand, games from other stores are submitted by users and
+ * approved by moderators
  */
 
 import { prisma } from '../prisma';
-import { getGameInfo } from '../steam';
-import { uploadImageToGitHub } from '../github-upload';
+import { type SteamGameMetadata } from '../steam';
+import { GAME_LOOKUP_UNAVAILABLE, lookupGameInfo, lookupGameMetadata } from '../game-metadata';
+import { storeGameCover, uploadGameImage } from '../game-image-upload';
+import { decodeBase64Image, MAX_COVER_BYTES } from '../image-processing';
+import { slugify } from '../utils';
 import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
+import { AuditAction, GameSource, GameStatus, GraphicsApi, Prisma, type Game } from '@prisma/client';
+import { type GameAliasInput, type GameSubmissionInput } from '@/lib/validations/config';
+import { type CursorField, decodeCursor, cursorOrderBy, cursorWhere, toCursorPage } from '../pagination';
 
 /**
  * Fetches or creates a game by Steam App ID
@@ -14,17 +22,13 @@ import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
  * 
  * @param steamId - The Steam App ID
  * @returns The game object or null if not found/created
+ * @throws Error with message GAME_LOOKUP_UNAVAILABLE when Steam keeps failing
  */
-export async function getOrCreateGame(steamId: string): Promise<{
-  id: string;
-  steamId: string;
-  name: string;
-  imageUrl: string;
-} | null> {
+export async function getOrCreateGame(steamId: string): Promise<Game | null> {
   try {
     // Check if game exists in database
     const existingGame = await prisma.game.findUnique({
-      where: { steamId },
+      where: { source_externalId: { source: GameSource.STEAM, externalId: steamId } },
     });
 
     // If game exists, return it
@@ -32,8 +36,17 @@ export async function getOrCreateGame(steamId: string): Promise<{
       return existingGame;
     }
 
+    // App IDs of games merged into another game resolve to that game
+    const alias = await prisma.gameAlias.findUnique({
+      where: { source_externalId: { source: GameSource.STEAM, externalId: steamId } },
+      include: { game: true },
+    });
+    if (alias) {
+      return alias.game;
+    }
+
     // If not in database, fetch from Steam API
-    const gameInfo = await getGameInfo(steamId);
+    const gameInfo = await lookupGameInfo(steamId);
     if (!gameInfo) {
       return null;
     }
@@ -41,43 +54,54 @@ export async function getOrCreateGame(steamId: string): Promise<{
     // Prepare image URL - default to Steam image or placeholder
     let finalImageUrl = gameInfo.imageUrl || `https://via.placeholder.com/460x215?text=${encodeURIComponent(gameInfo.name)}`;
 
-    // Try to upload image to GitHub if available
+    // Try to copy the image into storage if available
     if (gameInfo.imageUrl) {
       try {
-        const fileName = `${steamId}.jpg`;
-        const githubImageUrl = await uploadImageToGitHub({
+        const fileName = steamId;
+        const storedImageUrl = await uploadGameImage({
           imageUrl: gameInfo.imageUrl,
           fileName,
         });
         
         // Only update URL if upload was successful
-        if (githubImageUrl) {
-          finalImageUrl = githubImageUrl;
+        if (storedImageUrl) {
+          finalImageUrl = storedImageUrl;
         }
       } catch (uploadError) {
         // Log error but continue with original image URL
-        console.error('Error uploading image to GitHub:', uploadError);
+        console.error('Error storing game image:', uploadError);
         // We'll fall back to the Steam image URL
       }
     }
 
+    // Metadata is optional on creation, the refresh job fills it in later if Steam fails now
+    let metadata: SteamGameMetadata | null = null;
+    try {
+      metadata = await lookupGameMetadata(steamId);
+    } catch (metadataError) {
+      console.error('Error fetching game metadata:', metadataError);
+    }
+
     try {
       // Try to create the game record
       const newGame = await prisma.game.create({
         data: {
-          steamId: gameInfo.steamId,
+          source: GameSource.STEAM,
+          externalId: gameInfo.steamId,
           name: gameInfo.name,
           imageUrl: finalImageUrl,
+          ...(metadata && { ...metadata, metadataUpdatedAt: new Date() }),
         },
       });
       
       return newGame;
     } catch (createError) {
       // If error is a unique constraint violation, another process likely created the game
-      if (createError instanceof PrismaClientKnownRequestError && createError.code === 'P2002') {
+      // P2025: the rejected submission was replaced by someone else first
+      if (createError instanceof PrismaClientKnownRequestError && ['P2002', 'P2025'].includes(createError.code)) {
         // Try to fetch the game that was just created by another process
         const justCreatedGame = await prisma.game.findUnique({
-          where: { steamId },
+          where: { source_externalId: { source: GameSource.STEAM, externalId: steamId } },
         });
         
         if (justCreatedGame) {
@@ -90,27 +114,148 @@ export async function getOrCreateGame(steamId: string): Promise<{
     }
   } catch (error) {
     console.error('Error in getOrCreateGame:', error);
+    // Callers can tell a Steam outage apart from an unknown game
+    if (error instanceof Error && error.message === GAME_LOOKUP_UNAVAILABLE) {
+      throw error;
+    }
     return null;
   }
 }
 
 /**
- * Gets all games from database with pagination
+ * Game metadata is refreshed from Steam once it is older than this
+ */
+const METADATA_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Number of games refreshed per run, keeps each run well under Steam's store API rate limit
+ */
+const METADATA_REFRESH_BATCH_SIZE = 20;
+
+/**
+ * Fetches a game's metadata from Steam and stores it
+ * Games Steam no longer has a store page for keep their old metadata
+ *
+ * @param gameId - Game ID
+ * @returns True if new metadata was stored
+ * @throws Error when the game does not exist, is not a Steam game or Steam cannot be reached
+ */
+export async function refreshGameMetadata(gameId: string): Promise<boolean> {
+  try {
+    const game = await prisma.game.findUnique({
+      where: { id: gameId },
+      select: { source: true, externalId: true },
+    });
+    if (!game) {
+      throw new Error('Game not found');
+    }
+    if (game.source !== GameSource.STEAM) {
+      throw new Error('Only Steam games have store metadata');
+    }
+
+    const metadata = await lookupGameMetadata(game.externalId);
+    await prisma.game.update({
+      where: { id: gameId },
+      data: { ...metadata, metadataUpdatedAt: new Date() },
+    });
+
+    return metadata !== null;
+  } catch (error) {
+    console.error('Error refreshing game metadata:', error);
+    throw error;
+  }
+}
+
+/**
+ * Refreshes the metadata of games that have none yet or whose metadata is stale
+ * Run periodically by the game-metadata job, oldest metadata first
+ *
+ * @param now - Current time
+ * @returns Counts of refreshed and failed games
+ */
+export async function refreshStaleGameMetadata(now = new Date()): Promise<{ refreshed: number; failed: number }> {
+  const staleBefore = new Date(now.getTime() - METADATA_MAX_AGE_MS);
+  const games = await prisma.game.findMany({
+    where: {
+      source: GameSource.STEAM,
+      OR: [{ metadataUpdatedAt: null }, { metadataUpdatedAt: { lt: staleBefore } }],
+    },
+    select: { id: true },
+    orderBy: { metadataUpdatedAt: { sort: 'asc', nulls: 'first' } },
+    take: METADATA_REFRESH_BATCH_SIZE,
+  });
+
+  let refreshed = 0;
+  let failed = 0;
+  // One at a time, Steam rate limits bursts of store API requests
+  for (const game of games) {
+    try {
+      await refreshGameMetadata(game.id);
+      refreshed++;
+    } catch {
+      // Left stale so the next run retries it
+      failed++;
+    }
+  }
+
+  return { refreshed, failed };
+}
+
+// Games are listed alphabetically, `id` breaks ties between equal names
+const GAME_SORT_FIELDS: CursorField[] = [
+  { field: 'name', direction: 'asc' },
+  { field: 'id', direction: 'asc' },
+];
+
+/**
+ * Listed games: approved ones, optionally only those requiring any of the given graphics APIs
+ */
+function listedGamesWhere(graphicsApis?: GraphicsApi[]): Prisma.GameWhereInput {
+  return {
+    status: GameStatus.APPROVED,
+    ...(graphicsApis?.length && { graphicsApis: { hasSome: graphicsApis } }),
+  };
+}
+
+/**
+ * Gets all approved games from database with pagination
+ * Passing a cursor (empty string for the first page) switches to cursor pagination
  * 
  * @param page - Page number (default: 1)
  * @param limit - Number of games per page (default: 20)
+ * @param cursor - Opaque cursor from a previous page's pageInfo.nextCursor
+ * @param graphicsApis - Only include games requiring any of these APIs
  * @returns Paginated list of games
+ * @throws Error with message 'Invalid cursor' if the cursor cannot be decoded
  */
-export async function getAllGames(page = 1, limit = 20) {
+export async function getAllGames(page = 1, limit = 20, cursor?: string, graphicsApis?: GraphicsApi[]) {
+  const orderBy = cursorOrderBy(GAME_SORT_FIELDS) as Prisma.GameOrderByWithRelationInput[];
+  const where = listedGamesWhere(graphicsApis);
+
+  if (cursor !== undefined) {
+    const cursorValues = cursor ? decodeCursor(cursor, 'name', GAME_SORT_FIELDS) : null;
+    const rows = await prisma.game.findMany({
+      where: cursorValues
+        ? { AND: [where, cursorWhere(GAME_SORT_FIELDS, cursorValues) as Prisma.GameWhereInput] }
+        : where,
+      take: limit + 1,
+      orderBy,
+    });
+    const { items, pageInfo } = toCursorPage(rows, limit, 'name', GAME_SORT_FIELDS);
+
+    return { games: items, pageInfo };
+  }
+
   const skip = (page - 1) * limit;
   
   const [games, total] = await Promise.all([
     prisma.game.findMany({
+      where,
       skip,
       take: limit,
-      orderBy: { name: 'asc' },
+      orderBy,
     }),
-    prisma.game.count(),
+    prisma.game.count({ where }),
   ]);
   
   return {
@@ -125,36 +270,33 @@ export async function getAllGames(page = 1, limit = 20) {
 }
 
 /**
- * Searches games by name
+ * Searches approved games by name or alias, or by an exact alternate name such as a localized title
  * 
  * @param query - Search query
  * @param page - Page number (default: 1)
  * @param limit - Number of games per page (default: 20)
+ * @param graphicsApis - Only include games requiring any of these APIs
  * @returns Paginated list of games matching search query
  */
-export async function searchGames(query: string, page = 1, limit = 20) {
+export async function searchGames(query: string, page = 1, limit = 20, graphicsApis?: GraphicsApi[]) {
   const skip = (page - 1) * limit;
+  const where: Prisma.GameWhereInput = {
+    ...listedGamesWhere(graphicsApis),
+    OR: [
+      { name: { contains: query, mode: 'insensitive' } },
+      { alternateNames: { has: query } },
+      { aliases: { some: { name: { contains: query, mode: 'insensitive' } } } },
+    ],
+  };
   
   const [games, total] = await Promise.all([
     prisma.game.findMany({
-      where: {
-        name: {
-          contains: query,
-          mode: 'insensitive',
-        },
-      },
+      where,
       skip,
       take: limit,
       orderBy: { name: 'asc' },
     }),
-    prisma.game.count({
-      where: {
-        name: {
-          contains: query,
-          mode: 'insensitive',
-        },
-      },
-    }),
+    prisma.game.count({ where }),
   ]);
   
   return {
@@ -167,3 +309,424 @@ export async function searchGames(query: string, page = 1, limit = 20) {
     },
   };
 }
+
+/**
+ * External ID of a submitted game
+ * Manual entries have no store ID, so they are identified by their name
+ */
+function submissionExternalId(submission: GameSubmissionInput): string {
+  if (submission.source !== GameSource.MANUAL && submission.externalId) {
+    return submission.externalId;
+  }
+  return slugify(submission.name) || Buffer.from(submission.name).toString('hex').slice(0, 100);
+}
+
+/**
+ * Adds a game from GOG, Epic or a standalone installer
+ * Games submitted by moderators are approved right away, others wait in the review queue.
+ * Submitting a game that was rejected before replaces the rejected submission.
+ *
+ * @param submission - Validated game submission
+ * @param submittedById - ID of the submitting user
+ * @param autoApprove - Whether the submitter may approve games
+ * @returns The created game
+ * @throws Error with message 'Game already exists' when the store ID (or manual name) is taken,
+ *         also as an alias of a merged game, or one of IMAGE_ERRORS when the cover image is rejected
+ */
+export async function submitGame(
+  submission: GameSubmissionInput,
+  submittedById: string,
+  autoApprove: boolean
+): Promise<Game> {
+  try {
+    const externalId = submissionExternalId(submission);
+    const existingGame = await prisma.game.findUnique({
+      where: { source_externalId: { source: submission.source, externalId } },
+    });
+    if (existingGame && existingGame.status !== GameStatus.REJECTED) {
+      throw new Error('Game already exists');
+    }
+
+    // Store IDs of games merged into another game belong to that game
+    const alias = await prisma.gameAlias.findUnique({
+      where: { source_externalId: { source: submission.source, externalId } },
+    });
+    if (alias) {
+      throw new Error('Game already exists');
+    }
+
+    // Reject bad images before anything is stored
+    const coverData = submission.coverImage ? decodeBase64Image(submission.coverImage, MAX_COVER_BYTES) : null;
+    const imageUrl = coverData
+      ? await storeGameCover(coverData, `${submission.source.toLowerCase()}-${externalId}`)
+      : `https://via.placeholder.com/460x215?text=${encodeURIComponent(submission.name)}`;
+
+    const data = {
+      name: submission.name,
+      imageUrl,
+      status: autoApprove ? GameStatus.APPROVED : GameStatus.PENDING,
+      submittedById,
+      reviewedAt: autoApprove ? new Date() : null,
+    };
+
+    try {
+      if (existingGame) {
+        return await prisma.game.update({
+          // Only while still rejected, a concurrent resubmission may have replaced it already
+          where: { id: existingGame.id, status: GameStatus.REJECTED },
+          data: { ...data, createdAt: new Date() },
+        });
+      }
+
+      return await prisma.game.create({
+        data: {
+          source: submission.source,
+          externalId,
+          ...data,
+        },
+      });
+    } catch (createError) {
+      // P2025: the rejected submission was replaced by someone else first
+      if (createError instanceof PrismaClientKnownRequestError && ['P2002', 'P2025'].includes(createError.code)) {
+        throw new Error('Game already exists');
+      }
+      throw createError;
+    }
+  } catch (error) {
+    console.error('Error submitting game:', error);
+    throw error;
+  }
+}
+
+/**
+ * Gets submitted games waiting for review, oldest first
+ *
+ * @param page - Page number (default: 1)
+ * @param limit - Number of games per page (default: 20)
+ * @returns Paginated list of pending games with their submitters
+ */
+export async function getPendingGames(page = 1, limit = 20) {
+  try {
+    const skip = (page - 1) * limit;
+    const where: Prisma.GameWhereInput = { status: GameStatus.PENDING };
+
+    const [games, total] = await Promise.all([
+      prisma.game.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'asc' },
+        include: {
+          submittedBy: {
+            select: {
+              id: true,
+              username: true
+            }
+          }
+        }
+      }),
+      prisma.game.count({ where })
+    ]);
+
+    return {
+      games,
+      pagination: {
+        total,
+        page,
+        limit,
+        pages: Math.ceil(total / limit)
+      }
+    };
+  } catch (error) {
+    console.error('Error fetching pending games:', error);
+    throw error;
+  }
+}
+
+/**
+ * Approves or rejects a submitted game
+ *
+ * @param gameId - Game ID
+ * @param status - APPROVED or REJECTED
+ * @returns The updated game
+ */
+export async function reviewGame(gameId: string, status: GameStatus): Promise<Game> {
+  try {
+    const game = await prisma.game.findUnique({
+      where: { id: gameId }
+    });
+
+    if (!game) {
+      throw new Error('Game not found');
+    }
+
+    if (game.status !== GameStatus.PENDING) {
+      throw new Error('Game has already been reviewed');
+    }
+
+    return await prisma.game.update({
+      where: { id: gameId },
+      data: { status, reviewedAt: new Date() }
+    });
+  } catch (error) {
+    console.error('Error reviewing game:', error);
+    throw error;
+  }
+}
+
+/**
+ * A user with configs for both games of a merge
+ */
+export interface GameMergeConflict {
+  userId: string;
+  username: string;
+  sourceConfigId: string;
+  targetConfigId: string;
+}
+
+/**
+ * Finds users with a config for both games, which can't both be kept after a merge
+ *
+ * @param sourceId - ID of the game being merged away
+ * @param targetId - ID of the game it is merged into
+ * @returns The conflicting configs per user
+ */
+export async function findMergeConflicts(sourceId: string, targetId: string): Promise<GameMergeConflict[]> {
+  const sourceConfigs = await prisma.config.findMany({
+    where: { gameId: sourceId },
+    select: { id: true, userId: true, createdBy: { select: { username: true } } },
+  });
+  const targetConfigs = await prisma.config.findMany({
+    where: { gameId: targetId, userId: { in: sourceConfigs.map((config) => config.userId) } },
+    select: { id: true, userId: true },
+  });
+
+  return targetConfigs.map((targetConfig) => {
+    const sourceConfig = sourceConfigs.find((config) => config.userId === targetConfig.userId)!;
+    return {
+      userId: targetConfig.userId,
+      username: sourceConfig.createdBy.username,
+      sourceConfigId: sourceConfig.id,
+      targetConfigId: targetConfig.id,
+    };
+  });
+}
+
+/**
+ * Merges a duplicate game into another game
+ * Configs and aliases move to the target, the source's name and store ID become aliases
+ * of the target, and the source game is deleted
+ *
+ * @param sourceId - ID of the game being merged away
+ * @param targetId - ID of the game it is merged into
+ * @param actorId - ID of the admin performing the merge, for the audit log
+ * @param keepBestOnConflict - For users with configs for both games, keep the higher ranked
+ *        config (the newer one on a tie) and delete the other instead of refusing the merge
+ * @returns The target game with the IDs of moved and deleted configs
+ */
+export async function mergeGames(
+  sourceId: string,
+  targetId: string,
+  actorId: string,
+  keepBestOnConflict = false
+) {
+  try {
+    if (sourceId === targetId) {
+      throw new Error('Cannot merge a game into itself');
+    }
+
+    return await prisma.$transaction(async (tx) => {
+      const [source, target] = await Promise.all([
+        tx.game.findUnique({ where: { id: sourceId } }),
+        tx.game.findUnique({ where: { id: targetId } }),
+      ]);
+      if (!source || !target) {
+        throw new Error('Game not found');
+      }
+      if (target.status !== GameStatus.APPROVED) {
+        throw new Error('Games can only be merged into an approved game');
+      }
+
+      const sourceConfigs = await tx.config.findMany({
+        where: { gameId: sourceId },
+        select: { id: true, userId: true, bestScore: true, updatedAt: true },
+      });
+      const targetConfigs = await tx.config.findMany({
+        where: { gameId: targetId, userId: { in: sourceConfigs.map((config) => config.userId) } },
+        select: { id: true, userId: true, bestScore: true, updatedAt: true },
+      });
+
+      if (targetConfigs.length > 0 && !keepBestOnConflict) {
+        throw new Error('Games have conflicting configs');
+      }
+
+      // A user keeps one config per game, the lower ranked one of each conflicting pair goes
+      const deletedConfigIds = targetConfigs.map((targetConfig) => {
+        const sourceConfig = sourceConfigs.find((config) => config.userId === targetConfig.userId)!;
+        const keepSource = sourceConfig.bestScore > targetConfig.bestScore
+          || (sourceConfig.bestScore === targetConfig.bestScore && sourceConfig.updatedAt > targetConfig.updatedAt);
+        return keepSource ? targetConfig.id : sourceConfig.id;
+      });
+      if (deletedConfigIds.length > 0) {
+        await tx.config.deleteMany({ where: { id: { in: deletedConfigIds } } });
+      }
+
+      const movedConfigIds = sourceConfigs
+        .map((config) => config.id)
+        .filter((id) => !deletedConfigIds.includes(id));
+      await tx.config.updateMany({
+        where: { gameId: sourceId },
+        data: { gameId: targetId },
+      });
+
+      await tx.gameAlias.updateMany({
+        where: { gameId: sourceId },
+        data: { gameId: targetId },
+      });
+      await tx.gameAlias.create({
+        data: {
+          gameId: targetId,
+          name: source.name,
+          source: source.source,
+          externalId: source.externalId,
+        },
+      });
+
+      await tx.game.delete({ where: { id: sourceId } });
+
+      const game = await tx.game.update({
+        where: { id: targetId },
+        data: {
+          alternateNames: Array.from(new Set([...target.alternateNames, ...source.alternateNames])),
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: AuditAction.GAME_MERGE,
+          actorId,
+          targetId,
+          details: {
+            sourceGame: {
+              id: source.id,
+              name: source.name,
+              source: source.source,
+              externalId: source.externalId,
+            },
+            movedConfigIds,
+            deletedConfigIds,
+          },
+        },
+      });
+
+      return { game, movedConfigIds, deletedConfigIds };
+    });
+  } catch (error) {
+    console.error('Error merging games:', error);
+    throw error;
+  }
+}
+
+/**
+ * Gets the aliases of a game, oldest first
+ *
+ * @param gameId - Game ID
+ * @returns The aliases
+ */
+export async function getGameAliases(gameId: string) {
+  try {
+    return await prisma.gameAlias.findMany({
+      where: { gameId },
+      orderBy: { createdAt: 'asc' },
+    });
+  } catch (error) {
+    console.error('Error fetching game aliases:', error);
+    throw error;
+  }
+}
+
+/**
+ * Adds an alias to a game
+ *
+ * @param gameId - Game ID
+ * @param alias - Validated alias
+ * @param actorId - ID of the moderator adding it, for the audit log
+ * @returns The created alias
+ * @throws Error with message 'Store ID is already in use' when the store ID belongs to a game or alias
+ */
+export async function addGameAlias(gameId: string, alias: GameAliasInput, actorId: string) {
+  try {
+    const game = await prisma.game.findUnique({ where: { id: gameId } });
+    if (!game) {
+      throw new Error('Game not found');
+    }
+
+    if (alias.source && alias.externalId) {
+      const existingGame = await prisma.game.findUnique({
+        where: { source_externalId: { source: alias.source, externalId: alias.externalId } },
+      });
+      if (existingGame) {
+        throw new Error('Store ID is already in use');
+      }
+    }
+
+    return await prisma.$transaction(async (tx) => {
+      const created = await tx.gameAlias.create({
+        data: {
+          gameId,
+          name: alias.name,
+          source: alias.source ?? null,
+          externalId: alias.externalId ?? null,
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: AuditAction.GAME_ALIAS_CREATE,
+          actorId,
+          targetId: gameId,
+          details: { aliasId: created.id, name: created.name, source: created.source, externalId: created.externalId },
+        },
+      });
+
+      return created;
+    });
+  } catch (error) {
+    if (error instanceof PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new Error('Store ID is already in use');
+    }
+    console.error('Error adding game alias:', error);
+    throw error;
+  }
+}
+
+/**
+ * Removes an alias from a game
+ *
+ * @param gameId - Game ID
+ * @param aliasId - Alias ID
+ * @param actorId - ID of the moderator removing it, for the audit log
+ */
+export async function removeGameAlias(gameId: string, aliasId: string, actorId: string): Promise<void> {
+  try {
+    const alias = await prisma.gameAlias.findUnique({ where: { id: aliasId } });
+    if (!alias || alias.gameId !== gameId) {
+      throw new Error('Alias not found');
+    }
+
+    await prisma.$transaction([
+      prisma.gameAlias.delete({ where: { id: aliasId } }),
+      prisma.auditLog.create({
+        data: {
+          action: AuditAction.GAME_ALIAS_DELETE,
+          actorId,
+          targetId: gameId,
+          details: { aliasId, name: alias.name, source: alias.source, externalId: alias.externalId },
+        },
+      }),
+    ]);
+  } catch (error) {
+    console.error('Error removing game alias:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,193 @@
+/**
+ * Game Summary Service
+ * Aggregates a game's configs into the community consensus shown on game pages
+ */
+
+import { prisma } from '../prisma';
+import { SUMMARY_SETTINGS, type SummarySettingField } from '../constants/config-presets';
+import { hardwareWhere, type HardwareFilter } from './device-service';
+
+/**
+ * A setting value and how many configs use it
+ * `share` is the fraction of configs, or of vote weight for recommended settings
+ */
+export interface SettingShare {
+  value: string;
+  count: number;
+  share: number;
+}
+
+/**
+ * Configs, votes and approval for one GameHub version
+ */
+export interface GamehubVersionSummary {
+  version: string;
+  configCount: number;
+  upvotes: number;
+  downvotes: number;
+}
+
+export interface GameCompatibilitySummary {
+  configCount: number;
+  compatLayer: SettingShare | null;
+  dxvkVersion: SettingShare | null;
+  box64Version: SettingShare | null;
+  medianResolution: string | null;
+  recommendedSettings: Partial<Record<SummarySettingField, SettingShare>>;
+  gamehubVersions: GamehubVersionSummary[];
+}
+
+interface SummaryConfig {
+  gamehubVersion: string;
+  upvotes: number;
+  downvotes: number;
+  details: Record<SummarySettingField, string> | null;
+}
+
+/**
+ * Vote weight of a config in the recommended settings
+ * Every config counts once plus its net votes, so heavily downvoted configs drop out
+ */
+function voteWeight(config: SummaryConfig): number {
+  return Math.max(1 + config.upvotes - config.downvotes, 0);
+}
+
+/**
+ * Finds the value with the highest total weight
+ *
+ * @param values - Value and weight per config, empty values are skipped
+ * @returns The top value, or null if there are no values
+ */
+function topValue(values: { value: string; weight: number }[]): SettingShare | null {
+  const totals = new Map<string, { count: number; weight: number }>();
+  let totalWeight = 0;
+  for (const { value, weight } of values) {
+    if (!value) continue;
+    const total = totals.get(value) ?? { count: 0, weight: 0 };
+    total.count++;
+    total.weight += weight;
+    totals.set(value, total);
+    totalWeight += weight;
+  }
+
+  let top: SettingShare | null = null;
+  let topWeight = -1;
+  totals.forEach((total, value) => {
+    // Ties go to the value more configs use
+    if (total.weight > topWeight || (total.weight === topWeight && top && total.count > top.count)) {
+      top = { value, count: total.count, share: totalWeight > 0 ? total.weight / totalWeight : 0 };
+      topWeight = total.weight;
+    }
+  });
+  return top;
+}
+
+/**
+ * Parses a resolution such as "1280x720" or "1280 x 720" into its pixel count
+ */
+function resolutionPixels(resolution: string): number | null {
+  const match = resolution.match(/^\s*(\d+)\s*x\s*(\d+)\s*$/i);
+  return match ? Number(match[1]) * Number(match[2]) : null;
+}
+
+/**
+ * Picks the median resolution by pixel count
+ * The lower middle value is used for an even count, so the result is always a resolution
+ * that some config actually uses
+ */
+function medianResolution(resolutions: string[]): string | null {
+  const sorted = resolutions
+    .map((resolution) => ({ resolution, pixels: resolutionPixels(resolution) }))
+    .filter((entry): entry is { resolution: string; pixels: number } => entry.pixels !== null)
+    .sort((a, b) => a.pixels - b.pixels);
+
+  if (sorted.length === 0) return null;
+  return sorted[Math.floor((sorted.length - 1) / 2)].resolution;
+}
+
+/**
+ * Aggregates configs into a compatibility summary
+ *
+ * @param configs - The game's configs with details
+ * @returns The summary
+ */
+export function summarizeConfigs(configs: SummaryConfig[]): GameCompatibilitySummary {
+  const withDetails = configs.filter((config) => config.details);
+  const usage = (field: SummarySettingField) =>
+    topValue(withDetails.map((config) => ({ value: config.details![field], weight: 1 })));
+
+  const recommendedSettings: Partial<Record<SummarySettingField, SettingShare>> = {};
+  for (const { field } of SUMMARY_SETTINGS) {
+    const top = topValue(withDetails.map((config) => ({
+      value: config.details![field],
+      weight: voteWeight(config),
+    })));
+    if (top) {
+      recommendedSettings[field] = top;
+    }
+  }
+
+  const versions = new Map<string, GamehubVersionSummary>();
+  for (const config of configs) {
+    const version = versions.get(config.gamehubVersion)
+      ?? { version: config.gamehubVersion, configCount: 0, upvotes: 0, downvotes: 0 };
+    version.configCount++;
+    version.upvotes += config.upvotes;
+    version.downvotes += config.downvotes;
+    versions.set(config.gamehubVersion, version);
+  }
+
+  return {
+    configCount: configs.length,
+    compatLayer: usage('compatLayer'),
+    dxvkVersion: usage('dxvkVersion'),
+    box64Version: topValue(
+      withDetails
+        .filter((config) => /^box64/i.test(config.details!.cpuTranslator))
+        .map((config) => ({ value: config.details!.cpuTranslator, weight: 1 }))
+    ),
+    medianResolution: medianResolution(withDetails.map((config) => config.details!.gameResolution)),
+    recommendedSettings,
+    // Newest GameHub version first
+    gamehubVersions: Array.from(versions.values()).sort((a, b) =>
+      b.version.localeCompare(a.version, undefined, { numeric: true })
+    ),
+  };
+}
+
+/**
+ * Gets the compatibility summary of a game
+ * Hidden configs and legacy configs replaced by a newer version are left out
+ *
+ * @param gameId - Game ID
+ * @param hardware - Only summarize configs tested on matching hardware
+ * @returns The summary
+ */
+export async function getGameCompatibilitySummary(
+  gameId: string,
+  hardware: HardwareFilter = {}
+): Promise<GameCompatibilitySummary> {
+  try {
+    const configs = await prisma.config.findMany({
+      where: {
+        gameId,
+        isHidden: false,
+        isLegacy: false,
+        ...hardwareWhere(hardware),
+      },
+      select: {
+        gamehubVersion: true,
+        upvotes: true,
+        downvotes: true,
+        details: {
+          select: Object.fromEntries(SUMMARY_SETTINGS.map(({ field }) => [field, true])) as Record<SummarySettingField, true>,
+        },
+      },
+    });
+
+    return summarizeConfigs(configs);
+  } catch (error) {
+    console.error('Error summarizing game configs:', error);
+    throw error;
+  }
+}
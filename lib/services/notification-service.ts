@@ -0,0 +1,290 @@
+/**
+ * Notification Service
+ * Creates in-app notifications for activity on a user's configs and comments
+ *
+ * The notify* functions are called after the triggering action has succeeded and never throw:
+ * a failed notification is logged instead of failing the comment, vote or revert.
+ */
+
+import { prisma } from '../prisma';
+import { NotificationType, Prisma } from '@prisma/client';
+import { parseMentions } from '../mentions';
+import { type CursorField, decodeCursor, cursorOrderBy, cursorWhere, toCursorPage } from '../pagination';
+
+/**
+ * A notification to create
+ */
+export interface NotificationInput {
+  type: NotificationType;
+  userId: string;
+  actorId: string | null;
+  configId?: string | null;
+  commentId?: string | null;
+}
+
+/**
+ * Relations returned with every notification
+ */
+export const notificationInclude = {
+  actor: {
+    select: {
+      id: true,
+      username: true,
+      image: true,
+    },
+  },
+  config: {
+    select: {
+      id: true,
+      game: {
+        select: {
+          name: true,
+        },
+      },
+    },
+  },
+  comment: {
+    select: {
+      id: true,
+      content: true,
+      configId: true,
+      isDeleted: true,
+    },
+  },
+} satisfies Prisma.NotificationInclude;
+
+// Newest first, `id` breaks ties between notifications created at the same time
+const NOTIFICATION_SORT_FIELDS: CursorField[] = [
+  { field: 'createdAt', direction: 'desc', type: 'date' },
+  { field: 'id', direction: 'desc' },
+];
+
+/**
+ * Stores notifications, skipping ones addressed to the user who caused them
+ * Each user gets at most one notification per call, the first input wins
+ *
+ * @param inputs - Notifications to create, in priority order
+ * @returns Number of notifications created
+ */
+export async function createNotifications(inputs: NotificationInput[]): Promise<number> {
+  const seen = new Set<string>();
+  const data = inputs.filter((input) => {
+    if (input.userId === input.actorId || seen.has(input.userId)) return false;
+    seen.add(input.userId);
+    return true;
+  });
+
+  if (data.length === 0) return 0;
+
+  const result = await prisma.notification.createMany({ data });
+  return result.count;
+}
+
+/**
+ * Notifies the config author, the parent comment author and mentioned users about a new comment
+ * A user involved in several ways only gets the most specific notification: reply, then mention, then comment
+ *
+ * @param comment - The created comment
+ */
+export async function notifyCommentCreated(comment: {
+  id: string;
+  content: string;
+  userId: string;
+  configId: string;
+  parentId: string | null;
+}): Promise<void> {
+  try {
+    const [config, parent] = await Promise.all([
+      prisma.config.findUnique({
+        where: { id: comment.configId },
+        select: { userId: true },
+      }),
+      comment.parentId
+        ? prisma.comment.findUnique({
+            where: { id: comment.parentId },
+            select: { userId: true, isDeleted: true },
+          })
+        : null,
+    ]);
+
+    const usernames = parseMentions(comment.content);
+    const mentioned = usernames.length > 0
+      ? await prisma.user.findMany({
+          where: { username: { in: usernames } },
+          select: { id: true },
+        })
+      : [];
+
+    const base = { actorId: comment.userId, configId: comment.configId, commentId: comment.id };
+    const inputs: NotificationInput[] = [];
+
+    if (parent && !parent.isDeleted) {
+      inputs.push({ ...base, type: NotificationType.REPLY, userId: parent.userId });
+    }
+    for (const user of mentioned) {
+      inputs.push({ ...base, type: NotificationType.MENTION, userId: user.id });
+    }
+    if (config) {
+      inputs.push({ ...base, type: NotificationType.COMMENT, userId: config.userId });
+    }
+
+    await createNotifications(inputs);
+  } catch (error) {
+    console.error('Error creating comment notifications:', error);
+  }
+}
+
+/**
+ * Notifies the author of a config or comment about a new upvote
+ * Repeat votes from the same user only notify once while the earlier notification is unread
+ *
+ * @param target - The upvoted config or comment
+ * @param voterId - User who voted
+ */
+export async function notifyUpvote(
+  target: { configId: string } | { commentId: string },
+  voterId: string
+): Promise<void> {
+  try {
+    let input: NotificationInput | null = null;
+
+    if ('configId' in target) {
+      const config = await prisma.config.findUnique({
+        where: { id: target.configId },
+        select: { userId: true },
+      });
+      if (config) {
+        input = { type: NotificationType.CONFIG_VOTE, userId: config.userId, actorId: voterId, configId: target.configId };
+      }
+    } else {
+      const comment = await prisma.comment.findUnique({
+        where: { id: target.commentId },
+        select: { userId: true, configId: true },
+      });
+      if (comment) {
+        input = {
+          type: NotificationType.COMMENT_VOTE,
+          userId: comment.userId,
+          actorId: voterId,
+          configId: comment.configId,
+          commentId: target.commentId,
+        };
+      }
+    }
+
+    if (!input) return;
+
+    const existing = await prisma.notification.findFirst({
+      where: { type: input.type, userId: input.userId, actorId: voterId, readAt: null, ...target },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      await createNotifications([input]);
+    }
+  } catch (error) {
+    console.error('Error creating vote notification:', error);
+  }
+}
+
+/**
+ * Notifies a config's author that someone else reverted it to an earlier version
+ *
+ * @param configId - The reverted config
+ * @param actorId - User who reverted it
+ */
+export async function notifyConfigReverted(configId: string, actorId: string): Promise<void> {
+  try {
+    const config = await prisma.config.findUnique({
+      where: { id: configId },
+      select: { userId: true },
+    });
+
+    if (!config) return;
+
+    await createNotifications([{
+      type: NotificationType.REVERT,
+      userId: config.userId,
+      actorId,
+      configId,
+    }]);
+  } catch (error) {
+    console.error('Error creating revert notification:', error);
+  }
+}
+
+/**
+ * Gets a page of a user's notifications, newest first
+ *
+ * @param userId - Recipient ID
+ * @param limit - Page size
+ * @param cursor - Cursor from the previous page, empty for the first page
+ * @param unreadOnly - Only return unread notifications
+ * @returns Notifications with cursor page info and the user's unread count
+ */
+export async function getNotifications(userId: string, limit = 20, cursor?: string, unreadOnly = false) {
+  try {
+    const where: Prisma.NotificationWhereInput = unreadOnly ? { userId, readAt: null } : { userId };
+    const cursorValues = cursor ? decodeCursor(cursor, 'newest', NOTIFICATION_SORT_FIELDS) : null;
+
+    const [rows, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where: cursorValues
+          ? { AND: [where, cursorWhere(NOTIFICATION_SORT_FIELDS, cursorValues) as Prisma.NotificationWhereInput] }
+          : where,
+        include: notificationInclude,
+        orderBy: cursorOrderBy(NOTIFICATION_SORT_FIELDS) as Prisma.NotificationOrderByWithRelationInput[],
+        take: limit + 1,
+      }),
+      getUnreadNotificationCount(userId),
+    ]);
+
+    const { items, pageInfo } = toCursorPage(rows, limit, 'newest', NOTIFICATION_SORT_FIELDS);
+
+    return { notifications: items, pageInfo, unreadCount };
+  } catch (error) {
+    console.error('Error getting notifications:', error);
+    throw error;
+  }
+}
+
+/**
+ * Counts a user's unread notifications
+ *
+ * @param userId - Recipient ID
+ */
+export async function getUnreadNotificationCount(userId: string): Promise<number> {
+  try {
+    return await prisma.notification.count({
+      where: { userId, readAt: null },
+    });
+  } catch (error) {
+    console.error('Error counting unread notifications:', error);
+    throw error;
+  }
+}
+
+/**
+ * Marks a user's notifications as read
+ *
+ * @param userId - Recipient ID
+ * @param ids - Notifications to mark, or 'all' for every unread notification
+ * @returns Number of notifications updated
+ */
+export async function markNotificationsRead(userId: string, ids: string[] | 'all'): Promise<number> {
+  try {
+    const result = await prisma.notification.updateMany({
+      where: {
+        userId,
+        readAt: null,
+        ...(ids === 'all' ? {} : { id: { in: ids } }),
+      },
+      data: { readAt: new Date() },
+    });
+
+    return result.count;
+  } catch (error) {
+    console.error('Error marking notifications as read:', error);
+    throw error;
+  }
+}
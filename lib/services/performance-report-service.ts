@@ -0,0 +1,281 @@
+/**
+ * Performance Report Service
+ * Handles the FPS and playability results users log against a config version
+ */
+
+import { prisma } from '../prisma';
+import { Playability, Prisma } from '@prisma/client';
+import { type PerformanceReportInput } from '@/lib/validations/config';
+
+/**
+ * Reports and FPS for one config version
+ */
+export interface PerformanceVersionSummary {
+  versionNumber: number;
+  reportCount: number;
+  medianAvgFps: number | null;
+  topPlayability: Playability | null;
+}
+
+export interface PerformanceSummary {
+  reportCount: number;
+  medianAvgFps: number | null;
+  medianOnePercentLowFps: number | null;
+  topPlayability: Playability | null;
+  playability: Record<Playability, number>;
+  versions: PerformanceVersionSummary[];
+}
+
+interface SummaryReport {
+  versionNumber: number;
+  playability: Playability;
+  avgFps: number;
+  onePercentLowFps: number | null;
+}
+
+export const performanceReportInclude = {
+  user: {
+    select: {
+      id: true,
+      name: true,
+      image: true,
+      username: true,
+    },
+  },
+} satisfies Prisma.PerformanceReportInclude;
+
+export type PerformanceReportWithUser = Prisma.PerformanceReportGetPayload<{ include: typeof performanceReportInclude }>;
+
+/**
+ * Median of a list of numbers, the mean of the two middle values for an even count
+ */
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+}
+
+/**
+ * Counts reports per playability rating
+ *
+ * @returns The counts and the most reported rating, ties going to the better rating
+ */
+function countPlayability(reports: SummaryReport[]) {
+  const counts = Object.fromEntries(
+    Object.values(Playability).map((rating) => [rating, 0])
+  ) as Record<Playability, number>;
+  for (const report of reports) {
+    counts[report.playability]++;
+  }
+
+  let top: Playability | null = null;
+  for (const rating of Object.values(Playability)) {
+    if (counts[rating] > 0 && (top === null || counts[rating] > counts[top])) {
+      top = rating;
+    }
+  }
+  return { counts, top };
+}
+
+/**
+ * Aggregates performance reports into a summary
+ *
+ * @param reports - The config's reports
+ * @returns The summary, versions newest first
+ */
+export function summarizePerformanceReports(reports: SummaryReport[]): PerformanceSummary {
+  const { counts, top } = countPlayability(reports);
+
+  const byVersion = new Map<number, SummaryReport[]>();
+  for (const report of reports) {
+    byVersion.set(report.versionNumber, [...(byVersion.get(report.versionNumber) ?? []), report]);
+  }
+
+  const versions = Array.from(byVersion.entries())
+    .map(([versionNumber, versionReports]) => ({
+      versionNumber,
+      reportCount: versionReports.length,
+      medianAvgFps: median(versionReports.map((report) => report.avgFps)),
+      topPlayability: countPlayability(versionReports).top,
+    }))
+    .sort((a, b) => b.versionNumber - a.versionNumber);
+
+  return {
+    reportCount: reports.length,
+    medianAvgFps: median(reports.map((report) => report.avgFps)),
+    medianOnePercentLowFps: median(
+      reports
+        .map((report) => report.onePercentLowFps)
+        .filter((fps): fps is number => fps !== null)
+    ),
+    topPlayability: top,
+    playability: counts,
+    versions,
+  };
+}
+
+/**
+ * Saves a user's performance report for a config version
+ * A user has one report per config version, reporting again replaces it
+ *
+ * @param configId - Config ID
+ * @param userId - Reporting user's ID
+ * @param input - Validated report, without a version number the config's current version is used
+ * @returns The saved report with its user
+ */
+export async function savePerformanceReport(
+  configId: string,
+  userId: string,
+  input: PerformanceReportInput
+) {
+  try {
+    const config = await prisma.config.findUnique({
+      where: { id: configId },
+      select: {
+        isHidden: true,
+        versions: {
+          select: { versionNumber: true },
+          orderBy: { versionNumber: 'desc' },
+        },
+      },
+    });
+
+    if (!config || config.isHidden) {
+      throw new Error('Configuration not found');
+    }
+
+    const versionNumber = input.versionNumber ?? config.versions[0]?.versionNumber ?? 1;
+    if (
+      input.versionNumber !== undefined &&
+      !config.versions.some((version) => version.versionNumber === versionNumber)
+    ) {
+      throw new Error('Version not found');
+    }
+
+    const data = {
+      playability: input.playability,
+      avgFps: input.avgFps,
+      onePercentLowFps: input.onePercentLowFps ?? null,
+      resolution: input.resolution.replace(/\s+/g, '').toLowerCase(),
+      notes: input.notes,
+      deviceModel: input.deviceModel ?? null,
+      soc: input.soc ?? null,
+      gpuFamily: input.gpuFamily ?? null,
+      ramGb: input.ramGb ?? null,
+      androidVersion: input.androidVersion ?? null,
+    };
+
+    return await prisma.performanceReport.upsert({
+      where: {
+        configId_userId_versionNumber: { configId, userId, versionNumber },
+      },
+      create: { configId, userId, versionNumber, ...data },
+      update: data,
+      include: performanceReportInclude,
+    });
+  } catch (error) {
+    console.error('Error saving performance report:', error);
+    throw error;
+  }
+}
+
+/**
+ * Gets a page of a config's performance reports, newest first
+ *
+ * @param configId - Config ID
+ * @param page - Page number
+ * @param limit - Reports per page
+ * @returns The reports and pagination info
+ */
+export async function getPerformanceReports(configId: string, page = 1, limit = 10) {
+  try {
+    const [items, total] = await Promise.all([
+      prisma.performanceReport.findMany({
+        where: { configId },
+        include: performanceReportInclude,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.performanceReport.count({ where: { configId } }),
+    ]);
+
+    return {
+      items,
+      pagination: {
+        total,
+        pages: Math.ceil(total / limit),
+        page,
+        limit,
+      },
+    };
+  } catch (error) {
+    console.error('Error fetching performance reports:', error);
+    throw error;
+  }
+}
+
+/**
+ * Gets the performance summary of a config
+ *
+ * @param configId - Config ID
+ * @returns The summary
+ */
+export async function getPerformanceSummary(configId: string): Promise<PerformanceSummary> {
+  try {
+    const reports = await prisma.performanceReport.findMany({
+      where: { configId },
+      select: {
+        versionNumber: true,
+        playability: true,
+        avgFps: true,
+        onePercentLowFps: true,
+      },
+    });
+
+    return summarizePerformanceReports(reports);
+  } catch (error) {
+    console.error('Error summarizing performance reports:', error);
+    throw error;
+  }
+}
+
+/**
+ * Deletes a performance report
+ *
+ * @param configId - Config ID the report belongs to
+ * @param reportId - Report ID
+ * @param userId - ID of the user deleting the report
+ * @param canModerate - Whether the user may delete other users' reports
+ */
+export async function deletePerformanceReport(
+  configId: string,
+  reportId: string,
+  userId: string,
+  canModerate = false
+) {
+  try {
+    const report = await prisma.performanceReport.findUnique({
+      where: { id: reportId },
+      select: { configId: true, userId: true },
+    });
+
+    if (!report || report.configId !== configId) {
+      throw new Error('Performance report not found');
+    }
+
+    if (report.userId !== userId && !canModerate) {
+      throw new Error('Unauthorized');
+    }
+
+    await prisma.performanceReport.delete({
+      where: { id: reportId },
+    });
+  } catch (error) {
+    console.error('Error deleting performance report:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Report Service
+ * Handles database operations for content reports and the moderation queue
+ */
+
+import { prisma } from '../prisma';
+import { Prisma, ReportStatus } from '@prisma/client';
+
+/**
+ * Target of a report - exactly one of a config or a comment
+ */
+export type ReportTarget = { configId: string } | { commentId: string };
+
+/**
+ * Creates a new report against a config or comment
+ * A user can only have one open report per target
+ *
+ * @param reporterId - ID of the user filing the report
+ * @param target - The config or comment being reported
+ * @param reason - Reason given by the reporter
+ * @returns The created report
+ */
+export async function createReport(reporterId: string, target: ReportTarget, reason: string) {
+  try {
+    // Check if the reporter already has an open report for this target
+    const existingReport = await prisma.report.findFirst({
+      where: {
+        reporterId,
+        status: ReportStatus.OPEN,
+        ...target
+      }
+    });
+
+    if (existingReport) {
+      throw new Error('You have already reported this content');
+    }
+
+    const report = await prisma.report.create({
+      data: {
+        reporterId,
+        reason,
+        ...target
+      }
+    });
+
+    return report;
+  } catch (error) {
+    console.error('Error creating report:', error);
+    throw error;
+  }
+}
+
+/**
+ * Gets reports for the moderation queue
+ *
+ * @param status - Optional status to filter by
+ * @param page - Page number (default: 1)
+ * @param limit - Number of reports per page (default: 20)
+ * @returns Paginated list of reports with their targets
+ */
+export async function getReports(status?: ReportStatus, page = 1, limit = 20) {
+  try {
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.ReportWhereInput = status ? { status } : {};
+
+    const [reports, total] = await Promise.all([
+      prisma.report.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+        include: {
+          reporter: {
+            select: {
+              id: true,
+              username: true
+            }
+          },
+          config: {
+            select: {
+              id: true,
+              isHidden: true,
+              game: {
+                select: {
+                  name: true
+                }
+              },
+              createdBy: {
+                select: {
+                  id: true,
+                  username: true
+                }
+              }
+            }
+          },
+          comment: {
+            select: {
+              id: true,
+              content: true,
+              configId: true,
+              user: {
+                select: {
+                  id: true,
+                  username: true
+                }
+              }
+            }
+          }
+        }
+      }),
+      prisma.report.count({ where })
+    ]);
+
+    return {
+      reports,
+      pagination: {
+        total,
+        page,
+        limit,
+        pages: Math.ceil(total / limit)
+      }
+    };
+  } catch (error) {
+    console.error('Error fetching reports:', error);
+    throw error;
+  }
+}
+
+/**
+ * Moves an open report to REVIEWED or DISMISSED
+ *
+ * @param reportId - ID of the report
+ * @param status - The new status
+ * @returns The updated report
+ */
+export async function updateReportStatus(reportId: string, status: ReportStatus) {
+  try {
+    const report = await prisma.report.findUnique({
+      where: { id: reportId }
+    });
+
+    if (!report) {
+      throw new Error('Report not found');
+    }
+
+    if (report.status !== ReportStatus.OPEN) {
+      throw new Error('Report has already been processed');
+    }
+
+    const updatedReport = await prisma.report.update({
+      where: { id: reportId },
+      data: { status, resolvedAt: new Date() }
+    });
+
+    return updatedReport;
+  } catch (error) {
+    console.error('Error updating report status:', error);
+    throw error;
+  }
+}
@@ -1,10 +1,12 @@
 /**
  * Steam API utility for fetching game information
- * Uses steamgrab library to fetch game details by Steam App ID
+ * Uses steamgrab library to fetch game details by Steam App ID,
+ * and the Steam store API for richer metadata
+ * Lookups go through lib/game-metadata.ts, which adds caching and retries
  */
 
 import { Steam } from 'steamgrab';
-import { prisma } from './prisma';
+import { GraphicsApi } from '@prisma/client';
 
 export interface SteamGameInfo {
   steamId: string;
@@ -13,53 +15,195 @@ export interface SteamGameInfo {
 }
 
 /**
- * Fetches game information from Steam API or database
- * First checks if game exists in database, if not fetches from Steam
- * 
+ * How long a single Steam request may take before it counts as failed
+ */
+export const STEAM_REQUEST_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Rejects when a promise does not settle in time
+ * steamgrab has no timeout of its own
+ */
+function withTimeout<T>(promise: Promise<T>, ms: number, label: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${label} timed out after ${ms}ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Fetches a game's name and header image from Steam
+ *
  * @param steamId - The Steam App ID
- * @returns Game information or null if not found
+ * @returns Game information, or null if Steam has no such app
+ * @throws Error when Steam cannot be reached
  */
-export async function getGameInfo(steamId: string): Promise<SteamGameInfo | null> {
+export async function fetchSteamGameInfo(steamId: string): Promise<SteamGameInfo | null> {
+  let game: Awaited<ReturnType<typeof Steam.getGameInfoById>>;
   try {
-    // Check if game exists in database first
-    const existingGame = await prisma.game.findUnique({
-      where: { steamId },
-      select: { 
-        steamId: true,
-        name: true,
-        imageUrl: true
-      }
-    });
-
-    // If game exists in database, return it
-    if (existingGame) {
-      return {
-        steamId: existingGame.steamId,
-        name: existingGame.name,
-        imageUrl: existingGame.imageUrl
-      };
-    }
-
-    // If not in database, fetch from Steam API
-    const game = await Steam.getGameInfoById(Number(steamId));
-    
-    if (!game) {
-      console.error(`No game found with Steam App ID: ${steamId}`);
+    game = await withTimeout(Steam.getGameInfoById(Number(steamId)), STEAM_REQUEST_TIMEOUT_MS, 'Steam lookup');
+  } catch (error) {
+    // steamgrab throws for unknown apps and outages alike, the store API tells them apart
+    if (error instanceof Steam.SteamScraperError && (await fetchSteamAppDetails(steamId, 'english')) === null) {
       return null;
     }
+    throw error;
+  }
 
-    // Return the game information
-    return {
-      steamId,
-      name: game.title,
-      imageUrl: game.image
-    };
-  } catch (error) {
-    if (error instanceof Steam.SteamScraperError) {
-      console.error('Steam API error:', error.message);
-    } else {
-      console.error('Error fetching game info:', error);
-    }
+  if (!game) {
     return null;
   }
+
+  return {
+    steamId,
+    name: game.title,
+    imageUrl: game.image
+  };
+}
+
+/**
+ * Store metadata of a Steam game, in the shape stored on Game
+ */
+export interface SteamGameMetadata {
+  developers: string[];
+  releaseDate: Date | null;
+  genres: string[];
+  graphicsApis: GraphicsApi[];
+  antiCheat: string[];
+  alternateNames: string[];
+}
+
+/**
+ * Store languages whose localized titles are kept as alternate names
+ */
+const STEAM_NAME_LANGUAGES = ['schinese', 'tchinese', 'japanese', 'koreana', 'russian'];
+
+/**
+ * Anti-cheat systems detected in store page text, and the patterns that identify them
+ */
+const ANTI_CHEAT_PATTERNS: { name: string; pattern: RegExp }[] = [
+  { name: 'Easy Anti-Cheat', pattern: /easy\s*anti-?cheat/i },
+  { name: 'BattlEye', pattern: /battl?eye/i },
+  { name: 'Riot Vanguard', pattern: /riot\s+vanguard/i },
+  { name: 'nProtect GameGuard', pattern: /game\s*guard/i },
+  { name: 'XIGNCODE3', pattern: /xigncode/i },
+  { name: 'PunkBuster', pattern: /punkbuster/i },
+  { name: 'Denuvo Anti-Cheat', pattern: /denuvo\s+anti-?cheat/i },
+  { name: 'Ricochet', pattern: /ricochet\s+anti-?cheat/i },
+  { name: 'Valve Anti-Cheat', pattern: /valve\s+anti-?cheat/i },
+];
+
+interface SteamAppDetails {
+  name: string;
+  developers?: string[];
+  genres?: { id: string; description: string }[];
+  categories?: { id: number; description: string }[];
+  release_date?: { coming_soon: boolean; date: string };
+  pc_requirements?: { minimum?: string; recommended?: string } | [];
+  legal_notice?: string;
+  detailed_description?: string;
+}
+
+/**
+ * Fetches a game's details from the Steam store API
+ *
+ * @param steamId - The Steam App ID
+ * @param language - Store language for localized fields
+ * @returns The app details, or null if Steam has no store page for the app
+ */
+async function fetchSteamAppDetails(steamId: string, language: string): Promise<SteamAppDetails | null> {
+  const response = await fetch(
+    `https://store.steampowered.com/api/appdetails?appids=${encodeURIComponent(steamId)}&l=${language}`,
+    { cache: 'no-store', signal: AbortSignal.timeout(STEAM_REQUEST_TIMEOUT_MS) }
+  );
+  if (!response.ok) {
+    throw new Error(`Steam store API returned status ${response.status} for app ${steamId}`);
+  }
+
+  const body = await response.json();
+  const entry = body?.[steamId];
+  return entry?.success ? entry.data : null;
+}
+
+/**
+ * Strips HTML tags so requirement and description text can be searched
+ */
+function stripHtml(html: string | undefined): string {
+  return (html || '').replace(/<[^>]*>/g, ' ').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ');
+}
+
+/**
+ * Graphics APIs named in the system requirements
+ * Steam lists DirectX as e.g. "DirectX: Version 11", Vulkan and OpenGL only appear in the graphics line
+ *
+ * @param requirements - Plain text of the minimum and recommended requirements
+ * @returns APIs in enum order
+ */
+export function parseGraphicsApis(requirements: string): GraphicsApi[] {
+  const apis = new Set<GraphicsApi>();
+
+  for (const match of Array.from(requirements.matchAll(/(?:DirectX|DX)\s*:?\s*(?:Version\s*)?(\d{1,2})/gi))) {
+    const api = `DIRECTX_${Number(match[1])}`;
+    if (api in GraphicsApi) apis.add(api as GraphicsApi);
+  }
+  if (/vulkan/i.test(requirements)) apis.add(GraphicsApi.VULKAN);
+  if (/opengl/i.test(requirements)) apis.add(GraphicsApi.OPENGL);
+
+  return Object.values(GraphicsApi).filter((api) => apis.has(api));
+}
+
+/**
+ * Parses Steam's display release date, e.g. "12 Mar, 2020" or "Mar 12, 2020"
+ *
+ * @returns The date at midnight UTC, or null for unreleased games and vague dates like "Q3 2025"
+ */
+function parseReleaseDate(releaseDate: SteamAppDetails['release_date']): Date | null {
+  if (!releaseDate || releaseDate.coming_soon) return null;
+
+  const parsed = new Date(releaseDate.date);
+  if (Number.isNaN(parsed.getTime())) return null;
+  return new Date(Date.UTC(parsed.getFullYear(), parsed.getMonth(), parsed.getDate()));
+}
+
+/**
+ * Fetches developer, release date, genres, graphics APIs, anti-cheat and
+ * localized names of a game from the Steam store
+ *
+ * @param steamId - The Steam App ID
+ * @returns The metadata, or null if Steam has no store page for the app
+ * @throws Error when the Steam store API cannot be reached
+ */
+export async function getSteamGameMetadata(steamId: string): Promise<SteamGameMetadata | null> {
+  const details = await fetchSteamAppDetails(steamId, 'english');
+  if (!details) return null;
+
+  const requirements = Array.isArray(details.pc_requirements)
+    ? ''
+    : stripHtml(`${details.pc_requirements?.minimum} ${details.pc_requirements?.recommended}`);
+  const storeText = [
+    requirements,
+    stripHtml(details.legal_notice),
+    stripHtml(details.detailed_description),
+    ...(details.categories || []).map((category) => category.description),
+  ].join(' ');
+
+  // Localized titles are best-effort, a failed language only loses that name
+  const localized = await Promise.all(
+    STEAM_NAME_LANGUAGES.map((language) =>
+      fetchSteamAppDetails(steamId, language).then((data) => data?.name ?? null, () => null)
+    )
+  );
+  const plainName = details.name.replace(/[™®©]/g, '').trim();
+  const alternateNames = Array.from(
+    new Set([plainName, ...localized].filter((name): name is string => Boolean(name?.trim())))
+  ).filter((name) => name !== details.name);
+
+  return {
+    developers: details.developers || [],
+    releaseDate: parseReleaseDate(details.release_date),
+    genres: (details.genres || []).map((genre) => genre.description),
+    graphicsApis: parseGraphicsApis(requirements),
+    antiCheat: ANTI_CHEAT_PATTERNS.filter(({ pattern }) => pattern.test(storeText)).map(({ name }) => name),
+    alternateNames,
+  };
 }
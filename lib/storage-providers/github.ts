@@ -0,0 +1,121 @@
+/**
+ * GitHub storage provider
+ * Commits files into a repository and serves them from raw.githubusercontent.com
+ */
+
+import { Octokit } from '@octokit/rest';
+import type { StorageProvider } from '../storage';
+
+/**
+ * Stores files in the repository set by GITHUB_REPO, on GITHUB_BRANCH (default: main)
+ */
+export class GitHubStorageProvider implements StorageProvider {
+  name = 'github';
+  private octokit: Octokit;
+  private owner: string;
+  private repo: string;
+  private branch: string;
+
+  constructor() {
+    const repoUrl = process.env.GITHUB_REPO;
+    if (!repoUrl) throw new Error('Missing GITHUB_REPO in environment.');
+
+    const [, owner, repo] = new URL(repoUrl).pathname.split('/');
+    if (!owner || !repo) throw new Error(`GITHUB_REPO must look like https://github.com/<owner>/<repo>, got ${repoUrl}`);
+
+    this.owner = owner;
+    this.repo = repo.replace(/\.git$/, '');
+    this.branch = process.env.GITHUB_BRANCH || 'main';
+    this.octokit = new Octokit({
+      auth: process.env.GITHUB_TOKEN,
+    });
+  }
+
+  /**
+   * SHA of the file under a key, needed to replace or delete it
+   *
+   * @returns The blob SHA, or null if the file does not exist
+   */
+  private async getSha(key: string): Promise<string | null> {
+    try {
+      const { data } = await this.octokit.repos.getContent({
+        owner: this.owner,
+        repo: this.repo,
+        path: key,
+        ref: this.branch,
+      });
+      return 'sha' in data ? data.sha : null;
+    } catch (error: any) {
+      if (error.status === 404) return null;
+      throw error;
+    }
+  }
+
+  async put(key: string, data: Buffer): Promise<string> {
+    const upload = async () => {
+      const sha = await this.getSha(key);
+      await this.octokit.repos.createOrUpdateFileContents({
+        owner: this.owner,
+        repo: this.repo,
+        branch: this.branch,
+        path: key,
+        message: `Upload ${key}`,
+        content: data.toString('base64'),
+        ...(sha ? { sha } : {}),
+      });
+    };
+
+    try {
+      await upload();
+    } catch (error: any) {
+      // 409 means another process changed the file in between, retry once with the new SHA
+      if (error.status !== 409) throw error;
+      console.log(`Conflict while uploading ${key} to GitHub, retrying`);
+      await upload();
+    }
+
+    return this.getUrl(key);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.getSha(key)) !== null;
+  }
+
+  async delete(key: string): Promise<void> {
+    const sha = await this.getSha(key);
+    if (!sha) return;
+
+    await this.octokit.repos.deleteFile({
+      owner: this.owner,
+      repo: this.repo,
+      branch: this.branch,
+      path: key,
+      message: `Delete ${key}`,
+      sha,
+    });
+  }
+
+  async list(directory: string): Promise<string[]> {
+    try {
+      const { data } = await this.octokit.repos.getContent({
+        owner: this.owner,
+        repo: this.repo,
+        path: directory,
+        ref: this.branch,
+      });
+      return Array.isArray(data) ? data.filter((entry) => entry.type === 'file').map((entry) => entry.path) : [];
+    } catch (error: any) {
+      if (error.status === 404) return [];
+      throw error;
+    }
+  }
+
+  getUrl(key: string): string {
+    return `https://raw.githubusercontent.com/${this.owner}/${this.repo}/${this.branch}/${key}`;
+  }
+
+  keyFromUrl(url: string): string | null {
+    const prefix = `https://raw.githubusercontent.com/${this.owner}/${this.repo}/${this.branch}/`;
+    return url.startsWith(prefix) ? url.slice(prefix.length) : null;
+  }
+}
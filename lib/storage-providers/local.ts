@@ -0,0 +1,97 @@
+/**
+ * Local filesystem storage provider
+ * Files are written under STORAGE_LOCAL_DIR and served by /api/storage/[...key]
+ */
+
+import { mkdir, readdir, readFile, rm, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import type { StorageProvider } from '../storage';
+
+/**
+ * Path prefix of the API route that serves local files
+ */
+export const LOCAL_STORAGE_URL_PREFIX = '/api/storage/';
+
+/**
+ * Checks that a key is a relative path without empty, "." or ".." segments
+ *
+ * @param key - File key
+ * @returns Whether the key is safe to use as a path
+ */
+function isValidStorageKey(key: string): boolean {
+  return key.length > 0 && key.split('/').every((segment) => segment !== '' && segment !== '.' && segment !== '..' && !segment.includes('\\'));
+}
+
+/**
+ * Stores files on the server's disk, for development, CI and single-server setups
+ */
+export class LocalStorageProvider implements StorageProvider {
+  name = 'local';
+  private root: string;
+
+  constructor() {
+    this.root = path.resolve(process.env.STORAGE_LOCAL_DIR || '.storage');
+  }
+
+  /**
+   * Absolute path of a key, refusing keys that would escape the storage directory
+   */
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!isValidStorageKey(key) || !filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer): Promise<string> {
+    const filePath = this.resolve(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, data);
+    return this.getUrl(key);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      return (await stat(this.resolve(key))).isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolve(key), { force: true });
+  }
+
+  async list(directory: string): Promise<string[]> {
+    try {
+      const entries = await readdir(this.resolve(directory), { withFileTypes: true });
+      return entries.filter((entry) => entry.isFile()).map((entry) => `${directory}/${entry.name}`);
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Reads a stored file
+   *
+   * @param key - File key
+   * @returns The file contents, or null if missing or the key is invalid
+   */
+  async read(key: string): Promise<Buffer | null> {
+    try {
+      return await readFile(this.resolve(key));
+    } catch {
+      return null;
+    }
+  }
+
+  getUrl(key: string): string {
+    return `${LOCAL_STORAGE_URL_PREFIX}${key.split('/').map(encodeURIComponent).join('/')}`;
+  }
+
+  keyFromUrl(url: string): string | null {
+    if (!url.startsWith(LOCAL_STORAGE_URL_PREFIX)) return null;
+    return url.slice(LOCAL_STORAGE_URL_PREFIX.length).split('/').map(decodeURIComponent).join('/');
+  }
+}
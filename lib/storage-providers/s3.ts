@@ -0,0 +1,185 @@
+/**
+ * S3-compatible storage provider
+ * Talks to the S3 REST API directly with Signature Version 4, so it also works
+ * with R2, MinIO, Backblaze B2 and other S3-compatible services
+ */
+
+import { createHash, createHmac } from 'crypto';
+import type { StorageProvider } from '../storage';
+
+/**
+ * URI-encodes a value the way Signature Version 4 expects
+ */
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * Encodes a key for the request path, keeping the slashes between segments
+ */
+function encodeKey(key: string): string {
+  return key.split('/').map(encodeRfc3986).join('/');
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&apos;': "'",
+};
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+/**
+ * Stores files in S3_BUCKET, configured by S3_REGION, S3_ENDPOINT, S3_ACCESS_KEY_ID,
+ * S3_SECRET_ACCESS_KEY and S3_PUBLIC_URL
+ * Objects must be publicly readable through S3_PUBLIC_URL (or the bucket URL when unset)
+ */
+export class S3StorageProvider implements StorageProvider {
+  name = 's3';
+  private bucketUrl: URL;
+  private publicUrl: string;
+  private region: string;
+  private accessKeyId: string;
+  private secretAccessKey: string;
+
+  constructor() {
+    const bucket = process.env.S3_BUCKET;
+    const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+    const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+    if (!bucket) throw new Error('Missing S3_BUCKET in environment.');
+    if (!accessKeyId || !secretAccessKey) {
+      throw new Error('Missing S3_ACCESS_KEY_ID or S3_SECRET_ACCESS_KEY in environment.');
+    }
+
+    this.region = process.env.S3_REGION || 'us-east-1';
+    this.accessKeyId = accessKeyId;
+    this.secretAccessKey = secretAccessKey;
+
+    // Custom endpoints use path-style URLs, AWS uses virtual-hosted-style
+    const endpoint = process.env.S3_ENDPOINT?.replace(/\/$/, '');
+    this.bucketUrl = new URL(
+      endpoint ? `${endpoint}/${bucket}/` : `https://${bucket}.s3.${this.region}.amazonaws.com/`
+    );
+    this.publicUrl = (process.env.S3_PUBLIC_URL || this.bucketUrl.toString()).replace(/\/$/, '');
+  }
+
+  /**
+   * Sends a signed request for an object
+   *
+   * @param method - HTTP method
+   * @param key - Object key, empty for bucket-level requests
+   * @param body - Request body for PUT
+   * @param headers - Extra headers, signed along with the required ones
+   * @param query - Query parameters
+   * @returns The response
+   */
+  private async request(
+    method: string,
+    key: string,
+    body?: Buffer,
+    headers: Record<string, string> = {},
+    query: Record<string, string> = {}
+  ): Promise<Response> {
+    const url = new URL(encodeKey(key), this.bucketUrl);
+    const canonicalQuery = Object.keys(query)
+      .sort()
+      .map((name) => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`)
+      .join('&');
+    url.search = canonicalQuery;
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const date = amzDate.slice(0, 8);
+    const payloadHash = sha256Hex(body ?? '');
+
+    const signedHeaders: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+      ...Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value])),
+    };
+    const headerNames = Object.keys(signedHeaders).sort();
+
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      canonicalQuery,
+      ...headerNames.map((name) => `${name}:${signedHeaders[name].trim()}`),
+      '',
+      headerNames.join(';'),
+      payloadHash,
+    ].join('\n');
+
+    const scope = `${date}/${this.region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+    const signingKey = ['s3', 'aws4_request'].reduce(
+      (key: Buffer, part) => hmac(key, part),
+      hmac(hmac(`AWS4${this.secretAccessKey}`, date), this.region)
+    );
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    const { host, ...requestHeaders } = signedHeaders;
+    return fetch(url, {
+      method,
+      body,
+      headers: {
+        ...requestHeaders,
+        authorization: `AWS4-HMAC-SHA256 Credential=${this.accessKeyId}/${scope}, SignedHeaders=${headerNames.join(';')}, Signature=${signature}`,
+      },
+      cache: 'no-store',
+    });
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<string> {
+    const response = await this.request('PUT', key, data, { 'content-type': contentType });
+    if (!response.ok) {
+      throw new Error(`S3 upload of ${key} failed with status ${response.status}: ${await response.text()}`);
+    }
+    return this.getUrl(key);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    const response = await this.request('HEAD', key);
+    if (response.status === 404) return false;
+    if (!response.ok) throw new Error(`S3 lookup of ${key} failed with status ${response.status}`);
+    return true;
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', key);
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`S3 delete of ${key} failed with status ${response.status}`);
+    }
+  }
+
+  async list(directory: string): Promise<string[]> {
+    const response = await this.request('GET', '', undefined, {}, {
+      'list-type': '2',
+      prefix: `${directory}/`,
+      delimiter: '/',
+    });
+    if (!response.ok) throw new Error(`S3 listing of ${directory} failed with status ${response.status}`);
+
+    // Directories hold few files here, so the first page of up to 1000 keys is enough
+    const xml = await response.text();
+    return Array.from(xml.matchAll(/<Key>([^<]+)<\/Key>/g), (match) =>
+      match[1].replace(/&amp;|&lt;|&gt;|&quot;|&apos;/g, (entity) => XML_ENTITIES[entity])
+    );
+  }
+
+  getUrl(key: string): string {
+    return `${this.publicUrl}/${encodeKey(key)}`;
+  }
+
+  keyFromUrl(url: string): string | null {
+    const prefix = `${this.publicUrl}/`;
+    if (!url.startsWith(prefix)) return null;
+    return url.slice(prefix.length).split('/').map(decodeURIComponent).join('/');
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * File storage
+ * Uploaded images go through a StorageProvider picked from the environment,
+ * so the app also runs without GitHub (local disk in development and CI, or S3-compatible storage)
+ */
+
+import { GitHubStorageProvider } from './storage-providers/github';
+import { LocalStorageProvider } from './storage-providers/local';
+import { S3StorageProvider } from './storage-providers/s3';
+
+/**
+ * Stores files under slash-separated keys such as "images/1259970.jpg"
+ */
+export interface StorageProvider {
+  /** Provider name, used in logs */
+  name: string;
+  /**
+   * Stores a file, replacing any existing file with the same key
+   * Files are served as immutable, so changed content must go under a new key
+   * @returns Public URL of the stored file
+   */
+  put(key: string, data: Buffer, contentType: string): Promise<string>;
+  /** Whether a file exists under the key */
+  exists(key: string): Promise<boolean>;
+  /** Deletes a file, missing files are ignored */
+  delete(key: string): Promise<void>;
+  /** Keys of the files directly inside a directory such as "profiles/<userId>" */
+  list(directory: string): Promise<string[]>;
+  /** Public URL a file is (or would be) served from */
+  getUrl(key: string): string;
+  /** Key of a file from its public URL, or null if the URL is not from this provider */
+  keyFromUrl(url: string): string | null;
+}
+
+export const STORAGE_PROVIDERS = ['github', 'local', 's3'] as const;
+
+export type StorageProviderName = (typeof STORAGE_PROVIDERS)[number];
+
+const CONTENT_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+};
+
+let provider: StorageProvider | undefined;
+
+/**
+ * Picks the provider name from the environment
+ * STORAGE_PROVIDER wins; otherwise GitHub or S3 when configured, and local disk as a last resort
+ */
+function resolveProviderName(): StorageProviderName {
+  const configured = process.env.STORAGE_PROVIDER?.trim().toLowerCase();
+  if (configured) {
+    if (!(STORAGE_PROVIDERS as readonly string[]).includes(configured)) {
+      throw new Error(`Unknown STORAGE_PROVIDER "${configured}", expected one of: ${STORAGE_PROVIDERS.join(', ')}.`);
+    }
+    return configured as StorageProviderName;
+  }
+
+  if (process.env.GITHUB_REPO && process.env.GITHUB_TOKEN) return 'github';
+  if (process.env.S3_BUCKET) return 's3';
+  return 'local';
+}
+
+/**
+ * Returns the provider selected by the environment, creating it on first use
+ *
+ * @returns The storage provider
+ */
+export function getStorageProvider(): StorageProvider {
+  if (provider) return provider;
+
+  switch (resolveProviderName()) {
+    case 'github':
+      provider = new GitHubStorageProvider();
+      break;
+    case 'local':
+      provider = new LocalStorageProvider();
+      break;
+    case 's3':
+      provider = new S3StorageProvider();
+      break;
+  }
+  return provider;
+}
+
+/**
+ * Content type for a key, from its file extension
+ *
+ * @param key - File key
+ * @returns The MIME type, application/octet-stream when unknown
+ */
+export function contentTypeForKey(key: string): string {
+  const extension = key.split('.').pop()?.toLowerCase() ?? '';
+  return CONTENT_TYPES[extension] ?? 'application/octet-stream';
+}
@@ -29,3 +29,27 @@ export function slugify(text: string): string {
     .replace(/^-+/, '')       // Trim - from start of text
     .replace(/-+$/, '');      // Trim - from end of text
 }
+
+/**
+ * Square avatar sizes in pixels: large for the profile page, small for comments and lists
+ */
+export const AVATAR_SIZES = {
+  large: 256,
+  small: 64,
+} as const;
+
+export type AvatarSize = keyof typeof AVATAR_SIZES;
+
+/**
+ * URL of an avatar at a given size
+ * Processed avatars are stored once per size with the size in the file name;
+ * other images (e.g. from GitHub sign-in) are returned unchanged
+ * 
+ * @param image - The user's image URL (the large size)
+ * @param size - Wanted size
+ * @returns URL of the image at that size, or an empty string when there is no image
+ */
+export function avatarUrl(image: string | null | undefined, size: AvatarSize): string {
+  if (!image) return '';
+  return image.replace(new RegExp(`-${AVATAR_SIZES.large}\\.webp$`), `-${AVATAR_SIZES[size]}.webp`);
+}
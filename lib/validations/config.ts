@@ -11,7 +11,52 @@
  */
 
 import { z } from "zod";
-import { DirectXHubType, AudioDriverType } from "@prisma/client";
+import { DirectXHubType, AudioDriverType, ReportStatus, DigestFrequency, GameSource, GameStatus, GpuFamily, Playability } from "@prisma/client";
+import { parseEnvVars, normalizeEnvVars } from "@/lib/env-vars";
+
+/**
+ * Schema for the envVars text
+ * Rejects malformed pairs, invalid names and duplicates, then normalizes to one KEY=VALUE per line
+ */
+const envVarsSchema = z.string().optional().nullable()
+  .superRefine((value, ctx) => {
+    if (!value) return;
+    for (const issue of parseEnvVars(value).issues) {
+      if (issue.severity === "error") {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: issue.line ? `Line ${issue.line}: ${issue.message}` : issue.message,
+        });
+      }
+    }
+  })
+  .transform((value) => (value ? normalizeEnvVars(value) : value));
+
+/**
+ * Schema for the device a config was tested on
+ * Every field is optional since authors may not know all of them, blanks are stored as null
+ */
+export const deviceProfileSchema = z.object({
+  deviceModel: z.string().trim().max(100, "Device model must be 100 characters or less").optional().nullable()
+    .transform((value) => value || null),
+  soc: z.string().trim().max(100, "SoC must be 100 characters or less").optional().nullable()
+    .transform((value) => value || null),
+  gpuFamily: z.nativeEnum(GpuFamily).optional().nullable(),
+  ramGb: z.number().int().min(1).max(64, "RAM must be at most 64 GB").optional().nullable(),
+  androidVersion: z.number().int().min(5).max(30).optional().nullable(),
+});
+
+/**
+ * Schema for a device saved on a user's profile
+ * Unlike a config's device profile, every field is required
+ */
+export const savedDeviceSchema = z.object({
+  deviceModel: z.string().trim().min(1, "Device model is required").max(100, "Device model must be 100 characters or less"),
+  soc: z.string().trim().min(1, "SoC is required").max(100, "SoC must be 100 characters or less"),
+  gpuFamily: z.nativeEnum(GpuFamily),
+  ramGb: z.number().int().min(1).max(64, "RAM must be at most 64 GB"),
+  androidVersion: z.number().int().min(5).max(30),
+});
 
 /**
  * Base schema for config details
@@ -21,7 +66,7 @@ export const configDetailsSchema = z.object({
   language: z.string().optional().nullable(),
   gameResolution: z.string().min(1, "Game resolution is required"),
   directxHub: z.nativeEnum(DirectXHubType),
-  envVars: z.string().optional().nullable(),
+  envVars: envVarsSchema,
   commandLine: z.string().optional().nullable(),
   compatLayer: z.string().min(1, "Compatibility layer is required"),
   gpuDriver: z.string().min(1, "GPU driver is required"),
@@ -32,7 +77,8 @@ export const configDetailsSchema = z.object({
   cpuCoreLimit: z.string().min(1, "CPU core limit is required"),
   vramLimit: z.string().min(1, "VRAM limit is required"),
   components: z.array(z.string()).default([]),
-  notes: z.string().optional().nullable(),
+  notes: z.string().max(5000, "Notes must be 5000 characters or less").optional().nullable(),
+  ...deviceProfileSchema.shape,
 });
 
 /**
@@ -83,8 +129,15 @@ export const voteSchema = z.object({
  */
 export const commentSchema = z.object({
   content: z.string().min(1, "Comment cannot be empty").max(1000, "Comment is too long"),
+  parentId: z.string().min(1).optional(),
 });
 
+/**
+ * Deepest reply level, top-level comments are depth 0
+ * Replies to a comment at this depth are attached to its parent instead
+ */
+export const MAX_COMMENT_DEPTH = 3;
+
 /**
  * Schema for voting on a comment
  */
@@ -92,16 +145,111 @@ export const commentVoteSchema = z.object({
   value: z.number().int().min(-1).max(1),
 });
 
+/**
+ * Schema for a performance report on a config
+ * `versionNumber` defaults to the config's current version, the 1% low can't exceed the average
+ */
+export const performanceReportSchema = z.object({
+  versionNumber: z.number().int().min(1).optional(),
+  playability: z.nativeEnum(Playability),
+  avgFps: z.number().min(0).max(1000, "Average FPS must be at most 1000"),
+  onePercentLowFps: z.number().min(0).max(1000).optional().nullable(),
+  resolution: z.string().trim().regex(/^\d{2,5}\s*x\s*\d{2,5}$/i, "Resolution must look like 1280x720"),
+  notes: z.string().trim().max(500, "Notes must be 500 characters or less").optional().nullable()
+    .transform((value) => value || null),
+  ...deviceProfileSchema.shape,
+}).refine((data) => data.onePercentLowFps == null || data.onePercentLowFps <= data.avgFps, {
+  message: "1% low FPS can't be higher than the average",
+  path: ["onePercentLowFps"],
+});
+
+/**
+ * Schema for reporting a config or comment
+ */
+export const reportSchema = z.object({
+  reason: z.string().trim().min(1, "Reason is required").max(500, "Reason must be 500 characters or less"),
+});
+
+/**
+ * Schema for moving a report through the moderation queue
+ * Reports start as OPEN and can only be closed as REVIEWED or DISMISSED
+ */
+export const reportStatusSchema = z.object({
+  status: z.enum([ReportStatus.REVIEWED, ReportStatus.DISMISSED]),
+});
+
+/**
+ * Schema for marking notifications as read
+ * Either specific notification IDs or `all: true` for every unread notification
+ */
+export const notificationReadSchema = z.union([
+  z.object({ ids: z.array(z.string().min(1)).min(1).max(100) }),
+  z.object({ all: z.literal(true) }),
+]);
+
+/**
+ * Schema for updating a user's email digest preference
+ */
+export const emailPreferenceSchema = z.object({
+  digestFrequency: z.nativeEnum(DigestFrequency),
+});
+
 /**
  * Schema for game data in config responses
  */
 export const gameSchema = z.object({
   id: z.string(),
-  steamId: z.string(),
+  source: z.nativeEnum(GameSource),
+  externalId: z.string(),
   name: z.string(),
   imageUrl: z.string(),
 });
 
+/**
+ * Schema for adding a game that is not on Steam
+ * GOG and Epic games need their store ID, manual entries are identified by name.
+ * `coverImage` is base64 image data
+ */
+export const gameSubmissionSchema = z.object({
+  source: z.enum([GameSource.GOG, GameSource.EPIC, GameSource.MANUAL]),
+  externalId: z.string().trim().regex(/^[A-Za-z0-9._:-]{1,100}$/, "Store ID may only contain letters, digits and . _ : -").optional(),
+  name: z.string().trim().min(1, "Name is required").max(200),
+  coverImage: z.string().optional(),
+}).refine((data) => data.source === GameSource.MANUAL || Boolean(data.externalId), {
+  message: "Store ID is required for GOG and Epic games",
+  path: ["externalId"],
+});
+
+/**
+ * Schema for reviewing a submitted game
+ */
+export const gameReviewSchema = z.object({
+  status: z.enum([GameStatus.APPROVED, GameStatus.REJECTED]),
+});
+
+/**
+ * Schema for merging a duplicate game into another game
+ * Users with configs for both games block the merge unless `keepBestOnConflict` is set,
+ * which keeps the higher ranked of the two configs and deletes the other
+ */
+export const gameMergeSchema = z.object({
+  targetId: z.string().min(1),
+  keepBestOnConflict: z.boolean().default(false),
+});
+
+/**
+ * Schema for adding an alias to a game
+ * An alias is another name of the game, optionally with a store ID that should resolve to it
+ */
+export const gameAliasSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(200),
+  source: z.nativeEnum(GameSource).optional(),
+  externalId: z.string().trim().regex(/^[A-Za-z0-9._:-]{1,100}$/, "Store ID may only contain letters, digits and . _ : -").optional(),
+}).refine((data) => Boolean(data.source) === Boolean(data.externalId), {
+  message: "Store and store ID must be given together",
+  path: ["externalId"],
+});
+
 /**
  * Schema for user data in config responses
  */
@@ -111,15 +259,28 @@ export const userSchema = z.object({
   image: z.string().nullable(),
 });
 
+/**
+ * Schema for a full config version snapshot
+ * Captures every user-editable field so history and revert cover all of them
+ */
+export const configSnapshotSchema = z.object({
+  snapshotVersion: z.literal(2),
+  gamehubVersion: z.string(),
+  videoUrl: z.string().nullable(),
+  tags: z.array(z.string()),
+  details: configDetailsSchema,
+});
+
 /**
  * Schema for config version data
+ * Versions created before full snapshots store only the config details
  */
 export const configVersionSchema = z.object({
   id: z.string(),
   configId: z.string(),
   userId: z.string(),
   versionNumber: z.number(),
-  configSnapshot: configDetailsSchema,
+  configSnapshot: z.union([configSnapshotSchema, configDetailsSchema]),
   changeSummary: z.string(),
   createdAt: z.date(),
   updatedBy: z.object({
@@ -170,14 +331,26 @@ export const paginatedConfigsSchema = z.object({
 
 // TypeScript type exports
 export type ConfigDetails = z.infer<typeof configDetailsSchema>;
+export type DeviceProfile = z.infer<typeof deviceProfileSchema>;
+export type SavedDeviceInput = z.infer<typeof savedDeviceSchema>;
 export type CreateConfigInput = z.infer<typeof createConfigSchema>;
 export type ConfigFormValues = z.infer<typeof configFormSchema>;
 export type UpdateConfigInput = z.infer<typeof updateConfigSchema>;
 export type VoteInput = z.infer<typeof voteSchema>;
 export type CommentInput = z.infer<typeof commentSchema>;
 export type CommentVoteInput = z.infer<typeof commentVoteSchema>;
+export type ReportInput = z.infer<typeof reportSchema>;
+export type PerformanceReportInput = z.infer<typeof performanceReportSchema>;
+export type ReportStatusInput = z.infer<typeof reportStatusSchema>;
+export type NotificationReadInput = z.infer<typeof notificationReadSchema>;
+export type EmailPreferenceInput = z.infer<typeof emailPreferenceSchema>;
 export type GameData = z.infer<typeof gameSchema>;
+export type GameMergeInput = z.infer<typeof gameMergeSchema>;
+export type GameAliasInput = z.infer<typeof gameAliasSchema>;
+export type GameSubmissionInput = z.infer<typeof gameSubmissionSchema>;
+export type GameReviewInput = z.infer<typeof gameReviewSchema>;
 export type UserData = z.infer<typeof userSchema>;
+export type ConfigSnapshot = z.infer<typeof configSnapshotSchema>;
 export type ConfigVersion = z.infer<typeof configVersionSchema>;
 export type ConfigWithDetails = z.infer<typeof configWithDetailsSchema>;
 export type PaginationData = z.infer<typeof paginationSchema>;
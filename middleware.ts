@@ -37,6 +37,9 @@ export async function middleware(request: NextRequest) {
     "/api/users",       // Allow public access to users API
     "/api/configs",     // Allow public access to configs API
     "/api/games",       // Allow public access to games API
+    "/api/email",       // Unsubscribe links are opened from email without a session
+    "/api/jobs",        // Job triggers authorize with JOBS_SECRET themselves
+    "/api/storage",     // Uploaded images served by the local storage provider
   
     // Page routes
     "/", 
@@ -48,6 +51,9 @@ export async function middleware(request: NextRequest) {
     "/configs",         // Allow public access to configs listing
     "/search/configs",  // Allow public access to configs search
     "/games",           // Allow public access to games listing
+    "/unsubscribe",     // Unsubscribe links from digest emails ask for confirmation here
+    "/unsubscribed",    // Confirmation page for email unsubscribe links
+    "/email-verified",  // Landing page for email verification links
   ];
   
   
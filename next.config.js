@@ -5,6 +5,10 @@ const nextConfig = {
     ignoreDuringBuilds: true,
   },
   images: { unoptimized: true },
+  experimental: {
+    // Runs instrumentation.ts on startup, used to start the job runner
+    instrumentationHook: true,
+  },
 };
 
 module.exports = nextConfig;
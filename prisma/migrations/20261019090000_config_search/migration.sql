@@ -0,0 +1,96 @@
+-- Trigram matching for typo tolerant search
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- CreateIndex
+CREATE INDEX "user_username_idx" ON "user" USING GIN ("username" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Game_name_idx" ON "Game" USING GIN ("name" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "ConfigDetails_notes_idx" ON "ConfigDetails" USING GIN ("notes" gin_trgm_ops);
+
+-- AlterTable
+ALTER TABLE "Config" ADD COLUMN "searchVector" tsvector;
+
+-- CreateIndex
+CREATE INDEX "Config_userId_idx" ON "Config"("userId");
+
+-- CreateIndex
+CREATE INDEX "Config_searchVector_idx" ON "Config" USING GIN ("searchVector");
+
+-- Builds the weighted search document of a config: game name (A), tags and author (B),
+-- notes (C) and comments (D)
+CREATE OR REPLACE FUNCTION config_search_document(config_id TEXT) RETURNS tsvector AS $$
+  SELECT
+    setweight(to_tsvector('english', g.name), 'A') ||
+    setweight(to_tsvector('english', array_to_string(c.tags, ' ')), 'B') ||
+    setweight(to_tsvector('simple', u.username), 'B') ||
+    setweight(to_tsvector('english', coalesce(d.notes, '')), 'C') ||
+    setweight(to_tsvector('english', coalesce(
+      (SELECT string_agg(cm.content, ' ') FROM "Comment" cm WHERE cm."configId" = c.id), ''
+    )), 'D')
+  FROM "Config" c
+  JOIN "Game" g ON g.id = c."gameId"
+  JOIN "user" u ON u.id = c."userId"
+  LEFT JOIN "ConfigDetails" d ON d."configId" = c.id
+  WHERE c.id = config_id
+$$ LANGUAGE sql STABLE;
+
+-- Recomputes the search documents of configs, scoped by config, game or author
+CREATE OR REPLACE FUNCTION refresh_config_search(config_id TEXT, game_id TEXT, user_id TEXT) RETURNS void AS $$
+  UPDATE "Config"
+  SET "searchVector" = config_search_document(id)
+  WHERE (config_id IS NOT NULL AND id = config_id)
+     OR (game_id IS NOT NULL AND "gameId" = game_id)
+     OR (user_id IS NOT NULL AND "userId" = user_id)
+$$ LANGUAGE sql;
+
+CREATE OR REPLACE FUNCTION config_search_trigger() RETURNS trigger AS $$
+DECLARE
+  row_data RECORD;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    row_data := OLD;
+  ELSE
+    row_data := NEW;
+  END IF;
+
+  IF TG_TABLE_NAME = 'Config' THEN
+    PERFORM refresh_config_search(row_data.id, NULL, NULL);
+  ELSIF TG_TABLE_NAME IN ('ConfigDetails', 'Comment') THEN
+    PERFORM refresh_config_search(row_data."configId", NULL, NULL);
+  ELSIF TG_TABLE_NAME = 'Game' THEN
+    PERFORM refresh_config_search(NULL, row_data.id, NULL);
+  ELSIF TG_TABLE_NAME = 'user' THEN
+    PERFORM refresh_config_search(NULL, NULL, row_data.id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the columns that feed the document fire the triggers, so updating "searchVector"
+-- itself does not recurse
+CREATE TRIGGER "Config_searchVector_refresh"
+AFTER INSERT OR UPDATE OF "gameId", "userId", "tags" ON "Config"
+FOR EACH ROW EXECUTE FUNCTION config_search_trigger();
+
+CREATE TRIGGER "ConfigDetails_searchVector_refresh"
+AFTER INSERT OR UPDATE OF "notes" OR DELETE ON "ConfigDetails"
+FOR EACH ROW EXECUTE FUNCTION config_search_trigger();
+
+CREATE TRIGGER "Comment_searchVector_refresh"
+AFTER INSERT OR UPDATE OF "content" OR DELETE ON "Comment"
+FOR EACH ROW EXECUTE FUNCTION config_search_trigger();
+
+CREATE TRIGGER "Game_searchVector_refresh"
+AFTER UPDATE OF "name" ON "Game"
+FOR EACH ROW EXECUTE FUNCTION config_search_trigger();
+
+CREATE TRIGGER "user_searchVector_refresh"
+AFTER UPDATE OF "username" ON "user"
+FOR EACH ROW EXECUTE FUNCTION config_search_trigger();
+
+-- Backfill existing configs
+UPDATE "Config" SET "searchVector" = config_search_document(id);
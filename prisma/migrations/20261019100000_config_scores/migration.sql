@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "Config" ADD COLUMN     "bestScore" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "trendingScore" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- Backfill: Wilson lower bound (z = 1.96) of the upvote ratio
+UPDATE "Config"
+SET "bestScore" = (
+  ("upvotes"::float8 / ("upvotes" + "downvotes"))
+  + 1.9208 / ("upvotes" + "downvotes")
+  - 1.96 * sqrt(("upvotes"::float8 * "downvotes") / ("upvotes" + "downvotes") + 0.9604) / ("upvotes" + "downvotes")
+) / (1 + 3.8416 / ("upvotes" + "downvotes"))
+WHERE "upvotes" + "downvotes" > 0;
+
+-- Backfill: net votes decayed by age in hours (gravity 1.8)
+UPDATE "Config"
+SET "trendingScore" = ("upvotes" - "downvotes") / power(extract(epoch FROM (now() - "createdAt")) / 3600 + 2, 1.8);
+
+-- CreateIndex
+CREATE INDEX "Config_bestScore_idx" ON "Config"("bestScore");
+
+-- CreateIndex
+CREATE INDEX "Config_trendingScore_idx" ON "Config"("trendingScore");
@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "Comment" ADD COLUMN     "depth" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "isDeleted" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "parentId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Comment_configId_parentId_idx" ON "Comment"("configId", "parentId");
+
+-- CreateIndex
+CREATE INDEX "Comment_parentId_idx" ON "Comment"("parentId");
+
+-- AddForeignKey
+ALTER TABLE "Comment" ADD CONSTRAINT "Comment_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Comment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Leave deleted comments out of the config search document
+CREATE OR REPLACE FUNCTION config_search_document(config_id TEXT) RETURNS tsvector AS $$
+  SELECT
+    setweight(to_tsvector('english', g.name), 'A') ||
+    setweight(to_tsvector('english', array_to_string(c.tags, ' ')), 'B') ||
+    setweight(to_tsvector('simple', u.username), 'B') ||
+    setweight(to_tsvector('english', coalesce(d.notes, '')), 'C') ||
+    setweight(to_tsvector('english', coalesce(
+      (SELECT string_agg(cm.content, ' ') FROM "Comment" cm WHERE cm."configId" = c.id AND NOT cm."isDeleted"), ''
+    )), 'D')
+  FROM "Config" c
+  JOIN "Game" g ON g.id = c."gameId"
+  JOIN "user" u ON u.id = c."userId"
+  LEFT JOIN "ConfigDetails" d ON d."configId" = c.id
+  WHERE c.id = config_id
+$$ LANGUAGE sql STABLE;
+
+DROP TRIGGER "Comment_searchVector_refresh" ON "Comment";
+
+CREATE TRIGGER "Comment_searchVector_refresh"
+AFTER INSERT OR UPDATE OF "content", "isDeleted" OR DELETE ON "Comment"
+FOR EACH ROW EXECUTE FUNCTION config_search_trigger();
@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "DigestFrequency" AS ENUM ('NONE', 'DAILY', 'WEEKLY');
+
+-- AlterTable
+ALTER TABLE "Report" ADD COLUMN     "resolvedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "EmailPreference" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "digestFrequency" "DigestFrequency" NOT NULL DEFAULT 'NONE',
+    "lastDigestSentAt" TIMESTAMP(3),
+    "unsubscribeToken" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EmailPreference_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EmailPreference_userId_key" ON "EmailPreference"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EmailPreference_unsubscribeToken_key" ON "EmailPreference"("unsubscribeToken");
+
+-- CreateIndex
+CREATE INDEX "EmailPreference_digestFrequency_lastDigestSentAt_idx" ON "EmailPreference"("digestFrequency", "lastDigestSentAt");
+
+-- AddForeignKey
+ALTER TABLE "EmailPreference" ADD CONSTRAINT "EmailPreference_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- Accounts created before email verification was enforced keep posting access
+UPDATE "user" SET "emailVerified" = true WHERE "emailVerified" = false;
@@ -0,0 +1,17 @@
+-- CreateEnum
+CREATE TYPE "GraphicsApi" AS ENUM ('DIRECTX_8', 'DIRECTX_9', 'DIRECTX_10', 'DIRECTX_11', 'DIRECTX_12', 'VULKAN', 'OPENGL');
+
+-- AlterTable
+ALTER TABLE "Game" ADD COLUMN     "alternateNames" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "antiCheat" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "developers" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "genres" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "graphicsApis" "GraphicsApi"[] DEFAULT ARRAY[]::"GraphicsApi"[],
+ADD COLUMN     "metadataUpdatedAt" TIMESTAMP(3),
+ADD COLUMN     "releaseDate" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Game_graphicsApis_idx" ON "Game" USING GIN ("graphicsApis");
+
+-- CreateIndex
+CREATE INDEX "Game_metadataUpdatedAt_idx" ON "Game"("metadataUpdatedAt");
@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "SteamAppCache" (
+    "steamId" TEXT NOT NULL,
+    "name" TEXT,
+    "imageUrl" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SteamAppCache_pkey" PRIMARY KEY ("steamId")
+);
+
+-- CreateIndex
+CREATE INDEX "SteamAppCache_expiresAt_idx" ON "SteamAppCache"("expiresAt");
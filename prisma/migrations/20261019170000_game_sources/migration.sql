@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "GameSource" AS ENUM ('STEAM', 'GOG', 'EPIC', 'MANUAL');
+
+-- CreateEnum
+CREATE TYPE "GameStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- DropIndex
+DROP INDEX "Game_steamId_key";
+
+-- AlterTable
+-- Existing games all came from Steam, so their Steam App ID becomes the external ID
+ALTER TABLE "Game" RENAME COLUMN "steamId" TO "externalId";
+ALTER TABLE "Game" ADD COLUMN     "source" "GameSource" NOT NULL DEFAULT 'STEAM',
+ADD COLUMN     "status" "GameStatus" NOT NULL DEFAULT 'APPROVED',
+ADD COLUMN     "submittedById" TEXT,
+ADD COLUMN     "reviewedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Game_source_externalId_key" ON "Game"("source", "externalId");
+
+-- CreateIndex
+CREATE INDEX "Game_status_createdAt_idx" ON "Game"("status", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Game" ADD CONSTRAINT "Game_submittedById_fkey" FOREIGN KEY ("submittedById") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,100 @@
+-- CreateEnum
+CREATE TYPE "AuditAction" AS ENUM ('GAME_MERGE', 'GAME_ALIAS_CREATE', 'GAME_ALIAS_DELETE');
+
+-- CreateTable
+CREATE TABLE "GameAlias" (
+    "id" TEXT NOT NULL,
+    "gameId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "source" "GameSource",
+    "externalId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GameAlias_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AuditLog" (
+    "id" TEXT NOT NULL,
+    "action" "AuditAction" NOT NULL,
+    "actorId" TEXT,
+    "targetId" TEXT NOT NULL,
+    "details" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AuditLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "GameAlias_gameId_idx" ON "GameAlias"("gameId");
+
+-- CreateIndex
+CREATE INDEX "GameAlias_name_idx" ON "GameAlias" USING GIN ("name" gin_trgm_ops);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GameAlias_source_externalId_key" ON "GameAlias"("source", "externalId");
+
+-- CreateIndex
+CREATE INDEX "AuditLog_targetId_createdAt_idx" ON "AuditLog"("targetId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "AuditLog_createdAt_idx" ON "AuditLog"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "GameAlias" ADD CONSTRAINT "GameAlias_gameId_fkey" FOREIGN KEY ("gameId") REFERENCES "Game"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AuditLog" ADD CONSTRAINT "AuditLog_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Add game aliases to the config search document, weighted like the game name
+CREATE OR REPLACE FUNCTION config_search_document(config_id TEXT) RETURNS tsvector AS $$
+  SELECT
+    setweight(to_tsvector('english', g.name), 'A') ||
+    setweight(to_tsvector('english', coalesce(
+      (SELECT string_agg(a.name, ' ') FROM "GameAlias" a WHERE a."gameId" = g.id), ''
+    )), 'A') ||
+    setweight(to_tsvector('english', array_to_string(c.tags, ' ')), 'B') ||
+    setweight(to_tsvector('simple', u.username), 'B') ||
+    setweight(to_tsvector('english', coalesce(d.notes, '')), 'C') ||
+    setweight(to_tsvector('english', coalesce(
+      (SELECT string_agg(cm.content, ' ') FROM "Comment" cm WHERE cm."configId" = c.id AND NOT cm."isDeleted"), ''
+    )), 'D')
+  FROM "Config" c
+  JOIN "Game" g ON g.id = c."gameId"
+  JOIN "user" u ON u.id = c."userId"
+  LEFT JOIN "ConfigDetails" d ON d."configId" = c.id
+  WHERE c.id = config_id
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION config_search_trigger() RETURNS trigger AS $$
+DECLARE
+  row_data RECORD;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    row_data := OLD;
+  ELSE
+    row_data := NEW;
+  END IF;
+
+  IF TG_TABLE_NAME = 'Config' THEN
+    PERFORM refresh_config_search(row_data.id, NULL, NULL);
+  ELSIF TG_TABLE_NAME IN ('ConfigDetails', 'Comment') THEN
+    PERFORM refresh_config_search(row_data."configId", NULL, NULL);
+  ELSIF TG_TABLE_NAME = 'Game' THEN
+    PERFORM refresh_config_search(NULL, row_data.id, NULL);
+  ELSIF TG_TABLE_NAME = 'GameAlias' THEN
+    PERFORM refresh_config_search(NULL, row_data."gameId", NULL);
+    IF TG_OP = 'UPDATE' AND OLD."gameId" <> NEW."gameId" THEN
+      PERFORM refresh_config_search(NULL, OLD."gameId", NULL);
+    END IF;
+  ELSIF TG_TABLE_NAME = 'user' THEN
+    PERFORM refresh_config_search(NULL, NULL, row_data.id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "GameAlias_searchVector_refresh"
+AFTER INSERT OR UPDATE OF "name", "gameId" OR DELETE ON "GameAlias"
+FOR EACH ROW EXECUTE FUNCTION config_search_trigger();
@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "GpuFamily" AS ENUM ('ADRENO', 'MALI', 'XCLIPSE', 'POWERVR', 'OTHER');
+
+-- AlterTable
+ALTER TABLE "ConfigDetails" ADD COLUMN     "androidVersion" INTEGER,
+ADD COLUMN     "deviceModel" TEXT,
+ADD COLUMN     "gpuFamily" "GpuFamily",
+ADD COLUMN     "ramGb" INTEGER,
+ADD COLUMN     "soc" TEXT;
+
+-- CreateTable
+CREATE TABLE "Device" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "deviceModel" TEXT NOT NULL,
+    "soc" TEXT NOT NULL,
+    "gpuFamily" "GpuFamily" NOT NULL,
+    "ramGb" INTEGER NOT NULL,
+    "androidVersion" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Device_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ConfigDetails_soc_idx" ON "ConfigDetails"("soc");
+
+-- CreateIndex
+CREATE INDEX "ConfigDetails_gpuFamily_idx" ON "ConfigDetails"("gpuFamily");
+
+-- CreateIndex
+CREATE INDEX "Device_userId_idx" ON "Device"("userId");
+
+-- AddForeignKey
+ALTER TABLE "Device" ADD CONSTRAINT "Device_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
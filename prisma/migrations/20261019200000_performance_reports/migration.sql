@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "Playability" AS ENUM ('PERFECT', 'PLAYABLE', 'INGAME', 'MENUS', 'BROKEN');
+
+-- CreateTable
+CREATE TABLE "PerformanceReport" (
+    "id" TEXT NOT NULL,
+    "configId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "versionNumber" INTEGER NOT NULL,
+    "playability" "Playability" NOT NULL,
+    "avgFps" DOUBLE PRECISION NOT NULL,
+    "onePercentLowFps" DOUBLE PRECISION,
+    "resolution" TEXT NOT NULL,
+    "deviceModel" TEXT,
+    "soc" TEXT,
+    "gpuFamily" "GpuFamily",
+    "ramGb" INTEGER,
+    "androidVersion" INTEGER,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PerformanceReport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PerformanceReport_configId_createdAt_idx" ON "PerformanceReport"("configId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PerformanceReport_configId_userId_versionNumber_key" ON "PerformanceReport"("configId", "userId", "versionNumber");
+
+-- AddForeignKey
+ALTER TABLE "PerformanceReport" ADD CONSTRAINT "PerformanceReport_configId_fkey" FOREIGN KEY ("configId") REFERENCES "Config"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PerformanceReport" ADD CONSTRAINT "PerformanceReport_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE RESTRICT ON UPDATE CASCADE;